@@ -1,4 +1,4 @@
-import type { RoamBlock } from "../types";
+import type { RoamBlock, TaskStatus } from "../types";
 
 export function getBlockContent(uid: string): string {
   const result = window.roamAlphaAPI.pull("[:block/string]", [":block/uid", uid]);
@@ -33,6 +33,16 @@ export function getBlocksOnPage(pageTitle: string): RoamBlock[] {
   }));
 }
 
+// Direct children of a block, in order
+export function getChildBlocks(uid: string): Array<{ uid: string; string: string }> {
+  const result = window.roamAlphaAPI.pull("[{:block/children [:block/uid :block/string :block/order]}]", [":block/uid", uid]);
+  const children = (result?.[":block/children"] as Array<Record<string, unknown>> | undefined) || [];
+
+  return [...children]
+    .sort((a, b) => ((a[":block/order"] as number) ?? 0) - ((b[":block/order"] as number) ?? 0))
+    .map((child) => ({ uid: child[":block/uid"] as string, string: (child[":block/string"] as string) || "" }));
+}
+
 export function getBlockWithParent(pageTitle: string): Array<{ uid: string; string: string; order: number; parentUid: string }> {
   // Single query to get all blocks with their parent UIDs - avoids N+1 problem
   const query = `
@@ -58,57 +68,205 @@ export function getBlockWithParent(pageTitle: string): Array<{ uid: string; stri
   }));
 }
 
-// Batch fetch all blocks and their ancestors' content for tag resolution
-// Returns: { contentMap: uid -> content, parentMap: uid -> parentUid }
-export function getBlockHierarchyData(pageTitle: string): {
-  blocks: Array<{ uid: string; string: string; order: number; parentUid: string }>;
+export interface PageBlock {
+  uid: string;
+  string: string;
+  order: number;
+  parentUid: string;
+}
+
+// Batch fetch all blocks of several pages and their ancestors' content for tag resolution.
+// One query for the pages' blocks, plus one for ancestors outside those pages (only if there are any).
+// Returns: { blocksByPage: title -> blocks, contentMap: uid -> content, parentMap: uid -> parentUid }
+export function getPagesHierarchyData(pageTitles: string[]): {
+  blocksByPage: Map<string, PageBlock[]>;
   contentMap: Map<string, string>;
   parentMap: Map<string, string>;
 } {
-  // Get all blocks with parent UIDs
-  const blocks = getBlockWithParent(pageTitle);
-
-  // Build maps for quick lookup
+  const blocksByPage = new Map<string, PageBlock[]>();
   const contentMap = new Map<string, string>();
   const parentMap = new Map<string, string>();
 
-  for (const block of blocks) {
-    contentMap.set(block.uid, block.string);
-    parentMap.set(block.uid, block.parentUid);
+  for (const title of pageTitles) {
+    blocksByPage.set(title, []);
+  }
+  if (pageTitles.length === 0) return { blocksByPage, contentMap, parentMap };
+
+  const query = `
+    [:find ?title ?page-uid ?uid ?string ?order ?parent-uid
+     :in $ [?title ...]
+     :where
+       [?page :node/title ?title]
+       [?page :block/uid ?page-uid]
+       [?block :block/page ?page]
+       [?block :block/uid ?uid]
+       [?block :block/string ?string]
+       [?block :block/order ?order]
+       [?parent :block/children ?block]
+       [?parent :block/uid ?parent-uid]]
+  `;
+
+  const results = window.roamAlphaAPI.q(query, pageTitles) as [string, string, string, string, number, string][];
+  const pageUids = new Set<string>();
+
+  for (const [title, pageUid, uid, string, order, parentUid] of results) {
+    pageUids.add(pageUid);
+    blocksByPage.get(title)?.push({ uid, string, order, parentUid });
+    contentMap.set(uid, string);
+    parentMap.set(uid, parentUid);
   }
 
-  // Also fetch ancestor content that might not be in blocks list
-  // (parents could be outside the page's direct blocks if deeply nested)
-  const missingParents = new Set<string>();
-  for (const block of blocks) {
-    let parentUid = block.parentUid;
-    while (parentUid && !contentMap.has(parentUid)) {
-      missingParents.add(parentUid);
-      // We'll need to fetch these
-      break; // Only mark immediate missing parent, will traverse later
+  // Blocks whose parent is neither on these pages nor the page itself
+  const childrenOfMissingParents: string[] = [];
+  for (const [uid, parentUid] of parentMap) {
+    if (!contentMap.has(parentUid) && !pageUids.has(parentUid)) {
+      childrenOfMissingParents.push(uid);
     }
   }
 
-  // Batch fetch missing parent content
-  if (missingParents.size > 0) {
-    for (const uid of missingParents) {
-      // Fetch content and parent in one pull call
-      const result = window.roamAlphaAPI.pull(
-        "[:block/string {:block/_children [:block/uid]}]",
-        [":block/uid", uid]
-      );
-      if (result) {
-        const content = (result[":block/string"] as string) || "";
-        contentMap.set(uid, content);
-        const parentData = result[":block/_children"] as Array<{ ":block/uid": string }> | undefined;
-        if (parentData?.[0]?.[":block/uid"]) {
-          parentMap.set(uid, parentData[0][":block/uid"]);
-        }
+  // Fetch every ancestor of those blocks at once, however far up they are
+  if (childrenOfMissingParents.length > 0) {
+    const ancestorQuery = `
+      [:find ?uid ?string ?parent-uid
+       :in $ [?child-uid ...]
+       :where
+         [?child :block/uid ?child-uid]
+         [?child :block/parents ?ancestor]
+         [?ancestor :block/uid ?uid]
+         [?ancestor :block/string ?string]
+         [?parent :block/children ?ancestor]
+         [?parent :block/uid ?parent-uid]]
+    `;
+
+    const ancestors = window.roamAlphaAPI.q(ancestorQuery, childrenOfMissingParents) as [string, string, string][];
+    for (const [uid, string, parentUid] of ancestors) {
+      if (!contentMap.has(uid)) {
+        contentMap.set(uid, string);
+        parentMap.set(uid, parentUid);
       }
     }
   }
 
-  return { blocks, contentMap, parentMap };
+  return { blocksByPage, contentMap, parentMap };
+}
+
+// Single-page version of getPagesHierarchyData
+export function getBlockHierarchyData(pageTitle: string): {
+  blocks: PageBlock[];
+  contentMap: Map<string, string>;
+  parentMap: Map<string, string>;
+} {
+  const { blocksByPage, contentMap, parentMap } = getPagesHierarchyData([pageTitle]);
+  return { blocks: blocksByPage.get(pageTitle) || [], contentMap, parentMap };
+}
+
+// Pull pattern for a page and all its nested blocks, used with addPullWatch
+export const PAGE_TREE_PULL_PATTERN = "[:block/uid :block/string :block/order {:block/children ...}]";
+
+// Flatten a page pulled with PAGE_TREE_PULL_PATTERN into uid -> block (the page itself is not included)
+export function flattenPulledPage(page: unknown): Map<string, PageBlock> {
+  const blocks = new Map<string, PageBlock>();
+
+  const visit = (node: Record<string, unknown>, parentUid: string) => {
+    const children = (node[":block/children"] as Array<Record<string, unknown>> | undefined) || [];
+    const uid = node[":block/uid"] as string;
+    for (const child of children) {
+      const childUid = child[":block/uid"] as string | undefined;
+      if (!childUid) continue;
+      blocks.set(childUid, {
+        uid: childUid,
+        string: (child[":block/string"] as string) || "",
+        order: (child[":block/order"] as number) ?? 0,
+        parentUid: uid,
+      });
+      visit(child, childUid);
+    }
+  };
+
+  if (page && typeof page === "object") {
+    visit(page as Record<string, unknown>, "");
+  }
+  return blocks;
+}
+
+// Attribute used to remember which calendar event a block was imported from
+export const ICS_UID_ATTRIBUTE = "ics-uid";
+
+// Page holding recurring template blocks, e.g. "09:00-09:15 standup #work {{recur: weekdays}}"
+export const RECURRING_TEMPLATES_PAGE = "TimeBlock Templates";
+
+// Attribute linking a materialized occurrence to its template block
+export const RECUR_TEMPLATE_ATTRIBUTE = "recur-template";
+
+// Attribute holding the time actually spent on a block, e.g. "actual:: 10:05-11:20, 13:00-13:30"
+export const ACTUAL_ATTRIBUTE = "actual";
+
+// Collect the event keys of all previously imported blocks (values of ics-uid:: attributes)
+export function getImportedEventKeys(): Set<string> {
+  const query = `
+    [:find ?string
+     :in $ ?attr
+     :where
+       [?attr-page :node/title ?attr]
+       [?block :block/refs ?attr-page]
+       [?block :block/string ?string]]
+  `;
+
+  const results = window.roamAlphaAPI.q(query, ICS_UID_ATTRIBUTE) as [string][];
+  const prefix = `${ICS_UID_ATTRIBUTE}::`;
+  const keys = new Set<string>();
+
+  for (const [string] of results) {
+    if (string.startsWith(prefix)) {
+      keys.add(string.substring(prefix.length).trim());
+    }
+  }
+
+  return keys;
+}
+
+// Roam's checkbox markup for an open task
+export const TODO_MARKER = "{{[[TODO]]}}";
+// ...and for a done one
+export const DONE_MARKER = "{{[[DONE]]}}";
+
+// Checkbox state of a block's text, or null for a plain block
+export function getTaskStatus(text: string): TaskStatus | null {
+  if (text.includes(DONE_MARKER)) return "done";
+  if (text.includes(TODO_MARKER)) return "todo";
+  return null;
+}
+
+// Checkbox markup for a task state
+export function getTaskMarker(status: TaskStatus): string {
+  return status === "done" ? DONE_MARKER : TODO_MARKER;
+}
+
+// Text without its TODO/DONE checkbox
+export function stripTaskMarker(text: string): string {
+  return text.replace(TODO_MARKER, "").replace(DONE_MARKER, "");
+}
+
+// Open TODO blocks on a page in outline order (a parent before its children)
+export function getTodoBlocksOnPage(pageTitle: string): Array<{ uid: string; string: string }> {
+  const page = window.roamAlphaAPI.pull(PAGE_TREE_PULL_PATTERN, [":node/title", pageTitle]);
+  const todos: Array<{ uid: string; string: string }> = [];
+
+  const visit = (node: Record<string, unknown>) => {
+    const children = [...((node[":block/children"] as Array<Record<string, unknown>> | undefined) || [])].sort(
+      (a, b) => ((a[":block/order"] as number) ?? 0) - ((b[":block/order"] as number) ?? 0)
+    );
+    for (const child of children) {
+      const string = (child[":block/string"] as string) || "";
+      if (string.includes(TODO_MARKER)) {
+        todos.push({ uid: child[":block/uid"] as string, string });
+      }
+      visit(child);
+    }
+  };
+
+  if (page) visit(page);
+  return todos;
 }
 
 export function getPageUidByTitle(title: string): string | null {
@@ -174,6 +332,14 @@ export function getBlockPageTitle(blockUid: string): string | null {
   return pageData?.[":node/title"] || null;
 }
 
+// UID of the block a Roam block textarea edits, or null for other elements
+// (textarea ID format: block-input-{windowId}-{blockUid}, the UID is the last 9 chars)
+export function getBlockUidFromInput(element: Element | null): string | null {
+  if (!element?.id?.startsWith("block-input-")) return null;
+  const blockUid = element.id.substring(element.id.length - 9);
+  return blockUid.length === 9 ? blockUid : null;
+}
+
 // Extract page UID from current URL hash
 export function getCurrentPageUidFromUrl(): string | null {
   const hash = window.location.hash;
@@ -0,0 +1,152 @@
+/**
+ * Auto-scheduler - fits untimed TODO blocks into the free gaps of a day
+ * Durations come from `~45m` / `~1h30` hints in the task text. Proposals are returned
+ * for preview; nothing is written here.
+ */
+import type { ScheduleProposal, TimeBlockData } from "../types";
+import { DEFAULT_BLOCK_TEXT_OPTIONS } from "../types";
+import { parseTimeRange, timeRangeToMinutes } from "./timeParser";
+import { TODO_MARKER } from "../api/roamQueries";
+import { findNextFreeSlot } from "./conflicts";
+
+export const DEFAULT_TASK_MINUTES = 30;
+
+// Lengths offered by the inline time picker besides the default block length (minutes)
+export const SUGGESTED_DURATIONS = [15, 30, 45, 60, 90, 120];
+const SUGGESTED_SLOT_COUNT = 3;
+
+export interface UnscheduledTask {
+  uid: string;
+  title: string;
+  durationMinutes: number;
+}
+
+export interface ScheduleResult {
+  proposals: ScheduleProposal[];
+  unfitted: UnscheduledTask[]; // tasks with no gap long enough left
+}
+
+// ~45m, ~45min, ~1h, ~1h30, ~1h30m, ~1.5h
+const DURATION_HINT_REGEX = /(?:^|\s)~(?:(\d+(?:\.\d+)?)h(?:(\d+)m?)?|(\d+)m(?:in)?)(?=\s|$)/i;
+
+export function parseDurationHint(text: string): number | null {
+  const match = text.match(DURATION_HINT_REGEX);
+  if (!match) return null;
+  const minutes = match[3]
+    ? parseInt(match[3], 10)
+    : Math.round(parseFloat(match[1]) * 60) + (match[2] ? parseInt(match[2], 10) : 0);
+  return minutes > 0 ? minutes : null;
+}
+
+// A block as a task to place: a timed block keeps its length, others use the ~hint or the default
+export function createTaskFromBlock(
+  block: { uid: string; string: string },
+  defaultBlockMinutes: number = DEFAULT_BLOCK_TEXT_OPTIONS.defaultBlockMinutes
+): UnscheduledTask {
+  const range = parseTimeRange(block.string, defaultBlockMinutes);
+  const text = range ? block.string.replace(range.originalText, "") : block.string;
+  let durationMinutes = parseDurationHint(block.string) ?? DEFAULT_TASK_MINUTES;
+  if (range) {
+    const { start, end } = timeRangeToMinutes(range);
+    durationMinutes = end - start;
+  }
+  return {
+    uid: block.uid,
+    title: text.replace(TODO_MARKER, "").replace(/\s+/g, " ").trim(),
+    durationMinutes,
+  };
+}
+
+// TODO blocks that have no time range yet, in the order given
+export function collectUnscheduledTasks(todoBlocks: Array<{ uid: string; string: string }>): UnscheduledTask[] {
+  return todoBlocks.filter((block) => !parseTimeRange(block.string)).map((block) => createTaskFromBlock(block));
+}
+
+// Place tasks first-fit, in order, into the gaps between the day's blocks.
+// Slots start on the granularity grid, no earlier than earliestMinute (e.g. now, for today),
+// and stay within dayStartHour-dayEndHour on the task's own day (before 24:00).
+export function scheduleTasks(
+  tasks: UnscheduledTask[],
+  blocks: TimeBlockData[],
+  dayStartHour: number,
+  dayEndHour: number,
+  granularity: number,
+  earliestMinute: number = 0
+): ScheduleResult {
+  // Recurring occurrences are planned time too, so they are kept clear
+  const occupied = blocks.map((block) => timeRangeToMinutes(block.timeRange));
+  const dayEnd = Math.min(dayEndHour, 24) * 60;
+  const firstSlot = Math.ceil(Math.max(dayStartHour * 60, earliestMinute) / granularity) * granularity;
+
+  const proposals: ScheduleProposal[] = [];
+  const unfitted: UnscheduledTask[] = [];
+
+  for (const task of tasks) {
+    let candidate = firstSlot;
+    let placed = false;
+
+    while (candidate + task.durationMinutes <= dayEnd) {
+      const end = candidate + task.durationMinutes;
+      const blocking = occupied.find((slot) => slot.start < end && candidate < slot.end);
+      if (!blocking) {
+        occupied.push({ start: candidate, end });
+        proposals.push({
+          uid: task.uid,
+          title: task.title,
+          startHour: Math.floor(candidate / 60),
+          startMinute: candidate % 60,
+          endHour: Math.floor(end / 60),
+          endMinute: end % 60,
+        });
+        placed = true;
+        break;
+      }
+      // Jump past the block in the way, staying on the grid
+      candidate = Math.ceil(blocking.end / granularity) * granularity;
+    }
+
+    if (!placed) unfitted.push(task);
+  }
+
+  return { proposals, unfitted };
+}
+
+// A time range offered to the user, in minutes from the start of the day
+export interface SlotSuggestion {
+  start: number;
+  end: number;
+  kind: "next" | "duration"; // one of the next free slots of the default length | first free slot of another length
+}
+
+// The next few free slots of the default length from `from` on, then the first free slot of each
+// suggested length, all before midnight and without repeats
+export function suggestFreeSlots(
+  blocks: TimeBlockData[],
+  from: number,
+  defaultMinutes: number,
+  dayStartHour: number,
+  dayEndHour: number,
+  granularity: number
+): SlotSuggestion[] {
+  const dayEnd = Math.min(dayEndHour, 24);
+  const suggestions: SlotSuggestion[] = [];
+  const add = (start: number | null, length: number, kind: SlotSuggestion["kind"]) => {
+    if (start === null || suggestions.some((s) => s.start === start && s.end === start + length)) return;
+    suggestions.push({ start, end: start + length, kind });
+  };
+
+  let cursor = from;
+  for (let i = 0; i < SUGGESTED_SLOT_COUNT; i++) {
+    const start = findNextFreeSlot(blocks, cursor, defaultMinutes, dayStartHour, dayEnd, granularity);
+    if (start === null) break;
+    add(start, defaultMinutes, "next");
+    cursor = start + defaultMinutes;
+  }
+
+  for (const length of SUGGESTED_DURATIONS) {
+    if (length === defaultMinutes) continue;
+    add(findNextFreeSlot(blocks, from, length, dayStartHour, dayEnd, granularity), length, "duration");
+  }
+
+  return suggestions;
+}
@@ -1,40 +1,88 @@
-import { formatTimeRange } from "./timeParser";
-import { getPageUidByTitle, getTodayPageTitle, getBlockInfo, getBlockContent } from "../api/roamQueries";
+import { formatNewTimeRange, formatTimeRangeLike, parseTimeRange, replaceTimeRange } from "./timeParser";
+import {
+  getPageUidByTitle,
+  getBlockInfo,
+  getBlockContent,
+  getBlockPageTitle,
+  getPageTitleForDate,
+  getChildBlocks,
+  ACTUAL_ATTRIBUTE,
+  RECUR_TEMPLATE_ATTRIBUTE,
+  getTaskStatus,
+  getTaskMarker,
+  stripTaskMarker,
+} from "../api/roamQueries";
 import { escapeRegex } from "./utils";
-import type { TagConfig } from "../types";
+import { findAssociatedTag, findTagInText, isTagAttribute } from "./tagResolver";
+import type { BlockTextOptions, NewBlockTimeFormat, TagConfig, TaskStatus, TimeBlockData } from "../types";
 
 function generateBlockUid(): string {
   // Generate a 9-character alphanumeric UID similar to Roam's format
   return Math.random().toString(36).substring(2, 11);
 }
 
-// Update the tag on an existing block
+// Inline form of a tag in its configured style: #tag, #[[Multi Word]] or [[tag]]
+function formatInlineTag(tag: TagConfig): string {
+  if (tag.isPageRef) return `[[${tag.tag}]]`;
+  return /^[^\s#,[\]]+$/.test(tag.tag) ? `#${tag.tag}` : `#[[${tag.tag}]]`;
+}
+
+// Matches a tag in any inline form: #tag, #[[tag]], or [[tag]]
+function createInlineTagPattern(tag: TagConfig): RegExp {
+  const escaped = escapeRegex(tag.tag);
+  return new RegExp(`#${escaped}(?![\\w-])|#\\[\\[${escaped}\\]\\]|\\[\\[${escaped}\\]\\]`, "gi");
+}
+
+// Remove the given tags from text in any inline form, and clean up extra spaces
+function stripInlineTags(text: string, tags: TagConfig[]): string {
+  let newText = text;
+  for (const tag of tags) {
+    newText = newText.replace(createInlineTagPattern(tag), "");
+  }
+  return newText.replace(/\s+/g, " ").trim();
+}
+
+// The given tags as they are written in the text, in order
+function findInlineTags(text: string, tags: TagConfig[]): string[] {
+  const found: Array<{ index: number; text: string }> = [];
+  for (const tag of tags) {
+    for (const match of text.matchAll(createInlineTagPattern(tag))) {
+      found.push({ index: match.index ?? 0, text: match[0] });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index).map((match) => match.text);
+}
+
+// Delete a block's attribute children ("Category:: tag") that hold one of the tags
+async function removeTagAttributes(blockUid: string, tags: TagConfig[]): Promise<void> {
+  const attributeTags = tags.filter((tag) => tag.attribute);
+  if (attributeTags.length === 0) return;
+
+  for (const child of getChildBlocks(blockUid)) {
+    if (attributeTags.some((tag) => isTagAttribute(child.string, tag))) {
+      await window.roamAlphaAPI.deleteBlock({ block: { uid: child.uid } });
+    }
+  }
+}
+
+// Replace every configured tag on an existing block (inline or attribute) with one tag,
+// written in its style. Returns the UIDs of any attribute blocks created (empty if none).
 export async function updateBlockTag(
   blockUid: string,
   newTag: TagConfig,
   configuredTags: TagConfig[]
-): Promise<void> {
+): Promise<string[]> {
   const content = getBlockContent(blockUid);
-  if (!content) return;
-
-  // Build regex patterns for all configured tags
-  const tagPatterns = configuredTags.map((tag) => {
-    const escaped = escapeRegex(tag.tag);
-    // Match: #tag, #[[tag]], or [[tag]]
-    return `#${escaped}(?![\\w-])|#\\[\\[${escaped}\\]\\]|\\[\\[${escaped}\\]\\]`;
-  });
+  if (!content) return [];
 
   // Remove all existing configured tags
-  let newContent = content;
-  for (const pattern of tagPatterns) {
-    newContent = newContent.replace(new RegExp(pattern, "gi"), "");
-  }
-
-  // Clean up extra spaces
-  newContent = newContent.replace(/\s+/g, " ").trim();
+  let newContent = stripInlineTags(content, configuredTags);
+  await removeTagAttributes(blockUid, configuredTags);
 
   // Add new tag at the end
-  newContent = `${newContent} #${newTag.tag}`;
+  if (!newTag.attribute) {
+    newContent = `${newContent} ${formatInlineTag(newTag)}`;
+  }
 
   // Update the block
   await window.roamAlphaAPI.updateBlock({
@@ -43,6 +91,46 @@ export async function updateBlockTag(
       string: newContent,
     },
   });
+
+  return newTag.attribute ? [await addBlockAttribute(blockUid, newTag.attribute, newTag.tag)] : [];
+}
+
+// Resolve the daily page a start time belongs to. Times in the extended range
+// (24:00 and later) belong to the next day's page, shifted back to real clock time.
+export function resolveDailyPlacement(date: Date, startHour: number): { date: Date; hourOffset: number } {
+  if (startHour < 24) {
+    return { date, hourOffset: 0 };
+  }
+  const nextDay = new Date(date);
+  nextDay.setDate(nextDay.getDate() + 1);
+  return { date: nextDay, hourOffset: 24 };
+}
+
+// Get the UID of a date's daily page, creating the page if it doesn't exist yet
+export async function getOrCreateDailyPageUid(date: Date): Promise<string> {
+  const pageTitle = getPageTitleForDate(date);
+  const existingUid = getPageUidByTitle(pageTitle);
+  if (existingUid) return existingUid;
+
+  const pageUid = window.roamAlphaAPI.util.dateToPageUid(date);
+  await window.roamAlphaAPI.createPage({
+    page: {
+      title: pageTitle,
+      uid: pageUid,
+    },
+  });
+
+  return pageUid;
+}
+
+export interface CreateTimeBlockOptions {
+  siblingUid?: string; // insert at this block's position (if it is on the target page)
+  parentUid?: string; // append as the last child of this block (if it is on the target page)
+  tag?: TagConfig; // written in its style (inline, or as an attribute child)
+  date?: Date; // daily page to create the block on (default: today)
+  title?: string; // text after the time range
+  useFocusedBlock?: boolean; // fall back to the focused block's position (default: true)
+  timeFormat?: NewBlockTimeFormat; // style of the time range (default: 24h)
 }
 
 export async function createTimeBlock(
@@ -50,98 +138,247 @@ export async function createTimeBlock(
   startMinute: number,
   endHour: number,
   endMinute: number,
-  siblingUid?: string,
-  tag?: string
+  options: CreateTimeBlockOptions = {}
 ): Promise<string> {
-  const pageTitle = getTodayPageTitle();
-  const pageUid = getPageUidByTitle(pageTitle);
+  const { siblingUid, parentUid, tag, date = new Date(), title, useFocusedBlock = true, timeFormat = "24h" } = options;
 
-  if (!pageUid) {
-    throw new Error(`Could not find page: ${pageTitle}`);
-  }
+  // Extended-range times (>= 24:00) go to the next day's page with real clock time
+  const placement = resolveDailyPlacement(date, startHour);
+  const pageTitle = getPageTitleForDate(placement.date);
+  const pageUid = await getOrCreateDailyPageUid(placement.date);
 
   // Format time range
-  const timeString = formatTimeRange(startHour, startMinute, endHour, endMinute);
+  const timeString = formatNewTimeRange(
+    startHour - placement.hourOffset,
+    startMinute,
+    (endHour - placement.hourOffset) % 24,
+    endMinute,
+    timeFormat
+  );
 
   // Build block text (extra space between time and tag for easier editing)
   let blockText = timeString;
-  if (tag) {
-    blockText += `  #${tag}`;
+  if (title) {
+    blockText += ` ${title}`;
+  }
+  if (tag && !tag.attribute) {
+    blockText += `  ${formatInlineTag(tag)}`;
   }
 
   const newUid = generateBlockUid();
 
+  // Fallback: Insert at end of the target daily page
+  let location: { "parent-uid": string; order: number | "last" } = { "parent-uid": pageUid, order: "last" };
+
   // Check for focused block (cursor position)
-  const focusedBlock = window.roamAlphaAPI.ui.getFocusedBlock();
+  const focusedBlock = useFocusedBlock ? window.roamAlphaAPI.ui.getFocusedBlock() : null;
   const targetSiblingUid = siblingUid || focusedBlock?.["block-uid"];
 
-  if (targetSiblingUid) {
+  if (parentUid && getBlockPageTitle(parentUid) === pageTitle) {
+    location = { "parent-uid": parentUid, order: "last" };
+  } else if (targetSiblingUid && getBlockPageTitle(targetSiblingUid) === pageTitle) {
+    // Only insert next to the sibling if it lives on the target daily page
     // Insert at current cursor position (same order as focused block, pushing it down)
     const siblingInfo = getBlockInfo(targetSiblingUid);
     if (siblingInfo) {
-      await window.roamAlphaAPI.createBlock({
-        location: {
-          "parent-uid": siblingInfo.parentUid,
-          order: siblingInfo.order,
-        },
-        block: {
-          string: blockText,
-          uid: newUid,
-        },
-      });
-      return newUid;
+      location = { "parent-uid": siblingInfo.parentUid, order: siblingInfo.order };
     }
   }
 
-  // Fallback: Insert at end of today's page
+  await window.roamAlphaAPI.createBlock({
+    location,
+    block: {
+      string: blockText,
+      uid: newUid,
+    },
+  });
+
+  if (tag?.attribute) {
+    await addBlockAttribute(newUid, tag.attribute, tag.tag);
+  }
+
+  return newUid;
+}
+
+// Append a plain block to the end of a date's daily page (creating the page if needed)
+export async function createDailyPageBlock(date: Date, text: string): Promise<string> {
+  const pageUid = await getOrCreateDailyPageUid(date);
+  const newUid = generateBlockUid();
   await window.roamAlphaAPI.createBlock({
     location: {
       "parent-uid": pageUid,
       order: "last",
     },
     block: {
-      string: blockText,
+      string: text,
       uid: newUid,
     },
   });
-
   return newUid;
 }
 
+// Write a tag onto a block that only inherits it from a parent, in its style.
+// Returns the UIDs of any attribute blocks created (empty if none).
+async function writeInheritedTag(blockUid: string, tag: TagConfig): Promise<string[]> {
+  const content = getBlockContent(blockUid);
+  if (findTagInText(content, [tag])) return [];
+
+  if (tag.attribute) {
+    if (getChildBlocks(blockUid).some((child) => isTagAttribute(child.string, tag))) return [];
+    return [await addBlockAttribute(blockUid, tag.attribute, tag.tag)];
+  }
+
+  await window.roamAlphaAPI.updateBlock({
+    block: {
+      uid: blockUid,
+      string: `${content} ${formatInlineTag(tag)}`,
+    },
+  });
+  return [];
+}
+
+// Move a block to the end of a date's daily page (no-op if it is already on that page).
+// The block leaves its parents there, so a tag it inherits is written onto it first to keep
+// its colour. Returns the UIDs of any attribute blocks created (empty if none).
+export async function moveBlockToDate(
+  blockUid: string,
+  date: Date,
+  configuredTags: TagConfig[],
+  options: BlockTextOptions
+): Promise<string[]> {
+  const pageTitle = getPageTitleForDate(date);
+  if (getBlockPageTitle(blockUid) === pageTitle) return [];
+
+  const tag = findAssociatedTag(blockUid, configuredTags, options.tagResolution);
+  const createdUids = tag ? await writeInheritedTag(blockUid, tag) : [];
+
+  const pageUid = await getOrCreateDailyPageUid(date);
+  await window.roamAlphaAPI.moveBlock({
+    location: {
+      "parent-uid": pageUid,
+      order: "last",
+    },
+    block: { uid: blockUid },
+  });
+  return createdUids;
+}
+
+// Add a Roam attribute child block ("name:: value") as the first child of a block
+export async function addBlockAttribute(blockUid: string, name: string, value: string): Promise<string> {
+  const attributeUid = generateBlockUid();
+  await window.roamAlphaAPI.createBlock({
+    location: {
+      "parent-uid": blockUid,
+      order: 0,
+    },
+    block: {
+      string: `${name}:: ${value}`,
+      uid: attributeUid,
+    },
+  });
+  return attributeUid;
+}
+
+// Record a timer session on a block: appended to its actual:: child, or in a new one.
+// Returns the UIDs of any attribute blocks created (empty if none).
+export async function recordActualTime(
+  blockUid: string,
+  startedAt: Date,
+  stoppedAt: Date,
+  timeFormat: NewBlockTimeFormat
+): Promise<string[]> {
+  const session = formatNewTimeRange(
+    startedAt.getHours(),
+    startedAt.getMinutes(),
+    stoppedAt.getHours(),
+    stoppedAt.getMinutes(),
+    timeFormat
+  );
+  const prefix = `${ACTUAL_ATTRIBUTE}::`;
+  const existing = getChildBlocks(blockUid).find((child) => child.string.toLowerCase().startsWith(prefix));
+
+  if (existing) {
+    await window.roamAlphaAPI.updateBlock({
+      block: {
+        uid: existing.uid,
+        string: `${existing.string.trimEnd()}, ${session}`,
+      },
+    });
+    return [];
+  }
+
+  return [await addBlockAttribute(blockUid, ACTUAL_ATTRIBUTE, session)];
+}
+
+// Copy a recurring occurrence to its daily page as an ordinary block, linked back to the template
+// with a recur-template:: attribute so the occurrence isn't shown again. Returns the created UIDs.
+export async function materializeOccurrence(block: TimeBlockData, timeFormat: NewBlockTimeFormat): Promise<string[]> {
+  if (!block.virtual) return [];
+
+  const { startHour, startMinute, endHour, endMinute, originalText } = block.timeRange;
+  const title = block.text.replace(originalText, "").replace(/\s+/g, " ").trim();
+  // Inherited or attribute tags (template under a tagged parent, "Category::" child) are written onto the copy
+  const tag = block.tag && !findTagInText(title, [block.tag]) ? block.tag : undefined;
+
+  const uid = await createTimeBlock(startHour, startMinute, endHour, endMinute, {
+    date: block.virtual.date,
+    title: title || undefined,
+    tag,
+    useFocusedBlock: false,
+    timeFormat,
+  });
+  await addBlockAttribute(uid, RECUR_TEMPLATE_ATTRIBUTE, block.virtual.templateUid);
+  return [uid, ...getChildBlocks(uid).map((child) => child.uid)];
+}
+
 export function navigateToBlock(blockUid: string): void {
   window.roamAlphaAPI.ui.mainWindow.openBlock({
     block: { uid: blockUid },
   });
 }
 
-// Remove all configured tags from a block (keep time)
+// Remove all configured tags from a block, inline and attribute children (keep time)
 export async function removeBlockTag(blockUid: string, configuredTags: TagConfig[]): Promise<void> {
   const content = getBlockContent(blockUid);
   if (!content) return;
 
-  // Build regex patterns for all configured tags
-  const tagPatterns = configuredTags.map((tag) => {
-    const escaped = escapeRegex(tag.tag);
-    // Match: #tag, #[[tag]], or [[tag]]
-    return `#${escaped}(?![\\w-])|#\\[\\[${escaped}\\]\\]|\\[\\[${escaped}\\]\\]`;
+  // Remove all existing configured tags
+  const newContent = stripInlineTags(content, configuredTags);
+  await removeTagAttributes(blockUid, configuredTags);
+
+  // Update the block
+  await window.roamAlphaAPI.updateBlock({
+    block: {
+      uid: blockUid,
+      string: newContent,
+    },
   });
+}
 
-  // Remove all existing configured tags
-  let newContent = content;
-  for (const pattern of tagPatterns) {
-    newContent = newContent.replace(new RegExp(pattern, "gi"), "");
+// Add a tag to a block alongside its other tags, or take it off if the block already has it.
+// Returns the UIDs of any attribute blocks created (empty if none).
+export async function toggleBlockTag(blockUid: string, tag: TagConfig): Promise<string[]> {
+  const content = getBlockContent(blockUid);
+  if (!content) return [];
+
+  const hasTag =
+    findTagInText(content, [tag]) || getChildBlocks(blockUid).some((child) => isTagAttribute(child.string, tag));
+  if (hasTag) {
+    await removeBlockTag(blockUid, [tag]);
+    return [];
   }
 
-  // Clean up extra spaces
-  newContent = newContent.replace(/\s+/g, " ").trim();
+  if (tag.attribute) {
+    return [await addBlockAttribute(blockUid, tag.attribute, tag.tag)];
+  }
 
-  // Update the block
   await window.roamAlphaAPI.updateBlock({
     block: {
       uid: blockUid,
-      string: newContent,
+      string: `${content.trimEnd()} ${formatInlineTag(tag)}`,
     },
   });
+  return [];
 }
 
 // Remove all configured tags AND time text from a block
@@ -149,28 +386,66 @@ export async function removeBlockTimeAndTag(blockUid: string, configuredTags: Ta
   const content = getBlockContent(blockUid);
   if (!content) return;
 
-  // Build regex patterns for all configured tags
-  const tagPatterns = configuredTags.map((tag) => {
-    const escaped = escapeRegex(tag.tag);
-    // Match: #tag, #[[tag]], or [[tag]]
-    return `#${escaped}(?![\\w-])|#\\[\\[${escaped}\\]\\]|\\[\\[${escaped}\\]\\]`;
-  });
+  // Remove every time the parser recognizes, in whatever form it was written
+  let newContent = content;
+  for (let range = parseTimeRange(newContent); range; range = parseTimeRange(newContent)) {
+    newContent = replaceTimeRange(newContent, range, "");
+  }
 
   // Remove all existing configured tags
-  let newContent = content;
-  for (const pattern of tagPatterns) {
-    newContent = newContent.replace(new RegExp(pattern, "gi"), "");
+  newContent = stripInlineTags(newContent, configuredTags);
+  await removeTagAttributes(blockUid, configuredTags);
+
+  // Update the block
+  await window.roamAlphaAPI.updateBlock({
+    block: {
+      uid: blockUid,
+      string: newContent,
+    },
+  });
+}
+
+// What the calendar edits as a block's title: its text without the checkbox, the time range
+// and the configured inline tags
+export function getBlockTitle(text: string, configuredTags: TagConfig[]): string {
+  const range = parseTimeRange(text);
+  const withoutTime = range ? replaceTimeRange(text, range, "") : text;
+  return stripInlineTags(stripTaskMarker(withoutTime), configuredTags);
+}
+
+// Replace a block's title (see getBlockTitle). The checkbox, time range and inline tags are kept
+// and written around it the way createTimeBlock lays a block out.
+export async function updateBlockTitle(blockUid: string, title: string, configuredTags: TagConfig[]): Promise<void> {
+  const content = getBlockContent(blockUid);
+  if (!content) return;
+
+  const status = getTaskStatus(content);
+  const range = parseTimeRange(content);
+  const tags = findInlineTags(content, configuredTags);
+
+  let newContent = [status ? getTaskMarker(status) : "", range?.originalText || "", title.trim()]
+    .filter(Boolean)
+    .join(" ");
+  if (tags.length > 0) {
+    newContent += `  ${tags.join(" ")}`;
   }
 
-  // Also remove time range patterns
-  // Match: HH:MM-HH:MM, HH:MM - HH:MM, HHMM-HHMM, etc.
-  const timeRangePattern = /\d{1,2}:\d{2}\s*[-–]\s*\d{1,2}:\d{2}|\d{4}\s*[-–]\s*\d{4}/g;
-  newContent = newContent.replace(timeRangePattern, "");
+  await window.roamAlphaAPI.updateBlock({
+    block: {
+      uid: blockUid,
+      string: newContent,
+    },
+  });
+}
 
-  // Clean up extra spaces
-  newContent = newContent.replace(/\s+/g, " ").trim();
+// Make a block an open or done task, or a plain block again (null). The checkbox goes first,
+// where Roam expects it.
+export async function setBlockTaskStatus(blockUid: string, status: TaskStatus | null): Promise<void> {
+  const content = getBlockContent(blockUid);
+  const text = stripTaskMarker(content).trimStart();
+  const newContent = status ? `${getTaskMarker(status)} ${text}` : text;
+  if (newContent === content) return;
 
-  // Update the block
   await window.roamAlphaAPI.updateBlock({
     block: {
       uid: blockUid,
@@ -179,29 +454,47 @@ export async function removeBlockTimeAndTag(blockUid: string, configuredTags: Ta
   });
 }
 
+// Delete a block with everything nested under it
+export async function deleteTimeBlock(blockUid: string): Promise<void> {
+  await window.roamAlphaAPI.deleteBlock({ block: { uid: blockUid } });
+}
+
 // Update the time range of a block
 export async function updateBlockTime(
   blockUid: string,
   newStartHour: number,
   newStartMinute: number,
   newEndHour: number,
-  newEndMinute: number
+  newEndMinute: number,
+  options: BlockTextOptions
 ): Promise<void> {
   const content = getBlockContent(blockUid);
   if (!content) return;
 
-  // Match common time range patterns:
-  // HH:MM-HH:MM, HH:MM - HH:MM, HHMM-HHMM, etc.
-  const timeRangePattern = /\d{1,2}:\d{2}\s*[-–]\s*\d{1,2}:\d{2}|\d{4}\s*[-–]\s*\d{4}/;
-
-  const newTimeRange = formatTimeRange(newStartHour, newStartMinute, newEndHour, newEndMinute);
+  const { defaultBlockMinutes, newBlockTimeFormat } = options;
+  const currentRange = parseTimeRange(content, defaultBlockMinutes);
+  const taskStatus = getTaskStatus(content);
+  const taskMarker = taskStatus ? getTaskMarker(taskStatus) : null;
 
   let newContent: string;
-  if (timeRangePattern.test(content)) {
-    // Replace existing time range
-    newContent = content.replace(timeRangePattern, newTimeRange);
+  if (currentRange) {
+    // Rewrite the existing time in the form it was written in (range, start + length, start only)
+    const newTimeRange = formatTimeRangeLike(
+      currentRange.format,
+      newStartHour,
+      newStartMinute,
+      newEndHour,
+      newEndMinute,
+      defaultBlockMinutes
+    );
+    newContent = replaceTimeRange(content, currentRange, newTimeRange);
+  } else if (taskMarker && content.startsWith(taskMarker)) {
+    // Keep the checkbox (TODO or DONE) first so Roam still treats the block as a task
+    const newTimeRange = formatNewTimeRange(newStartHour, newStartMinute, newEndHour, newEndMinute, newBlockTimeFormat);
+    newContent = `${taskMarker} ${newTimeRange} ${content.substring(taskMarker.length).trimStart()}`;
   } else {
     // Prepend time range if none exists
+    const newTimeRange = formatNewTimeRange(newStartHour, newStartMinute, newEndHour, newEndMinute, newBlockTimeFormat);
     newContent = `${newTimeRange} ${content}`;
   }
 
@@ -1,23 +1,81 @@
-import type { TimeBlockData, TagConfig } from "../types";
-import { parseTimeRange } from "./timeParser";
+import type { BlockTextOptions, TimeBlockData, TagConfig, TrackedInterval } from "../types";
+import { DEFAULT_BLOCK_TEXT_OPTIONS } from "../types";
+import { parseTimeRange, timeRangeToMinutes } from "./timeParser";
 import { createBatchTagResolver } from "./tagResolver";
-import { getBlockHierarchyData, getPageTitleForDate } from "../api/roamQueries";
+import {
+  getBlockHierarchyData,
+  getPagesHierarchyData,
+  getPageTitleForDate,
+  flattenPulledPage,
+  getTaskStatus,
+} from "../api/roamQueries";
+import type { PageBlock } from "../api/roamQueries";
+import { ACTUAL_ATTRIBUTE, RECURRING_TEMPLATES_PAGE, RECUR_TEMPLATE_ATTRIBUTE } from "../api/roamQueries";
+import { parseRecurrence, occursOn, createOccurrence } from "./recurrence";
+import type { RecurrenceRule } from "./recurrence";
 
 export function scanPageForTimeBlocks(
   pageTitle: string,
   configuredTags: TagConfig[],
   isNextDay: boolean = false,
-  dayBoundaryHour: number = 5
+  dayBoundaryHour: number = 5,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
 ): TimeBlockData[] {
   // Batch fetch all blocks and hierarchy data in one go
   const { blocks, contentMap, parentMap } = getBlockHierarchyData(pageTitle);
-  const timeBlocks: TimeBlockData[] = [];
 
   // Create batch resolver with pre-fetched data
-  const resolveTag = createBatchTagResolver(configuredTags, contentMap, parentMap);
+  const resolveTags = createBatchTagResolver(configuredTags, contentMap, parentMap, options.tagResolution);
+
+  return collectTimeBlocks(blocks, resolveTags, configuredTags, isNextDay, dayBoundaryHour, options);
+}
+
+const ACTUAL_PREFIX_REGEX = new RegExp(`^\\s*${ACTUAL_ATTRIBUTE}::`, "i");
+
+// Tracked times in an "actual:: 10:05-11:20, 13:00-13:30" attribute block, or null for other blocks
+export function parseActualTimes(
+  text: string,
+  defaultBlockMinutes: number = DEFAULT_BLOCK_TEXT_OPTIONS.defaultBlockMinutes
+): TrackedInterval[] | null {
+  if (!ACTUAL_PREFIX_REGEX.test(text)) return null;
+
+  const intervals: TrackedInterval[] = [];
+  for (const part of text.replace(ACTUAL_PREFIX_REGEX, "").split(",")) {
+    const range = parseTimeRange(part, defaultBlockMinutes);
+    if (range) intervals.push(timeRangeToMinutes(range));
+  }
+  return intervals;
+}
+
+// Turn pre-fetched page blocks into time blocks
+function collectTimeBlocks(
+  blocks: PageBlock[],
+  resolveTags: (blockUid: string) => TagConfig[],
+  configuredTags: TagConfig[],
+  isNextDay: boolean,
+  dayBoundaryHour: number,
+  options: BlockTextOptions
+): TimeBlockData[] {
+  const timeBlocks: TimeBlockData[] = [];
+
+  // Tracked times belong to the parent block; next day's are shown at +24h like its blocks
+  const actualsByParent = new Map<string, TrackedInterval[]>();
+  const actualBlockUids = new Set<string>();
+  for (const block of blocks) {
+    const intervals = parseActualTimes(block.string, options.defaultBlockMinutes);
+    if (!intervals) continue;
+    actualBlockUids.add(block.uid);
+    const offset = isNextDay ? 24 * 60 : 0;
+    const existing = actualsByParent.get(block.parentUid) || [];
+    existing.push(...intervals.map(({ start, end }) => ({ start: start + offset, end: end + offset })));
+    actualsByParent.set(block.parentUid, existing);
+  }
 
   for (const block of blocks) {
-    const timeRange = parseTimeRange(block.string);
+    // "actual:: 10:05-11:20" records time spent on its parent; it isn't a block of its own
+    if (actualBlockUids.has(block.uid)) continue;
+
+    const timeRange = parseTimeRange(block.string, options.defaultBlockMinutes);
 
     if (timeRange) {
       // For next day's page, only include blocks before the day boundary (early morning)
@@ -26,7 +84,8 @@ export function scanPageForTimeBlocks(
       }
 
       // Use batch resolver - no API calls, just map lookups
-      const tag = resolveTag(block.uid);
+      const tags = resolveTags(block.uid);
+      const tag = tags[0] || null;
 
       // Only include if a matching tag was found (or if no tags are configured)
       if (tag || configuredTags.length === 0) {
@@ -44,8 +103,11 @@ export function scanPageForTimeBlocks(
           text: block.string,
           timeRange: adjustedTimeRange,
           tag,
+          tags,
           parentUid: block.parentUid,
           order: block.order,
+          actuals: actualsByParent.get(block.uid),
+          taskStatus: getTaskStatus(block.string) || undefined,
         });
       }
     }
@@ -54,68 +116,269 @@ export function scanPageForTimeBlocks(
   return timeBlocks;
 }
 
+function sortByStartTime(blocks: TimeBlockData[]): TimeBlockData[] {
+  return blocks.sort((a, b) => {
+    const aMinutes = a.timeRange.startHour * 60 + a.timeRange.startMinute;
+    const bMinutes = b.timeRange.startHour * 60 + b.timeRange.startMinute;
+    return aMinutes - bMinutes;
+  });
+}
+
 // Scan for time blocks on a specific date (with next day boundary support)
 export function scanDateForTimeBlocks(
   targetDate: Date,
   configuredTags: TagConfig[],
-  dayBoundaryHour: number = 5
+  dayBoundaryHour: number = 5,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
 ): TimeBlockData[] {
-  const targetTitle = getPageTitleForDate(targetDate);
-
-  // Get next day's date
-  const nextDay = new Date(targetDate);
-  nextDay.setDate(nextDay.getDate() + 1);
-  const nextDayTitle = getPageTitleForDate(nextDay);
-
-  // Scan target date's page
-  const targetBlocks = scanPageForTimeBlocks(targetTitle, configuredTags, false, dayBoundaryHour);
-
-  // Scan next day's page for early morning blocks (before day boundary)
-  const nextDayBlocks = scanPageForTimeBlocks(nextDayTitle, configuredTags, true, dayBoundaryHour);
-
-  // Combine and sort by adjusted time
-  const allBlocks = [...targetBlocks, ...nextDayBlocks];
+  const rangeBlocks = scanDateRangeForTimeBlocks(targetDate, targetDate, configuredTags, dayBoundaryHour, true, options);
+  return rangeBlocks.get(getPageTitleForDate(targetDate)) || [];
+}
 
-  return allBlocks.sort((a, b) => {
-    const aMinutes = a.timeRange.startHour * 60 + a.timeRange.startMinute;
-    const bMinutes = b.timeRange.startHour * 60 + b.timeRange.startMinute;
-    return aMinutes - bMinutes;
-  });
+// Every timed block on a date, tagged or not, for finding free time (untagged blocks aren't shown but are still busy)
+export function scanDateForBusyBlocks(
+  targetDate: Date,
+  dayBoundaryHour: number = 5,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
+): TimeBlockData[] {
+  return scanDateForTimeBlocks(targetDate, [], dayBoundaryHour, options);
 }
 
 // Legacy function for backward compatibility - scans today's blocks
 export function scanTodayForTimeBlocks(
   configuredTags: TagConfig[],
-  dayBoundaryHour: number = 5
+  dayBoundaryHour: number = 5,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
 ): TimeBlockData[] {
-  return scanDateForTimeBlocks(new Date(), configuredTags, dayBoundaryHour);
+  return scanDateForTimeBlocks(new Date(), configuredTags, dayBoundaryHour, options);
+}
+
+// Template UIDs already materialized on a page (blocks with a recur-template:: attribute child)
+function getMaterializedTemplateUids(blocks: PageBlock[]): Set<string> {
+  const prefix = `${RECUR_TEMPLATE_ATTRIBUTE}::`;
+  const templateUids = new Set<string>();
+  for (const block of blocks) {
+    if (block.string.startsWith(prefix)) {
+      templateUids.add(block.string.substring(prefix.length).trim());
+    }
+  }
+  return templateUids;
+}
+
+// Scan for time blocks for every day in a date range (inclusive), keyed by page title.
+// All pages are fetched together (see getPagesHierarchyData) and share one tag resolver.
+// With includeNextDay, each day also gets the next day's early blocks (before the day boundary)
+// at +24h, like the day view; multi-day views leave it off so each day shows only its own blocks.
+// Recurring templates add virtual occurrences on matching days that don't have a materialized copy.
+export function scanDateRangeForTimeBlocks(
+  startDate: Date,
+  endDate: Date,
+  configuredTags: TagConfig[],
+  dayBoundaryHour: number = 5,
+  includeNextDay: boolean = false,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
+): Map<string, TimeBlockData[]> {
+  const rangeBlocks = new Map<string, TimeBlockData[]>();
+  const dates = getDatesInRange(startDate, endDate);
+  if (dates.length === 0) return rangeBlocks;
+
+  const titles = dates.map(getPageTitleForDate);
+  const fetchTitles = [...titles];
+  if (includeNextDay) {
+    // One extra day for the last day's early-morning blocks
+    const nextDay = new Date(dates[dates.length - 1]);
+    nextDay.setDate(nextDay.getDate() + 1);
+    fetchTitles.push(getPageTitleForDate(nextDay));
+  }
+
+  const { blocksByPage, contentMap, parentMap } = getPagesHierarchyData([...fetchTitles, RECURRING_TEMPLATES_PAGE]);
+  const resolveTags = createBatchTagResolver(configuredTags, contentMap, parentMap, options.tagResolution);
+
+  const templates: Array<{ block: TimeBlockData; rule: RecurrenceRule }> = [];
+  for (const block of collectTimeBlocks(
+    blocksByPage.get(RECURRING_TEMPLATES_PAGE) || [],
+    resolveTags,
+    configuredTags,
+    false,
+    dayBoundaryHour,
+    options
+  )) {
+    const rule = parseRecurrence(block.text);
+    if (rule) templates.push({ block, rule });
+  }
+
+  // Templates that occur on a page's date and haven't been materialized there yet
+  const getPendingTemplates = (date: Date, pageTitle: string) => {
+    if (templates.length === 0) return [];
+    const materialized = getMaterializedTemplateUids(blocksByPage.get(pageTitle) || []);
+    return templates.filter(({ block, rule }) => occursOn(rule, date) && !materialized.has(block.uid));
+  };
+
+  titles.forEach((title, i) => {
+    const dayBlocks = collectTimeBlocks(
+      blocksByPage.get(title) || [],
+      resolveTags,
+      configuredTags,
+      false,
+      dayBoundaryHour,
+      options
+    );
+    for (const { block, rule } of getPendingTemplates(dates[i], title)) {
+      dayBlocks.push(createOccurrence(block, rule, dates[i]));
+    }
+
+    if (includeNextDay) {
+      const nextDayTitle = fetchTitles[i + 1];
+      dayBlocks.push(
+        ...collectTimeBlocks(
+          blocksByPage.get(nextDayTitle) || [],
+          resolveTags,
+          configuredTags,
+          true,
+          dayBoundaryHour,
+          options
+        )
+      );
+
+      // Next day's early occurrences, shown at +24h like its real blocks
+      const nextDay = new Date(dates[i]);
+      nextDay.setDate(nextDay.getDate() + 1);
+      for (const { block, rule } of getPendingTemplates(nextDay, nextDayTitle)) {
+        const occurrence = createOccurrence(block, rule, nextDay);
+        if (occurrence.timeRange.startHour >= dayBoundaryHour) continue;
+        dayBlocks.push({
+          ...occurrence,
+          timeRange: {
+            ...occurrence.timeRange,
+            startHour: occurrence.timeRange.startHour + 24,
+            endHour: occurrence.timeRange.endHour + 24,
+          },
+          virtual: { templateUid: block.uid, date: dates[i] },
+        });
+      }
+    }
+    rangeBlocks.set(title, sortByStartTime(dayBlocks));
+  });
+
+  return rangeBlocks;
 }
 
 // Scan for time blocks for a whole week
 export function scanWeekForTimeBlocks(
   weekStartDate: Date,
   configuredTags: TagConfig[],
-  dayBoundaryHour: number = 5
+  dayBoundaryHour: number = 5,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
 ): Map<string, TimeBlockData[]> {
-  const weekBlocks = new Map<string, TimeBlockData[]>();
+  const weekEndDate = new Date(weekStartDate);
+  weekEndDate.setDate(weekEndDate.getDate() + 6);
+  return scanDateRangeForTimeBlocks(weekStartDate, weekEndDate, configuredTags, dayBoundaryHour, false, options);
+}
 
-  for (let i = 0; i < 7; i++) {
-    const date = new Date(weekStartDate);
-    date.setDate(date.getDate() + i);
-    const pageTitle = getPageTitleForDate(date);
+export interface TimeBlockChanges {
+  updated: TimeBlockData[]; // new or changed time blocks
+  removedUids: string[]; // blocks that are no longer time blocks (deleted, time or tag removed)
+}
 
-    // For week view, we don't include next-day blocks to avoid confusion
-    // Each day column shows only that day's blocks
-    const dayBlocks = scanPageForTimeBlocks(pageTitle, configuredTags, false, dayBoundaryHour);
+// Work out which time blocks changed from a page watch's before/after pulls, without rescanning.
+// Descendants of changed blocks are re-resolved too, since they may inherit the changed tag.
+export function diffWatchedPage(
+  before: unknown,
+  after: unknown,
+  configuredTags: TagConfig[],
+  isNextDay: boolean = false,
+  dayBoundaryHour: number = 5,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
+): TimeBlockChanges {
+  const beforeBlocks = flattenPulledPage(before);
+  const afterBlocks = flattenPulledPage(after);
 
-    weekBlocks.set(pageTitle, dayBlocks.sort((a, b) => {
-      const aMinutes = a.timeRange.startHour * 60 + a.timeRange.startMinute;
-      const bMinutes = b.timeRange.startHour * 60 + b.timeRange.startMinute;
-      return aMinutes - bMinutes;
-    }));
+  const changedUids = new Set<string>();
+  for (const [uid, block] of afterBlocks) {
+    const previous = beforeBlocks.get(uid);
+    if (
+      !previous ||
+      previous.string !== block.string ||
+      previous.parentUid !== block.parentUid ||
+      previous.order !== block.order
+    ) {
+      changedUids.add(uid);
+    }
+  }
+  for (const uid of beforeBlocks.keys()) {
+    if (!afterBlocks.has(uid)) changedUids.add(uid);
+  }
+  if (changedUids.size === 0) return { updated: [], removedUids: [] };
+
+  // Attribute-style tags ("Category:: tag") and tracked times ("actual:: 10:05-11:20") belong to
+  // the parent, so a changed attribute child changes its parent
+  const hasAttributeTags = configuredTags.some((tag) => tag.attribute);
+  for (const uid of [...changedUids]) {
+    const after = afterBlocks.get(uid);
+    const before = beforeBlocks.get(uid);
+    const isActual = [after, before].some((block) => block && parseActualTimes(block.string));
+    if (!hasAttributeTags && !isActual) continue;
+    for (const parentUid of [after?.parentUid, before?.parentUid]) {
+      if (parentUid && afterBlocks.has(parentUid)) changedUids.add(parentUid);
+    }
   }
 
-  return weekBlocks;
+  // Add descendants of changed blocks (children listed by parent)
+  const childrenMap = new Map<string, string[]>();
+  for (const block of afterBlocks.values()) {
+    const siblings = childrenMap.get(block.parentUid) || [];
+    siblings.push(block.uid);
+    childrenMap.set(block.parentUid, siblings);
+  }
+  const pending = [...changedUids];
+  while (pending.length > 0) {
+    for (const childUid of childrenMap.get(pending.pop()!) || []) {
+      if (!changedUids.has(childUid)) {
+        changedUids.add(childUid);
+        pending.push(childUid);
+      }
+    }
+  }
+
+  const contentMap = new Map<string, string>();
+  const parentMap = new Map<string, string>();
+  for (const block of afterBlocks.values()) {
+    contentMap.set(block.uid, block.string);
+    parentMap.set(block.uid, block.parentUid);
+  }
+  const resolveTags = createBatchTagResolver(configuredTags, contentMap, parentMap, options.tagResolution);
+
+  const changedBlocks = [...changedUids].map((uid) => afterBlocks.get(uid)).filter((block): block is PageBlock => !!block);
+  const updated = collectTimeBlocks(changedBlocks, resolveTags, configuredTags, isNextDay, dayBoundaryHour, options);
+  const updatedUids = new Set(updated.map((block) => block.uid));
+
+  return {
+    updated,
+    removedUids: [...changedUids].filter((uid) => !updatedUids.has(uid)),
+  };
+}
+
+// Apply changes from diffWatchedPage to a day's blocks (returns the same array if nothing changed)
+export function applyTimeBlockChanges(blocks: TimeBlockData[], changes: TimeBlockChanges): TimeBlockData[] {
+  const affectedUids = new Set([...changes.removedUids, ...changes.updated.map((block) => block.uid)]);
+  if (!blocks.some((block) => affectedUids.has(block.uid)) && changes.updated.length === 0) {
+    return blocks;
+  }
+  return sortByStartTime([...blocks.filter((block) => !affectedUids.has(block.uid)), ...changes.updated]);
+}
+
+// List every date from start to end (inclusive, ignoring time of day)
+export function getDatesInRange(startDate: Date, endDate: Date): Date[] {
+  const dates: Date[] = [];
+  const current = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const last = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+
+  while (current <= last) {
+    dates.push(new Date(current));
+    current.setDate(current.getDate() + 1);
+  }
+
+  return dates;
 }
 
 // Get the start of week for a given date
@@ -136,3 +399,19 @@ export function getWeekStartDate(date: Date, weekStartDay: 0 | 1 = 1): Date {
   d.setDate(d.getDate() - diff);
   return d;
 }
+
+// Whole weeks from the week containing the 1st to the week containing the last day of the month
+export function getMonthGridDates(date: Date, weekStartDay: 0 | 1 = 1): Date[] {
+  const first = new Date(date.getFullYear(), date.getMonth(), 1);
+  const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+
+  const current = new Date(first);
+  current.setDate(current.getDate() - ((first.getDay() - weekStartDay + 7) % 7));
+
+  const dates: Date[] = [];
+  while (current <= last || dates.length % 7 !== 0) {
+    dates.push(new Date(current));
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+}
@@ -0,0 +1,144 @@
+/**
+ * Conflict detection - overlapping (double-booked) blocks within a day, and ways to resolve them
+ * Resolutions return the new times as BlockTimeChange[]; nothing is written here.
+ */
+import type { BlockTimeChange, TimeBlockData } from "../types";
+import { snapToGrid, timeRangeToMinutes } from "./timeParser";
+
+export interface BlockConflict {
+  earlier: TimeBlockData; // starts first (longer one first on equal starts)
+  later: TimeBlockData;
+  overlapMinutes: number;
+}
+
+// Recurring occurrences aren't real blocks yet, so they can't conflict or be moved
+function getRealBlocks(blocks: TimeBlockData[]): TimeBlockData[] {
+  return blocks
+    .filter((block) => !block.virtual)
+    .sort((a, b) => {
+      const aRange = timeRangeToMinutes(a.timeRange);
+      const bRange = timeRangeToMinutes(b.timeRange);
+      if (aRange.start !== bRange.start) return aRange.start - bRange.start;
+      return bRange.end - aRange.end;
+    });
+}
+
+function toChange(uid: string, start: number, end: number): BlockTimeChange {
+  return {
+    uid,
+    startHour: Math.floor(start / 60),
+    startMinute: start % 60,
+    endHour: Math.floor(end / 60),
+    endMinute: end % 60,
+  };
+}
+
+// Every pair of overlapping blocks (touching blocks don't overlap, like calculateBlockLayouts)
+export function detectConflicts(blocks: TimeBlockData[]): BlockConflict[] {
+  const sorted = getRealBlocks(blocks);
+  const conflicts: BlockConflict[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const earlier = timeRangeToMinutes(sorted[i].timeRange);
+    for (let j = i + 1; j < sorted.length; j++) {
+      const later = timeRangeToMinutes(sorted[j].timeRange);
+      // Sorted by start - nothing further can overlap
+      if (later.start >= earlier.end) break;
+      conflicts.push({
+        earlier: sorted[i],
+        later: sorted[j],
+        overlapMinutes: Math.min(earlier.end, later.end) - later.start,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+export function getConflictingUids(conflicts: BlockConflict[]): Set<string> {
+  const uids = new Set<string>();
+  for (const { earlier, later } of conflicts) {
+    uids.add(earlier.uid);
+    uids.add(later.uid);
+  }
+  return uids;
+}
+
+// Move the later block to start when the earlier one ends, pushing down every following
+// block it then runs into (durations are kept). Empty if a pushed block would end after dayEndHour.
+export function pushLaterBlocksDown(
+  blocks: TimeBlockData[],
+  conflict: BlockConflict,
+  dayEndHour: number
+): BlockTimeChange[] {
+  const changes: BlockTimeChange[] = [];
+  let cursor = timeRangeToMinutes(conflict.earlier.timeRange).end;
+  const laterStart = timeRangeToMinutes(conflict.later.timeRange).start;
+
+  const following = getRealBlocks(blocks).filter(
+    (block) =>
+      block.uid !== conflict.earlier.uid &&
+      (block.uid === conflict.later.uid || timeRangeToMinutes(block.timeRange).start >= laterStart)
+  );
+
+  for (const block of following) {
+    const { start, end } = timeRangeToMinutes(block.timeRange);
+    // The chain has room again - later blocks are unaffected
+    if (start >= cursor) break;
+    const newEnd = cursor + (end - start);
+    if (newEnd > dayEndHour * 60) return [];
+    changes.push(toChange(block.uid, cursor, newEnd));
+    cursor = newEnd;
+  }
+
+  return changes;
+}
+
+// End the earlier block when the later one starts (not possible if both start together)
+export function shrinkEarlierBlock(conflict: BlockConflict): BlockTimeChange[] {
+  const earlier = timeRangeToMinutes(conflict.earlier.timeRange);
+  const laterStart = timeRangeToMinutes(conflict.later.timeRange).start;
+  if (laterStart <= earlier.start) return [];
+  return [toChange(conflict.earlier.uid, earlier.start, laterStart)];
+}
+
+// Earliest start at or after `from`, aligned to the grid, where `duration` minutes fit between
+// the blocks within dayStartHour-dayEndHour. Null if there is no room left in the day.
+export function findNextFreeSlot(
+  blocks: TimeBlockData[],
+  from: number,
+  duration: number,
+  dayStartHour: number,
+  dayEndHour: number,
+  granularity: number
+): number | null {
+  const taken = getRealBlocks(blocks).map((block) => timeRangeToMinutes(block.timeRange));
+
+  const dayEnd = dayEndHour * 60;
+  let candidate = Math.max(dayStartHour * 60, snapToGrid(from, granularity));
+  if (candidate < from) candidate += granularity;
+
+  while (candidate + duration <= dayEnd) {
+    const blocking = taken.find((other) => other.start < candidate + duration && candidate < other.end);
+    if (!blocking) return candidate;
+    // Jump past the block in the way, staying on the grid
+    candidate = Math.ceil(blocking.end / granularity) * granularity;
+  }
+
+  return null;
+}
+
+// Earliest free slot of the same length at or after the block's start, aligned to the grid,
+// within dayStartHour-dayEndHour. Empty if there is no room left in the day.
+export function moveToNextFreeSlot(
+  blocks: TimeBlockData[],
+  block: TimeBlockData,
+  dayStartHour: number,
+  dayEndHour: number,
+  granularity: number
+): BlockTimeChange[] {
+  const { start, end } = timeRangeToMinutes(block.timeRange);
+  const others = blocks.filter((other) => other.uid !== block.uid);
+  const slot = findNextFreeSlot(others, start, end - start, dayStartHour, dayEndHour, granularity);
+  return slot === null || slot === start ? [] : [toChange(block.uid, slot, slot + end - start)];
+}
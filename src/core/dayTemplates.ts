@@ -0,0 +1,113 @@
+/**
+ * Named day templates - capture a day's layout and apply it to another date
+ */
+import type { DayTemplate, DayTemplateBlock, NewBlockTimeFormat, TagConfig, TimeBlockData } from "../types";
+import { getChildBlocks } from "../api/roamQueries";
+import { createDailyPageBlock, createTimeBlock } from "./blockCreator";
+import { findTagInText } from "./tagResolver";
+
+export interface TemplateOverlap {
+  block: DayTemplateBlock; // already shifted
+  conflicts: TimeBlockData[];
+}
+
+// Capture a day's blocks (recurring occurrences excluded) as a template
+export function captureDayTemplate(name: string, blocks: TimeBlockData[]): DayTemplate {
+  return {
+    name,
+    blocks: blocks
+      .filter((block) => !block.virtual)
+      .map((block) => {
+        const { startHour, startMinute, endHour, endMinute, originalText } = block.timeRange;
+        const title = block.text.replace(originalText, "").replace(/\s+/g, " ").trim();
+        return {
+          title,
+          startHour,
+          startMinute,
+          endHour,
+          endMinute,
+          tag: block.tag && !findTagInText(title, [block.tag]) ? block.tag.tag : null,
+        };
+      }),
+  };
+}
+
+// Move a template block by offsetMinutes, clamped to the day (00:00 to 24:00 of the next day)
+export function shiftTemplateBlock(block: DayTemplateBlock, offsetMinutes: number): DayTemplateBlock {
+  const duration = block.endHour * 60 + block.endMinute - (block.startHour * 60 + block.startMinute);
+  const start = Math.min(Math.max(0, block.startHour * 60 + block.startMinute + offsetMinutes), 48 * 60 - duration);
+  const end = start + duration;
+
+  return {
+    ...block,
+    startHour: Math.floor(start / 60),
+    startMinute: start % 60,
+    endHour: Math.floor(end / 60),
+    endMinute: end % 60,
+  };
+}
+
+// Template blocks (after shifting) that overlap blocks already on the target date
+export function findTemplateOverlaps(
+  template: DayTemplate,
+  offsetMinutes: number,
+  existingBlocks: TimeBlockData[]
+): TemplateOverlap[] {
+  const overlaps: TemplateOverlap[] = [];
+
+  for (const templateBlock of template.blocks) {
+    const block = shiftTemplateBlock(templateBlock, offsetMinutes);
+    const start = block.startHour * 60 + block.startMinute;
+    const end = block.endHour * 60 + block.endMinute;
+
+    const conflicts = existingBlocks.filter((existing) => {
+      const existingStart = existing.timeRange.startHour * 60 + existing.timeRange.startMinute;
+      const existingEnd = existing.timeRange.endHour * 60 + existing.timeRange.endMinute;
+      return existingStart < end && start < existingEnd;
+    });
+    if (conflicts.length > 0) {
+      overlaps.push({ block, conflicts });
+    }
+  }
+
+  return overlaps;
+}
+
+function findConfiguredTag(tag: string, configuredTags: TagConfig[]): TagConfig {
+  return (
+    configuredTags.find((config) => config.tag.toLowerCase() === tag.toLowerCase()) || {
+      tag,
+      color: "",
+      isPageRef: false,
+    }
+  );
+}
+
+// Create the template's blocks under a "Template: name" parent block on the date's daily page.
+// Blocks in the extended range (>= 24:00) go to the next day's page. Tags are written in their
+// configured style (a tag that is no longer configured as a hashtag). Returns the created UIDs.
+export async function applyDayTemplate(
+  template: DayTemplate,
+  date: Date,
+  configuredTags: TagConfig[],
+  offsetMinutes: number = 0,
+  timeFormat: NewBlockTimeFormat = "24h"
+): Promise<string[]> {
+  const parentUid = await createDailyPageBlock(date, `Template: ${template.name}`);
+  const createdUids = [parentUid];
+
+  for (const templateBlock of template.blocks) {
+    const block = shiftTemplateBlock(templateBlock, offsetMinutes);
+    const uid = await createTimeBlock(block.startHour, block.startMinute, block.endHour, block.endMinute, {
+      date,
+      parentUid,
+      title: block.title || undefined,
+      tag: block.tag ? findConfiguredTag(block.tag, configuredTags) : undefined,
+      useFocusedBlock: false,
+      timeFormat,
+    });
+    createdUids.push(uid, ...getChildBlocks(uid).map((child) => child.uid));
+  }
+
+  return createdUids;
+}
@@ -0,0 +1,134 @@
+/**
+ * Undo/redo history for calendar edits
+ * Each entry records the affected blocks before and after one user action,
+ * so multi-block operations undo as a single step.
+ */
+import { getBlockContent, getBlockInfo } from "../api/roamQueries";
+
+// State of a single block at one point in time (exists = false for blocks not yet created)
+export interface BlockSnapshot {
+  uid: string;
+  exists: boolean;
+  string: string;
+  parentUid: string;
+  order: number;
+}
+
+export interface HistoryEntry {
+  before: BlockSnapshot[];
+  after: BlockSnapshot[];
+}
+
+export interface EditHistory {
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+}
+
+// Maximum number of undo steps kept per sidebar session
+const MAX_HISTORY_SIZE = 50;
+
+export function createEditHistory(): EditHistory {
+  return { undoStack: [], redoStack: [] };
+}
+
+export function captureBlockSnapshot(uid: string): BlockSnapshot {
+  const info = getBlockInfo(uid);
+  if (!info) {
+    return { uid, exists: false, string: "", parentUid: "", order: 0 };
+  }
+  return { uid, exists: true, string: getBlockContent(uid), ...info };
+}
+
+// Write a snapshot back to Roam: create, delete, move and/or update the block as needed
+export async function restoreBlockSnapshot(snapshot: BlockSnapshot): Promise<void> {
+  const current = captureBlockSnapshot(snapshot.uid);
+
+  if (!snapshot.exists) {
+    if (current.exists) {
+      await window.roamAlphaAPI.deleteBlock({ block: { uid: snapshot.uid } });
+    }
+    return;
+  }
+
+  if (!current.exists) {
+    await window.roamAlphaAPI.createBlock({
+      location: { "parent-uid": snapshot.parentUid, order: snapshot.order },
+      block: { string: snapshot.string, uid: snapshot.uid },
+    });
+    return;
+  }
+
+  if (current.parentUid !== snapshot.parentUid || current.order !== snapshot.order) {
+    await window.roamAlphaAPI.moveBlock({
+      location: { "parent-uid": snapshot.parentUid, order: snapshot.order },
+      block: { uid: snapshot.uid },
+    });
+  }
+
+  if (current.string !== snapshot.string) {
+    await window.roamAlphaAPI.updateBlock({
+      block: { uid: snapshot.uid, string: snapshot.string },
+    });
+  }
+}
+
+// Run an edit and record it as one history entry.
+// `uids` are the blocks the edit touches; `edit` may return UIDs of blocks it created.
+export async function recordEdit(
+  history: EditHistory,
+  uids: string[],
+  edit: () => Promise<string[] | void>
+): Promise<void> {
+  const before = uids.map(captureBlockSnapshot);
+
+  try {
+    const createdUids = (await edit()) || [];
+    for (const uid of createdUids) {
+      before.push({ uid, exists: false, string: "", parentUid: "", order: 0 });
+    }
+  } finally {
+    // Record even partially applied edits so they can still be undone
+    const after = before.map((snapshot) => captureBlockSnapshot(snapshot.uid));
+    const changed = after.some((snapshot, i) => !isSameSnapshot(snapshot, before[i]));
+
+    if (changed) {
+      history.undoStack.push({ before, after });
+      if (history.undoStack.length > MAX_HISTORY_SIZE) {
+        history.undoStack.shift();
+      }
+      history.redoStack = [];
+    }
+  }
+}
+
+export async function undoEdit(history: EditHistory): Promise<boolean> {
+  const entry = history.undoStack.pop();
+  if (!entry) return false;
+
+  // Restore in reverse order so sibling orders are rebuilt consistently
+  for (const snapshot of [...entry.before].reverse()) {
+    await restoreBlockSnapshot(snapshot);
+  }
+  history.redoStack.push(entry);
+  return true;
+}
+
+export async function redoEdit(history: EditHistory): Promise<boolean> {
+  const entry = history.redoStack.pop();
+  if (!entry) return false;
+
+  for (const snapshot of entry.after) {
+    await restoreBlockSnapshot(snapshot);
+  }
+  history.undoStack.push(entry);
+  return true;
+}
+
+function isSameSnapshot(a: BlockSnapshot, b: BlockSnapshot): boolean {
+  return (
+    a.exists === b.exists &&
+    a.string === b.string &&
+    a.parentUid === b.parentUid &&
+    a.order === b.order
+  );
+}
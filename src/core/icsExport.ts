@@ -0,0 +1,129 @@
+/**
+ * iCalendar (RFC 5545) export of time blocks
+ */
+import type { TimeBlockData } from "../types";
+import { downloadTextFile, escapeRegex } from "./utils";
+import { stripTaskMarker } from "../api/roamQueries";
+
+export interface IcsEventSource {
+  date: Date; // the day the block's times are relative to (hours >= 24 spill into the next day)
+  block: TimeBlockData;
+}
+
+const PRODUCT_ID = "-//roam-timeblock//TimeBlock Export//EN";
+const UID_DOMAIN = "roam-timeblock";
+const MAX_LINE_OCTETS = 75;
+
+function pad(n: number, length: number = 2): string {
+  return n.toString().padStart(length, "0");
+}
+
+// Floating local date-time: 20240105T093000
+function formatLocalDateTime(date: Date): string {
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}00`
+  );
+}
+
+// UTC date-time: 20240105T093000Z
+function formatUtcDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setMinutes(minutes);
+  return result;
+}
+
+// Stable event UID derived from the Roam block uid, so re-exports update instead of duplicating
+export function blockUidToEventUid(blockUid: string): string {
+  return `${blockUid}@${UID_DOMAIN}`;
+}
+
+// Block text without the time range, the TODO/DONE checkbox and its own tag (exported as CATEGORIES),
+// used as the event title
+export function getEventSummary(block: TimeBlockData): string {
+  let text = stripTaskMarker(block.text.replace(block.timeRange.originalText, ""));
+  if (block.tag) {
+    const escaped = escapeRegex(block.tag.tag);
+    text = text.replace(new RegExp(`#${escaped}(?![\\w-])|#\\[\\[${escaped}\\]\\]|\\[\\[${escaped}\\]\\]`, "gi"), "");
+  }
+  text = text.replace(/\s+/g, " ").trim();
+  return text || block.tag?.tag || "Time block";
+}
+
+function buildEvent({ date, block }: IcsEventSource, stamp: string): string[] {
+  const { startHour, startMinute, endHour, endMinute } = block.timeRange;
+  const start = addMinutes(date, startHour * 60 + startMinute);
+  const end = addMinutes(date, endHour * 60 + endMinute);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${blockUidToEventUid(block.uid)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatLocalDateTime(start)}`,
+    `DTEND:${formatLocalDateTime(end)}`,
+    `SUMMARY:${escapeIcsText(getEventSummary(block))}`,
+  ];
+  if (block.tag) {
+    lines.push(`CATEGORIES:${escapeIcsText(block.tag.tag)}`);
+  }
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+export function generateIcs(events: IcsEventSource[], now: Date = new Date()): string {
+  const stamp = formatUtcDateTime(now);
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN"];
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, stamp));
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function downloadIcs(fileName: string, events: IcsEventSource[]): void {
+  downloadTextFile(fileName, generateIcs(events), "text/calendar;charset=utf-8");
+}
@@ -0,0 +1,500 @@
+/**
+ * iCalendar (RFC 5545) import: parsing, recurrence expansion and import preview
+ */
+import type { BlockTextOptions, TagConfig, TimeBlockData } from "../types";
+import { DEFAULT_BLOCK_TEXT_OPTIONS } from "../types";
+import { scanDateRangeForTimeBlocks } from "./blockScanner";
+import { getPageTitleForDate, getImportedEventKeys } from "../api/roamQueries";
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  categories: string[];
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  rrule: RecurrenceRule | null;
+  exdates: number[]; // timestamps of excluded occurrence starts
+  recurrenceId: number | null; // set on overrides of a single recurring occurrence
+}
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: Date | null;
+  byDay: Array<{ weekday: number; ordinal: number | null }>; // weekday 0 = Sunday
+  byMonthDay: number[];
+  weekStart: number; // WKST: first day of the week (default Monday)
+}
+
+export interface IcsOccurrence {
+  key: string; // stable import key: event UID, plus the date for recurring occurrences
+  summary: string;
+  categories: string[];
+  date: Date; // the daily page the block goes to
+  startHour: number;
+  startMinute: number;
+  endHour: number; // may be < startHour for occurrences that wrap past midnight
+  endMinute: number;
+}
+
+export interface IcsExpansion {
+  occurrences: IcsOccurrence[];
+  truncatedEvents: string[]; // summaries of recurring events cut off at the expansion limit
+}
+
+export interface ImportPreviewItem {
+  occurrence: IcsOccurrence;
+  tag: TagConfig | null;
+  isDuplicate: boolean;
+  conflicts: TimeBlockData[];
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Safety limit for recurrence expansion
+const MAX_RECURRENCE_ITERATIONS = 20000;
+
+// ==================== Parsing ====================
+
+// Unfold continuation lines (RFC 5545 section 3.1)
+function unfoldLines(content: string): string[] {
+  return content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter((line) => line.length > 0);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// Split "NAME;PARAM=VALUE:content" into its parts (colons inside quoted params are ignored)
+function parseContentLine(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.substring(0, colonIndex).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.substring(colonIndex + 1) };
+}
+
+// Offset of a time zone from UTC at a given instant, in minutes
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    parts[part.type] = parseInt(part.value, 10);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return (asUtc - timestamp) / 60000;
+}
+
+// Parse DATE / DATE-TIME values (floating, UTC or with TZID) into a local Date
+function parseIcsDate(value: string, params: Record<string, string>): { date: Date; allDay: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const year = parseInt(y, 10);
+  const month = parseInt(mo, 10) - 1;
+  const day = parseInt(d, 10);
+
+  if (h === undefined) {
+    return { date: new Date(year, month, day), allDay: true };
+  }
+
+  const hour = parseInt(h, 10);
+  const minute = parseInt(mi, 10);
+  const second = s ? parseInt(s, 10) : 0;
+
+  if (utc) {
+    return { date: new Date(Date.UTC(year, month, day, hour, minute, second)), allDay: false };
+  }
+
+  if (params.TZID) {
+    try {
+      const wallClock = Date.UTC(year, month, day, hour, minute, second);
+      const offset = getTimeZoneOffset(wallClock, params.TZID);
+      let timestamp = wallClock - offset * 60000;
+      // Re-check the offset at the resulting instant (DST transitions)
+      const correctedOffset = getTimeZoneOffset(timestamp, params.TZID);
+      if (correctedOffset !== offset) {
+        timestamp = wallClock - correctedOffset * 60000;
+      }
+      return { date: new Date(timestamp), allDay: false };
+    } catch {
+      // Unknown time zone name (e.g. Windows zone ids) - treat as floating time
+    }
+  }
+
+  // Floating time: interpreted in the local time zone
+  return { date: new Date(year, month, day, hour, minute, second), allDay: false };
+}
+
+// Parse an ISO 8601 duration (P1DT2H30M, PT45M, P1W) to minutes
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m] = match;
+  const minutes =
+    (parseInt(w || "0", 10) * 7 + parseInt(d || "0", 10)) * 1440 + parseInt(h || "0", 10) * 60 + parseInt(m || "0", 10);
+  return sign === "-" ? -minutes : minutes;
+}
+
+function parseRecurrenceRule(value: string, params: Record<string, string>): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, val] = part.split("=");
+    if (key && val) parts[key.toUpperCase()] = val;
+  }
+
+  const freq = parts.FREQ as RecurrenceRule["freq"];
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+
+  const byDay = (parts.BYDAY || "")
+    .split(",")
+    .filter((day) => day.length > 0)
+    .map((day) => {
+      const dayMatch = day.match(/^([+-]?\d+)?([A-Z]{2})$/);
+      if (!dayMatch) return null;
+      return {
+        weekday: WEEKDAYS.indexOf(dayMatch[2]),
+        ordinal: dayMatch[1] ? parseInt(dayMatch[1], 10) : null,
+      };
+    })
+    .filter((day): day is { weekday: number; ordinal: number | null } => day !== null && day.weekday !== -1);
+
+  // A date-only UNTIL includes that whole day
+  const until = parts.UNTIL ? parseIcsDate(parts.UNTIL, params) : null;
+  if (until?.allDay) {
+    until.date.setHours(23, 59, 59);
+  }
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : null,
+    until: until?.date ?? null,
+    byDay,
+    byMonthDay: (parts.BYMONTHDAY || "")
+      .split(",")
+      .map((day) => parseInt(day, 10))
+      .filter((day) => !isNaN(day)),
+    weekStart: WEEKDAYS.includes(parts.WKST) ? WEEKDAYS.indexOf(parts.WKST) : 1,
+  };
+}
+
+export function parseIcs(content: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> & { durationMinutes?: number } | null = null;
+  let depth = 0; // nesting inside VEVENT (e.g. VALARM)
+
+  for (const line of unfoldLines(content)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    const { name, params, value } = parsed;
+
+    if (name === "BEGIN") {
+      if (value.toUpperCase() === "VEVENT" && !current) {
+        current = { categories: [], exdates: [], rrule: null, recurrenceId: null, summary: "" };
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (name === "END") {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && value.toUpperCase() === "VEVENT") {
+        if (current.uid && current.start) {
+          let end = current.end;
+          if (!end) {
+            const fallback = current.allDay ? 1440 : 0;
+            end = new Date(current.start.getTime() + (current.durationMinutes ?? fallback) * 60000);
+          }
+          events.push({ ...(current as IcsEvent), end });
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current || depth > 0) continue;
+
+    switch (name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(value).replace(/\s+/g, " ").trim();
+        break;
+      case "CATEGORIES":
+        current.categories!.push(
+          ...value
+            .split(/(?<!\\),/)
+            .map((category) => unescapeText(category).trim())
+            .filter((category) => category.length > 0)
+        );
+        break;
+      case "DTSTART": {
+        const start = parseIcsDate(value, params);
+        if (start) {
+          current.start = start.date;
+          current.allDay = start.allDay;
+        }
+        break;
+      }
+      case "DTEND": {
+        const end = parseIcsDate(value, params);
+        if (end) current.end = end.date;
+        break;
+      }
+      case "DURATION": {
+        const minutes = parseDuration(value);
+        if (minutes !== null) current.durationMinutes = minutes;
+        break;
+      }
+      case "RRULE":
+        current.rrule = parseRecurrenceRule(value, params);
+        break;
+      case "EXDATE":
+        for (const exdate of value.split(",")) {
+          const parsedDate = parseIcsDate(exdate, params);
+          if (parsedDate) current.exdates!.push(parsedDate.date.getTime());
+        }
+        break;
+      case "RECURRENCE-ID": {
+        const recurrenceId = parseIcsDate(value, params);
+        if (recurrenceId) current.recurrenceId = recurrenceId.date.getTime();
+        break;
+      }
+    }
+  }
+
+  return events;
+}
+
+// ==================== Recurrence expansion ====================
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function withDate(time: Date, year: number, month: number, day: number): Date | null {
+  const result = new Date(time);
+  result.setFullYear(year, month, day);
+  // Reject invalid days (e.g. Feb 30 rolls over into March)
+  return result.getMonth() === ((month % 12) + 12) % 12 ? result : null;
+}
+
+// Days of a month matching BYDAY entries like MO, 2TU or -1FR
+function getMonthDaysByWeekday(year: number, month: number, byDay: RecurrenceRule["byDay"]): number[] {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const days: number[] = [];
+
+  for (const { weekday, ordinal } of byDay) {
+    const matching: number[] = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+      if (new Date(year, month, day).getDay() === weekday) matching.push(day);
+    }
+    if (ordinal === null) {
+      days.push(...matching);
+    } else {
+      const index = ordinal > 0 ? ordinal - 1 : matching.length + ordinal;
+      if (matching[index] !== undefined) days.push(matching[index]);
+    }
+  }
+
+  return days.sort((a, b) => a - b);
+}
+
+// Candidate starts produced by one recurrence period (one day, week, month or year)
+function getPeriodStarts(start: Date, rule: RecurrenceRule, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [addDays(start, step)];
+    case "WEEKLY": {
+      if (rule.byDay.length === 0) return [addDays(start, step * 7)];
+      // Weeks begin on WKST, which decides the week a day belongs to when INTERVAL > 1
+      const daysFromWeekStart = (weekday: number) => (weekday - rule.weekStart + 7) % 7;
+      const weekStart = addDays(start, step * 7 - daysFromWeekStart(start.getDay()));
+      return rule.byDay
+        .map(({ weekday }) => addDays(weekStart, daysFromWeekStart(weekday)))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case "MONTHLY": {
+      const year = start.getFullYear();
+      const month = start.getMonth() + step;
+      const firstOfMonth = new Date(year, month, 1);
+      let days: number[];
+      if (rule.byMonthDay.length > 0) {
+        const daysInMonth = new Date(firstOfMonth.getFullYear(), firstOfMonth.getMonth() + 1, 0).getDate();
+        days = rule.byMonthDay.map((day) => (day > 0 ? day : daysInMonth + day + 1)).sort((a, b) => a - b);
+      } else if (rule.byDay.length > 0) {
+        days = getMonthDaysByWeekday(firstOfMonth.getFullYear(), firstOfMonth.getMonth(), rule.byDay);
+      } else {
+        days = [start.getDate()];
+      }
+      return days
+        .map((day) => withDate(start, firstOfMonth.getFullYear(), firstOfMonth.getMonth(), day))
+        .filter((date): date is Date => date !== null);
+    }
+    case "YEARLY": {
+      const date = withDate(start, start.getFullYear() + step, start.getMonth(), start.getDate());
+      return date ? [date] : [];
+    }
+  }
+}
+
+// All occurrence starts of an event that begin before rangeEnd. `truncated` is set when the
+// expansion stopped at MAX_RECURRENCE_ITERATIONS before reaching rangeEnd.
+function expandEventStarts(event: IcsEvent, rangeEnd: Date): { starts: Date[]; truncated: boolean } {
+  if (!event.rrule) return { starts: [event.start], truncated: false };
+
+  const rule = event.rrule;
+  const starts: Date[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_RECURRENCE_ITERATIONS; period++) {
+    const candidates = getPeriodStarts(event.start, rule, period);
+    if (candidates.length > 0 && candidates[0] > rangeEnd) return { starts, truncated: false };
+
+    for (const candidate of candidates) {
+      // Occurrences before DTSTART don't count (RFC 5545: DTSTART is the first instance)
+      if (candidate < event.start) continue;
+      if (rule.until && candidate > rule.until) return { starts, truncated: false };
+      if (rule.count !== null && emitted >= rule.count) return { starts, truncated: false };
+      emitted++;
+      if (candidate <= rangeEnd) starts.push(candidate);
+    }
+  }
+
+  return { starts, truncated: true };
+}
+
+function formatKeyDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+// Expand events (including recurring ones) to timed occurrences starting within the date range.
+// All-day events and events longer than a day can't be shown as time blocks and are skipped.
+export function expandIcsEvents(events: IcsEvent[], rangeStart: Date, rangeEnd: Date): IcsExpansion {
+  const start = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate());
+  const end = new Date(rangeEnd.getFullYear(), rangeEnd.getMonth(), rangeEnd.getDate(), 23, 59, 59);
+
+  // Overrides of single recurring occurrences, keyed by "uid|original start"
+  const overrides = new Map<string, IcsEvent>();
+  for (const event of events) {
+    if (event.recurrenceId !== null) overrides.set(`${event.uid}|${event.recurrenceId}`, event);
+  }
+
+  const occurrences: IcsOccurrence[] = [];
+  const truncatedEvents: string[] = [];
+
+  for (const event of events) {
+    if (event.recurrenceId !== null || event.allDay) continue;
+    const durationMs = event.end.getTime() - event.start.getTime();
+
+    const { starts, truncated } = expandEventStarts(event, end);
+    if (truncated) truncatedEvents.push(event.summary);
+
+    for (const occurrenceStart of starts) {
+      if (event.exdates.includes(occurrenceStart.getTime())) continue;
+
+      const override = overrides.get(`${event.uid}|${occurrenceStart.getTime()}`);
+      const source = override ?? event;
+      const actualStart = override ? override.start : occurrenceStart;
+      const actualEnd = override ? override.end : new Date(occurrenceStart.getTime() + durationMs);
+
+      if (actualStart < start || actualStart > end) continue;
+      const minutes = (actualEnd.getTime() - actualStart.getTime()) / 60000;
+      if (minutes <= 0 || minutes >= 1440 || source.allDay) continue;
+
+      occurrences.push({
+        key: event.rrule ? `${event.uid}/${formatKeyDate(occurrenceStart)}` : event.uid,
+        summary: source.summary,
+        categories: source.categories,
+        date: new Date(actualStart.getFullYear(), actualStart.getMonth(), actualStart.getDate()),
+        startHour: actualStart.getHours(),
+        startMinute: actualStart.getMinutes(),
+        endHour: actualEnd.getHours(),
+        endMinute: actualEnd.getMinutes(),
+      });
+    }
+  }
+
+  occurrences.sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.startHour * 60 + a.startMinute - (b.startHour * 60 + b.startMinute)
+  );
+  return { occurrences, truncatedEvents };
+}
+
+// ==================== Preview ====================
+
+// First event category that matches a configured tag (case-insensitive)
+export function mapCategoriesToTag(categories: string[], configuredTags: TagConfig[]): TagConfig | null {
+  for (const category of categories) {
+    const normalized = category.replace(/^#/, "").toLowerCase();
+    const match = configuredTags.find((config) => config.tag.toLowerCase() === normalized);
+    if (match) return match;
+  }
+  return null;
+}
+
+// Match each occurrence against the graph: already imported (same UID) or overlapping existing blocks
+export function buildImportPreview(
+  occurrences: IcsOccurrence[],
+  configuredTags: TagConfig[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: BlockTextOptions = DEFAULT_BLOCK_TEXT_OPTIONS
+): ImportPreviewItem[] {
+  const importedKeys = getImportedEventKeys();
+  const blocksByTitle = scanDateRangeForTimeBlocks(rangeStart, rangeEnd, configuredTags, undefined, false, options);
+
+  return occurrences.map((occurrence) => {
+    const start = occurrence.startHour * 60 + occurrence.startMinute;
+    let end = occurrence.endHour * 60 + occurrence.endMinute;
+    if (end <= start) end += 1440;
+
+    const existing = blocksByTitle.get(getPageTitleForDate(occurrence.date)) || [];
+    const conflicts = existing.filter((block) => {
+      const blockStart = block.timeRange.startHour * 60 + block.timeRange.startMinute;
+      const blockEnd = block.timeRange.endHour * 60 + block.timeRange.endMinute;
+      return blockStart < end && start < blockEnd;
+    });
+
+    return {
+      occurrence,
+      tag: mapCategoriesToTag(occurrence.categories, configuredTags),
+      isDuplicate: importedKeys.has(occurrence.key),
+      conflicts,
+    };
+  });
+}
@@ -0,0 +1,190 @@
+/**
+ * Key bindings - parse, match and display the keys bound to the day view's commands
+ * Bindings are strings like "Shift+ArrowUp", "Alt+ArrowDown", "n" or "?", with the modifiers
+ * in Ctrl, Alt, Shift, Meta order. Single characters are stored in lower case.
+ */
+import type { KeyBindings, KeyCommand } from "../types";
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveEarlier: "ArrowUp",
+  moveLater: "ArrowDown",
+  endEarlier: "Shift+ArrowUp",
+  endLater: "Shift+ArrowDown",
+  startEarlier: "Alt+ArrowUp",
+  startLater: "Alt+ArrowDown",
+  selectNext: "Tab",
+  selectPrevious: "Shift+Tab",
+  removeBlock: "Delete",
+  openBlock: "Enter",
+  newBlock: "n",
+  showHelp: "?",
+};
+
+// Every command with its description, in the order the help overlay and settings list them
+export const KEY_COMMANDS: { command: KeyCommand; label: string }[] = [
+  { command: "moveEarlier", label: "Move selected blocks earlier" },
+  { command: "moveLater", label: "Move selected blocks later" },
+  { command: "endEarlier", label: "End selected blocks earlier" },
+  { command: "endLater", label: "End selected blocks later" },
+  { command: "startEarlier", label: "Start selected blocks earlier" },
+  { command: "startLater", label: "Start selected blocks later" },
+  { command: "selectNext", label: "Select the next block" },
+  { command: "selectPrevious", label: "Select the previous block" },
+  { command: "removeBlock", label: "Remove time and tag from selected blocks" },
+  { command: "openBlock", label: "Open the selected block" },
+  { command: "newBlock", label: "New block in the next free slot" },
+  { command: "showHelp", label: "Show keyboard shortcuts" },
+];
+
+// The keys a binding is made of, as found on a KeyboardEvent
+export interface KeyPress {
+  key: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+const MODIFIERS = ["Ctrl", "Alt", "Shift", "Meta"] as const;
+type Modifier = (typeof MODIFIERS)[number];
+
+// Named keys a binding can use (KeyboardEvent.key values), plus a few common spellings
+const NAMED_KEYS = [
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Tab",
+  "Enter",
+  "Delete",
+  "Backspace",
+  "Escape",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+  "Space",
+];
+const KEY_ALIASES: Record<string, string> = {
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+  del: "Delete",
+  esc: "Escape",
+  return: "Enter",
+  " ": "Space",
+};
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: "Ctrl",
+  control: "Ctrl",
+  alt: "Alt",
+  option: "Alt",
+  shift: "Shift",
+  meta: "Meta",
+  cmd: "Meta",
+  command: "Meta",
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Delete: "Del",
+  Backspace: "⌫",
+  Escape: "Esc",
+};
+
+interface ParsedBinding {
+  key: string; // named key or single lower-case character
+  modifiers: Set<Modifier>;
+}
+
+function normalizeKey(key: string): string | null {
+  const alias = KEY_ALIASES[key.toLowerCase()] || KEY_ALIASES[key];
+  if (alias) return alias;
+  const named = NAMED_KEYS.find((name) => name.toLowerCase() === key.toLowerCase());
+  if (named) return named;
+  return [...key].length === 1 ? key.toLowerCase() : null;
+}
+
+function parseBinding(text: string): ParsedBinding | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  // The last part is the key; "Shift++" binds the plus key
+  const parts = trimmed.endsWith("+") ? [...trimmed.slice(0, -1).split("+").slice(0, -1), "+"] : trimmed.split("+");
+  const key = normalizeKey(parts[parts.length - 1].trim());
+  if (!key) return null;
+
+  const modifiers = new Set<Modifier>();
+  for (const part of parts.slice(0, -1)) {
+    const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+  return { key, modifiers };
+}
+
+function formatBinding({ key, modifiers }: ParsedBinding): string {
+  return [...MODIFIERS.filter((modifier) => modifiers.has(modifier)), key].join("+");
+}
+
+// A character typed with Shift ("?", "!") already says Shift was held, so it isn't matched
+function shiftIsImplied(key: string): boolean {
+  return key.length === 1 && key.toLowerCase() === key.toUpperCase();
+}
+
+// Canonical spelling of a binding ("shift+up" -> "Shift+ArrowUp"), or null if it isn't valid
+export function normalizeKeyBinding(text: string): string | null {
+  const binding = parseBinding(text);
+  return binding ? formatBinding(binding) : null;
+}
+
+export function matchesKeyBinding(binding: string, press: KeyPress): boolean {
+  const parsed = parseBinding(binding);
+  const key = normalizeKey(press.key);
+  if (!parsed || !key || parsed.key !== key) return false;
+
+  return (
+    parsed.modifiers.has("Ctrl") === press.ctrlKey &&
+    parsed.modifiers.has("Alt") === press.altKey &&
+    parsed.modifiers.has("Meta") === press.metaKey &&
+    (shiftIsImplied(key) || parsed.modifiers.has("Shift") === press.shiftKey)
+  );
+}
+
+// Command bound to a key press; the first command in KEY_COMMANDS wins if two share a key
+export function findKeyCommand(bindings: KeyBindings, press: KeyPress): KeyCommand | null {
+  const match = KEY_COMMANDS.find(({ command }) => matchesKeyBinding(bindings[command], press));
+  return match ? match.command : null;
+}
+
+// Index (0-8) of the colour whose tag a plain 1-9 key applies, or null
+export function getTagKeyIndex(press: KeyPress): number | null {
+  if (press.ctrlKey || press.altKey || press.metaKey || !/^[1-9]$/.test(press.key)) return null;
+  return parseInt(press.key, 10) - 1;
+}
+
+// Binding for a key pressed in the settings editor, or null while only modifiers are held
+export function bindingFromKeyPress(press: KeyPress): string | null {
+  if (["Control", "Alt", "Shift", "Meta"].includes(press.key)) return null;
+  const key = normalizeKey(press.key);
+  if (!key) return null;
+
+  const modifiers = new Set<Modifier>();
+  if (press.ctrlKey) modifiers.add("Ctrl");
+  if (press.altKey) modifiers.add("Alt");
+  if (press.shiftKey && !shiftIsImplied(key)) modifiers.add("Shift");
+  if (press.metaKey) modifiers.add("Meta");
+  return formatBinding({ key, modifiers });
+}
+
+// "Shift+ArrowUp" -> "Shift+↑", for display
+export function formatKeyBinding(binding: string): string {
+  const parsed = parseBinding(binding);
+  if (!parsed) return binding;
+  const key = KEY_SYMBOLS[parsed.key] || parsed.key;
+  return [...MODIFIERS.filter((modifier) => parsed.modifiers.has(modifier)), key].join("+");
+}
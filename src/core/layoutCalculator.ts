@@ -1,4 +1,7 @@
 import type { TimeBlockData } from "../types";
+import { crossesMidnight } from "./timeParser";
+
+const MINUTES_PER_DAY = 24 * 60;
 
 // Calculate column layout for overlapping blocks - optimized O(n log n) algorithm
 export interface BlockLayout {
@@ -7,18 +10,83 @@ export interface BlockLayout {
   totalColumns: number;
 }
 
+type SweepEvent = { time: number; type: "start" | "end"; uid: string };
+
+function getBlockInterval(block: TimeBlockData): { start: number; end: number } {
+  return {
+    start: block.timeRange.startHour * 60 + block.timeRange.startMinute,
+    end: block.timeRange.endHour * 60 + block.timeRange.endMinute,
+  };
+}
+
+// Sort by start time, then by duration (longer first)
+function sortBlocksByStart(blocks: TimeBlockData[]): TimeBlockData[] {
+  return [...blocks].sort((a, b) => {
+    const aInterval = getBlockInterval(a);
+    const bInterval = getBlockInterval(b);
+    if (aInterval.start !== bInterval.start) return aInterval.start - bInterval.start;
+    return bInterval.end - aInterval.end;
+  });
+}
+
+// Sort events: by time, then ends before starts (touching blocks don't overlap)
+function sortSweepEvents<T extends SweepEvent>(events: T[]): T[] {
+  return events.sort((a, b) => {
+    if (a.time !== b.time) return a.time - b.time;
+    if (a.type === b.type) return 0;
+    // Process ends before starts at same time
+    return a.type === "end" ? -1 : 1;
+  });
+}
+
+// Minutes of each block within [clipStart, clipEnd], with overlapping time shared equally
+// between the blocks that overlap, so the shares add up to the covered time without double-counting
+export function calculateBlockShares(
+  blocks: TimeBlockData[],
+  clipStart: number = -Infinity,
+  clipEnd: number = Infinity
+): Map<string, number> {
+  const shares = new Map<string, number>();
+  const events: SweepEvent[] = [];
+
+  for (const block of blocks) {
+    const { start, end } = getBlockInterval(block);
+    const clippedStart = Math.max(start, clipStart);
+    const clippedEnd = Math.min(end, clipEnd);
+    shares.set(block.uid, 0);
+    if (clippedEnd <= clippedStart) continue;
+
+    events.push({ time: clippedStart, type: "start", uid: block.uid });
+    events.push({ time: clippedEnd, type: "end", uid: block.uid });
+  }
+
+  const activeBlocks = new Set<string>();
+  let previousTime = 0;
+
+  for (const event of sortSweepEvents(events)) {
+    // Share the segment since the previous event among all blocks active in it
+    if (activeBlocks.size > 0 && event.time > previousTime) {
+      const share = (event.time - previousTime) / activeBlocks.size;
+      for (const uid of activeBlocks) {
+        shares.set(uid, (shares.get(uid) || 0) + share);
+      }
+    }
+    previousTime = event.time;
+
+    if (event.type === "start") {
+      activeBlocks.add(event.uid);
+    } else {
+      activeBlocks.delete(event.uid);
+    }
+  }
+
+  return shares;
+}
+
 export function calculateBlockLayouts(blocks: TimeBlockData[]): BlockLayout[] {
   if (blocks.length === 0) return [];
 
-  // Sort by start time, then by duration (longer first)
-  const sorted = [...blocks].sort((a, b) => {
-    const aStart = a.timeRange.startHour * 60 + a.timeRange.startMinute;
-    const bStart = b.timeRange.startHour * 60 + b.timeRange.startMinute;
-    if (aStart !== bStart) return aStart - bStart;
-    const aEnd = a.timeRange.endHour * 60 + a.timeRange.endMinute;
-    const bEnd = b.timeRange.endHour * 60 + b.timeRange.endMinute;
-    return bEnd - aEnd;
-  });
+  const sorted = sortBlocksByStart(blocks);
 
   // First pass: Assign columns using greedy algorithm
   // columns[i] = end time of the block currently occupying column i
@@ -26,8 +94,7 @@ export function calculateBlockLayouts(blocks: TimeBlockData[]): BlockLayout[] {
   const blockColumns: Map<string, number> = new Map();
 
   for (const block of sorted) {
-    const start = block.timeRange.startHour * 60 + block.timeRange.startMinute;
-    const end = block.timeRange.endHour * 60 + block.timeRange.endMinute;
+    const { start, end } = getBlockInterval(block);
 
     // Find first available column (where previous block has ended)
     let column = -1;
@@ -50,24 +117,18 @@ export function calculateBlockLayouts(blocks: TimeBlockData[]): BlockLayout[] {
 
   // Second pass: Find overlap groups using sweep line
   // Instead of O(n²) pairwise comparison, we use events
-  type Event = { time: number; type: "start" | "end"; uid: string; column: number };
+  type Event = SweepEvent & { column: number };
   const events: Event[] = [];
 
   for (const block of sorted) {
-    const start = block.timeRange.startHour * 60 + block.timeRange.startMinute;
-    const end = block.timeRange.endHour * 60 + block.timeRange.endMinute;
+    const { start, end } = getBlockInterval(block);
     const column = blockColumns.get(block.uid)!;
 
     events.push({ time: start, type: "start", uid: block.uid, column });
     events.push({ time: end, type: "end", uid: block.uid, column });
   }
 
-  // Sort events: by time, then ends before starts (to handle touching blocks correctly)
-  events.sort((a, b) => {
-    if (a.time !== b.time) return a.time - b.time;
-    // Process ends before starts at same time
-    return a.type === "end" ? -1 : 1;
-  });
+  sortSweepEvents(events);
 
   // Sweep through events to compute max overlapping columns for each block
   const activeBlocks = new Set<string>();
@@ -117,3 +178,60 @@ export function calculateBlockLayouts(blocks: TimeBlockData[]): BlockLayout[] {
 
   return result;
 }
+
+// Week columns with overnight blocks split for display
+export interface WeekColumnBlocks {
+  days: TimeBlockData[][];
+  continuations: Set<TimeBlockData>; // after-midnight parts shown at the top of the next column
+}
+
+// Copy of a block covering only part of its range
+function sliceBlock(block: TimeBlockData, start: number, end: number): TimeBlockData {
+  return {
+    ...block,
+    timeRange: {
+      ...block.timeRange,
+      startHour: Math.floor(start / 60),
+      startMinute: start % 60,
+      endHour: Math.floor(end / 60),
+      endMinute: end % 60,
+    },
+  };
+}
+
+// Fit overnight blocks into week columns showing startHour-endHour (endHour may be past 24).
+// A block runs on in its own column up to the end of the grid; the rest continues at the top of
+// the next column, but only when that column starts at 0:00 - otherwise there is nowhere to show it.
+export function splitOvernightBlocks(
+  blocksByDay: TimeBlockData[][],
+  startHour: number,
+  endHour: number
+): WeekColumnBlocks {
+  const gridStart = startHour * 60;
+  const gridEnd = (endHour <= startHour ? endHour + 24 : endHour) * 60;
+  const days: TimeBlockData[][] = blocksByDay.map(() => []);
+  const continuations = new Set<TimeBlockData>();
+
+  blocksByDay.forEach((blocks, dayIndex) => {
+    for (const block of blocks) {
+      if (!crossesMidnight(block.timeRange)) {
+        days[dayIndex].push(block);
+        continue;
+      }
+
+      const { start, end } = getBlockInterval(block);
+      const shownEnd = Math.max(start, Math.min(end, gridEnd));
+      days[dayIndex].push(shownEnd === end ? block : sliceBlock(block, start, shownEnd));
+
+      const restStart = Math.max(shownEnd, MINUTES_PER_DAY) - MINUTES_PER_DAY;
+      const restEnd = Math.min(end - MINUTES_PER_DAY, gridEnd);
+      if (gridStart === 0 && restStart < restEnd && dayIndex + 1 < blocksByDay.length) {
+        const continuation = sliceBlock(block, restStart, restEnd);
+        continuations.add(continuation);
+        days[dayIndex + 1].push(continuation);
+      }
+    }
+  });
+
+  return { days, continuations };
+}
@@ -0,0 +1,82 @@
+/**
+ * Recurrence syntax for template blocks on the templates page
+ * Supports `{{recur: weekdays}}`, `{{recur: Mon,Wed}}`, `every day`, `every weekday`, `every Mon,Wed` ...
+ */
+import type { TimeBlockData } from "../types";
+import { formatIsoDate } from "./utils";
+
+export interface RecurrenceRule {
+  weekdays: Set<number>; // 0 = Sunday ... 6 = Saturday
+  originalText: string;
+}
+
+const DAY_PREFIXES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_NAME = "(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*";
+const DAY_LIST = `(?:day|daily|weekdays?|weekends?|${DAY_NAME}(?:\\s*,\\s*${DAY_NAME})*)`;
+
+// {{recur: weekdays}} or {{[[recur]]: Mon, Wed}}
+const RECUR_COMPONENT_REGEX = /\{\{\s*(?:\[\[)?recur(?:\]\])?\s*:\s*([^}]*)\}\}/i;
+// every Mon,Wed / every weekday / every day
+const EVERY_REGEX = new RegExp(`\\bevery\\s+(${DAY_LIST})(?![\\w-])`, "i");
+
+// Turn "weekdays", "Mon, Wed", "daily" ... into weekday numbers (null if anything is unrecognized)
+function parseDayList(list: string): Set<number> | null {
+  const weekdays = new Set<number>();
+  const tokens = list
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter((token) => token.length > 0);
+  if (tokens.length === 0) return null;
+
+  for (const token of tokens) {
+    if (token === "day" || token === "daily") {
+      [0, 1, 2, 3, 4, 5, 6].forEach((day) => weekdays.add(day));
+    } else if (token === "weekday" || token === "weekdays") {
+      [1, 2, 3, 4, 5].forEach((day) => weekdays.add(day));
+    } else if (token === "weekend" || token === "weekends") {
+      [0, 6].forEach((day) => weekdays.add(day));
+    } else {
+      const day = DAY_PREFIXES.indexOf(token.substring(0, 3));
+      if (day === -1) return null;
+      weekdays.add(day);
+    }
+  }
+
+  return weekdays;
+}
+
+export function parseRecurrence(text: string): RecurrenceRule | null {
+  const componentMatch = text.match(RECUR_COMPONENT_REGEX);
+  if (componentMatch) {
+    const weekdays = parseDayList(componentMatch[1]);
+    return weekdays ? { weekdays, originalText: componentMatch[0] } : null;
+  }
+
+  const everyMatch = text.match(EVERY_REGEX);
+  if (everyMatch) {
+    const weekdays = parseDayList(everyMatch[1]);
+    return weekdays ? { weekdays, originalText: everyMatch[0] } : null;
+  }
+
+  return null;
+}
+
+export function occursOn(rule: RecurrenceRule, date: Date): boolean {
+  return rule.weekdays.has(date.getDay());
+}
+
+// Block text without the recurrence syntax, for occurrences and materialized copies
+export function stripRecurrence(text: string, rule: RecurrenceRule): string {
+  return text.replace(rule.originalText, "").replace(/\s+/g, " ").trim();
+}
+
+// Virtual occurrence of a template block on a date (times relative to that date)
+export function createOccurrence(template: TimeBlockData, rule: RecurrenceRule, date: Date): TimeBlockData {
+  return {
+    ...template,
+    uid: `${template.uid}@${formatIsoDate(date)}`,
+    text: stripRecurrence(template.text, rule),
+    virtual: { templateUid: template.uid, date },
+    actuals: undefined,
+  };
+}
@@ -1,5 +1,6 @@
-import type { TagConfig } from "../types";
-import { getBlockContent, getParentBlockUid } from "../api/roamQueries";
+import type { TagConfig, TagResolutionMode } from "../types";
+import { DEFAULT_BLOCK_TEXT_OPTIONS } from "../types";
+import { getBlockContent, getChildBlocks, getParentBlockUid } from "../api/roamQueries";
 import { escapeRegex } from "./utils";
 
 // Maximum depth to traverse parent hierarchy (prevent performance issues with deeply nested structures)
@@ -12,35 +13,47 @@ function createTagMatcher(config: TagConfig): RegExp {
   return new RegExp(`(#${escaped}(?![\\w-])|#\\[\\[${escaped}\\]\\]|\\[\\[${escaped}\\]\\])`, "i");
 }
 
+// Match an attribute child holding the tag: "Category:: Deep Work", "Category:: [[Deep Work]], Focus"
+function createAttributeMatcher(config: TagConfig): RegExp | null {
+  if (!config.attribute) return null;
+  const escaped = escapeRegex(config.tag);
+  return new RegExp(
+    `^\\s*${escapeRegex(config.attribute)}::\\s*(?:[^,]*,\\s*)*(?:#\\[\\[|\\[\\[|#)?${escaped}(?:\\]\\])?\\s*(?:,.*)?$`,
+    "i"
+  );
+}
+
+// Whether a block is an attribute ("Category:: tag") holding the tag
+export function isTagAttribute(text: string, config: TagConfig): boolean {
+  return createAttributeMatcher(config)?.test(text) ?? false;
+}
+
+type TagMatcher = { config: TagConfig; regex: RegExp; attributeRegex: RegExp | null };
+
 // Build tag matchers once for reuse
-function buildTagMatchers(configuredTags: TagConfig[]): Array<{ config: TagConfig; regex: RegExp }> {
+function buildTagMatchers(configuredTags: TagConfig[]): TagMatcher[] {
   return configuredTags.map((config) => ({
     config,
     regex: createTagMatcher(config),
+    attributeRegex: createAttributeMatcher(config),
   }));
 }
 
-// Check if text contains any configured tag
-function findTagInTextWithMatchers(
-  text: string,
-  matchers: Array<{ config: TagConfig; regex: RegExp }>
-): TagConfig | null {
-  for (const { config, regex } of matchers) {
-    if (regex.test(text)) {
-      return config;
-    }
-  }
-  return null;
-}
-
-// Optimized batch tag resolution using pre-fetched data
-export function findAssociatedTagBatch(
+// Walk from the block up its parents and collect every configured tag found, primary first.
+// A block has a tag when its text contains it, or for attribute-style tags when one of its
+// children is the attribute. Tags rank by their settings order (priority); in "ownFirst" mode
+// nearer blocks rank first, so the block's own tags beat inherited ones.
+function collectChainTags(
   blockUid: string,
-  matchers: Array<{ config: TagConfig; regex: RegExp }>,
-  contentMap: Map<string, string>,
-  parentMap: Map<string, string>
-): TagConfig | null {
-  if (matchers.length === 0) return null;
+  matchers: TagMatcher[],
+  getContent: (uid: string) => string | undefined,
+  getParent: (uid: string) => string | null,
+  getChildContents: (uid: string) => string[],
+  mode: TagResolutionMode
+): TagConfig[] {
+  const checksChildren = matchers.some((matcher) => matcher.attributeRegex);
+  const found: Array<{ config: TagConfig; priority: number; depth: number }> = [];
+  const seenTags = new Set<string>();
 
   let currentUid: string | null = blockUid;
   const visited = new Set<string>(); // Prevent infinite loops
@@ -50,55 +63,93 @@ export function findAssociatedTagBatch(
     visited.add(currentUid);
     depth++;
 
-    // Use cached content
-    const content = contentMap.get(currentUid);
-    if (content) {
-      const tag = findTagInTextWithMatchers(content, matchers);
-      if (tag) return tag;
-    }
-
-    // Use cached parent relationship
-    currentUid = parentMap.get(currentUid) || null;
+    const content = getContent(currentUid) || "";
+    const childContents = checksChildren ? getChildContents(currentUid) : [];
+    matchers.forEach(({ config, regex, attributeRegex }, priority) => {
+      const key = config.tag.toLowerCase();
+      if (seenTags.has(key)) return;
+      if (regex.test(content) || (attributeRegex && childContents.some((child) => attributeRegex.test(child)))) {
+        seenTags.add(key);
+        found.push({ config, priority, depth });
+      }
+    });
+
+    currentUid = getParent(currentUid);
   }
 
-  return null;
+  return found
+    .sort((a, b) =>
+      mode === "ownFirst" && a.depth !== b.depth ? a.depth - b.depth : a.priority - b.priority
+    )
+    .map(({ config }) => config);
 }
 
-// Create a batch resolver for multiple blocks
+// Optimized batch tag resolution using pre-fetched data
+export function findAssociatedTagsBatch(
+  blockUid: string,
+  matchers: TagMatcher[],
+  contentMap: Map<string, string>,
+  parentMap: Map<string, string>,
+  childrenMap?: Map<string, string[]>, // needed for attribute-style tags
+  mode: TagResolutionMode = DEFAULT_BLOCK_TEXT_OPTIONS.tagResolution
+): TagConfig[] {
+  if (matchers.length === 0) return [];
+
+  return collectChainTags(
+    blockUid,
+    matchers,
+    (uid) => contentMap.get(uid),
+    (uid) => parentMap.get(uid) || null,
+    (uid) => (childrenMap?.get(uid) || []).map((childUid) => contentMap.get(childUid) || ""),
+    mode
+  );
+}
+
+// Create a batch resolver for multiple blocks (returns the block's tags, primary first)
 export function createBatchTagResolver(
   configuredTags: TagConfig[],
   contentMap: Map<string, string>,
-  parentMap: Map<string, string>
-): (blockUid: string) => TagConfig | null {
+  parentMap: Map<string, string>,
+  mode: TagResolutionMode = DEFAULT_BLOCK_TEXT_OPTIONS.tagResolution
+): (blockUid: string) => TagConfig[] {
   const matchers = buildTagMatchers(configuredTags);
 
+  // Children listed by parent, for attribute-style tags
+  let childrenMap: Map<string, string[]> | undefined;
+  if (matchers.some((matcher) => matcher.attributeRegex)) {
+    childrenMap = new Map();
+    for (const [childUid, parentUid] of parentMap) {
+      const siblings = childrenMap.get(parentUid) || [];
+      siblings.push(childUid);
+      childrenMap.set(parentUid, siblings);
+    }
+  }
+
   return (blockUid: string) => {
-    return findAssociatedTagBatch(blockUid, matchers, contentMap, parentMap);
+    return findAssociatedTagsBatch(blockUid, matchers, contentMap, parentMap, childrenMap, mode);
   };
 }
 
 // Legacy function - still works but less efficient (kept for backward compatibility)
-export function findAssociatedTag(blockUid: string, configuredTags: TagConfig[]): TagConfig | null {
+export function findAssociatedTag(
+  blockUid: string,
+  configuredTags: TagConfig[],
+  mode: TagResolutionMode = DEFAULT_BLOCK_TEXT_OPTIONS.tagResolution
+): TagConfig | null {
   if (configuredTags.length === 0) return null;
 
-  const tagMatchers = buildTagMatchers(configuredTags);
-  let currentUid: string | null = blockUid;
-  let depth = 0;
-
-  while (currentUid && depth < MAX_PARENT_DEPTH) {
-    depth++;
-    const content = getBlockContent(currentUid);
-
-    const tag = findTagInTextWithMatchers(content, tagMatchers);
-    if (tag) return tag;
-
-    // Move to parent block
-    currentUid = getParentBlockUid(currentUid);
-  }
-
-  return null;
+  const tags = collectChainTags(
+    blockUid,
+    buildTagMatchers(configuredTags),
+    getBlockContent,
+    getParentBlockUid,
+    (uid) => getChildBlocks(uid).map((child) => child.string),
+    mode
+  );
+  return tags[0] || null;
 }
 
+// Highest-priority configured tag in the text
 export function findTagInText(text: string, configuredTags: TagConfig[]): TagConfig | null {
   if (configuredTags.length === 0) return null;
 
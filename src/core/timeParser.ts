@@ -1,41 +1,93 @@
-import type { ParsedTimeRange } from "../types";
-
-// Regex patterns for different time formats
-const TIME_PATTERNS = [
-  // 24-hour: 10:00-12:00 or 10:00 - 12:00
-  {
-    pattern: /(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})(?!\s*[ap])/i,
-    parse: (match: RegExpMatchArray): ParsedTimeRange => ({
-      startHour: parseInt(match[1], 10),
-      startMinute: parseInt(match[2], 10),
-      endHour: parseInt(match[3], 10),
-      endMinute: parseInt(match[4], 10),
-      originalText: match[0],
-    }),
-  },
-  // 12-hour with minutes: 10:00am-12:00pm
-  {
-    pattern: /(\d{1,2}):(\d{2})\s*(am|pm)\s*-\s*(\d{1,2}):(\d{2})\s*(am|pm)/i,
-    parse: (match: RegExpMatchArray): ParsedTimeRange => ({
-      startHour: convert12to24(parseInt(match[1], 10), match[3]),
-      startMinute: parseInt(match[2], 10),
-      endHour: convert12to24(parseInt(match[4], 10), match[6]),
-      endMinute: parseInt(match[5], 10),
-      originalText: match[0],
-    }),
-  },
-  // 12-hour short: 10am-12pm
-  {
-    pattern: /(\d{1,2})\s*(am|pm)\s*-\s*(\d{1,2})\s*(am|pm)/i,
-    parse: (match: RegExpMatchArray): ParsedTimeRange => ({
-      startHour: convert12to24(parseInt(match[1], 10), match[2]),
-      startMinute: 0,
-      endHour: convert12to24(parseInt(match[3], 10), match[4]),
-      endMinute: 0,
-      originalText: match[0],
-    }),
-  },
-];
+import type { ClockFormat, NewBlockTimeFormat, ParsedTimeRange, TimeRangeFormat } from "../types";
+import { DEFAULT_BLOCK_TEXT_OPTIONS } from "../types";
+
+function createRangeFormat(start: ClockFormat): TimeRangeFormat {
+  return {
+    kind: "range",
+    start,
+    end: start,
+    separator: "-",
+    startSharesSuffix: false,
+    durationStyle: "minutes",
+    durationSuffix: "m",
+  };
+}
+
+const NEW_BLOCK_FORMATS: Record<NewBlockTimeFormat, TimeRangeFormat> = {
+  "24h": createRangeFormat({ style: "24h", padHour: true, showMinutes: true, periodSpace: false, periodUpperCase: false }),
+  "12h": createRangeFormat({ style: "12h", padHour: false, showMinutes: true, periodSpace: false, periodUpperCase: false }),
+  "12h-short": createRangeFormat({ style: "12h", padHour: false, showMinutes: false, periodSpace: false, periodUpperCase: false }),
+};
+
+// One clock time: 14:00, 9:30am, 10 pm, 14h30, 14h, or a bare hour (only valid before an end with am/pm or h)
+const CLOCK = "\\d{1,2}(?:[:h]\\d{2}|h)?(?:\\s?[ap]m)?";
+// A length: 90m, 45 min, 1h, 1h30, 1h30m, 1.5h
+const DURATION = "\\d+(?:\\.\\d+)?h(?:\\d{1,2}m?)?|\\d+\\s?m(?:in)?";
+// Not part of a longer number, word or duration hint (~1h30)
+const NOT_AFTER = "(?<![\\w:.~+])";
+
+// Range: 10:00-12:00, 10:00 – 12:00, 10am-12pm, 10-11:30am, 14h-16h30
+const RANGE_REGEX = new RegExp(`${NOT_AFTER}(${CLOCK})(\\s*[-–—]\\s*)(${CLOCK})(?![\\w:])`, "gi");
+// Start plus length: 14:00 +90m, 14:00 for 1h30
+const DURATION_REGEX = new RegExp(`${NOT_AFTER}(${CLOCK})(\\s*\\+\\s*|\\s+for\\s+)(${DURATION})(?!\\w)`, "gi");
+// Start only: 14:00 (default length)
+const START_REGEX = new RegExp(`${NOT_AFTER}(${CLOCK})(?![\\w:])`, "gi");
+
+const CLOCK_PARTS_REGEX = /^(\d{1,2})(?:([:h])(\d{2})|(h))?(?:(\s?)([ap]m))?$/i;
+
+interface ParsedClock {
+  hour: number;
+  minute: number;
+  period: "am" | "pm" | null;
+  format: ClockFormat;
+  hasSuffix: boolean; // written with am/pm or h (a bare "10" or "10:30" can borrow the end's)
+}
+
+function parseClock(token: string): ParsedClock | null {
+  const match = token.match(CLOCK_PARTS_REGEX);
+  if (!match) return null;
+
+  const hour = parseInt(match[1], 10);
+  const minute = match[3] ? parseInt(match[3], 10) : 0;
+  const separator = match[2] || match[4] || "";
+  const period = match[6] ? (match[6].toLowerCase() as "am" | "pm") : null;
+  if (minute > 59) return null;
+  // "09:00" pads, "9:00" doesn't; "14:00" doesn't tell, so follow the usual habit of each style
+  const padHour = (style: ClockFormat["style"]) =>
+    match[1].length === 1 ? false : match[1].startsWith("0") || style === "24h";
+  const periodSpace = !!match[5];
+  const periodUpperCase = !!match[6] && match[6] === match[6].toUpperCase();
+
+  if (period) {
+    if (separator === "h" || hour < 1 || hour > 12) return null;
+    return {
+      hour,
+      minute,
+      period,
+      format: { style: "12h", padHour: padHour("12h"), showMinutes: !!match[3], periodSpace, periodUpperCase },
+      hasSuffix: true,
+    };
+  }
+
+  if (hour > 23) return null;
+  if (separator === "h") {
+    return {
+      hour,
+      minute,
+      period,
+      format: { style: "h", padHour: padHour("h"), showMinutes: !!match[3], periodSpace, periodUpperCase },
+      hasSuffix: true,
+    };
+  }
+  // 24-hour "14:00", or a bare hour whose style comes from the end
+  return {
+    hour,
+    minute,
+    period,
+    format: { style: "24h", padHour: padHour("24h"), showMinutes: separator === ":", periodSpace, periodUpperCase },
+    hasSuffix: separator === ":",
+  };
+}
 
 function convert12to24(hour: number, period: string): number {
   const isPM = period.toLowerCase() === "pm";
@@ -43,38 +95,146 @@ function convert12to24(hour: number, period: string): number {
   return isPM ? hour + 12 : hour;
 }
 
-export function parseTimeRange(text: string): ParsedTimeRange | null {
-  for (const { pattern, parse } of TIME_PATTERNS) {
-    const match = text.match(pattern);
-    if (match) {
-      const result = parse(match);
-      // Validate the time range
-      if (isValidTimeRange(result)) {
-        return result;
-      }
-    }
+function to24Hour(clock: ParsedClock): number {
+  return clock.period ? convert12to24(clock.hour, clock.period) : clock.hour;
+}
+
+function parseDurationMinutes(text: string): number {
+  const hoursMatch = text.match(/^(\d+(?:\.\d+)?)h(?:(\d{1,2})m?)?$/i);
+  if (hoursMatch) {
+    return Math.round(parseFloat(hoursMatch[1]) * 60) + (hoursMatch[2] ? parseInt(hoursMatch[2], 10) : 0);
   }
-  return null;
+  return parseInt(text, 10);
+}
+
+function getDurationFormat(text: string): Pick<TimeRangeFormat, "durationStyle" | "durationSuffix"> {
+  if (/^\d+\.\d+h$/i.test(text)) return { durationStyle: "decimal", durationSuffix: "" };
+  const hoursMatch = text.match(/^\d+h(?:\d{1,2}(m?))?$/i);
+  if (hoursMatch) return { durationStyle: "hours", durationSuffix: hoursMatch[1] || "" };
+  return { durationStyle: "minutes", durationSuffix: text.replace(/^\d+/, "") };
+}
+
+function buildRange(start: number, end: number, match: RegExpMatchArray, format: TimeRangeFormat): ParsedTimeRange {
+  return {
+    startHour: Math.floor(start / 60),
+    startMinute: start % 60,
+    endHour: Math.floor(end / 60),
+    endMinute: end % 60,
+    originalText: match[0],
+    index: match.index ?? 0,
+    format,
+  };
 }
 
-function isValidTimeRange(range: ParsedTimeRange): boolean {
-  const { startHour, startMinute, endHour, endMinute } = range;
+function parseRangeMatch(match: RegExpMatchArray): ParsedTimeRange | null {
+  const start = parseClock(match[1]);
+  const end = parseClock(match[3]);
+  if (!start || !end) return null;
 
-  // Check hour bounds
-  if (startHour < 0 || startHour > 23 || endHour < 0 || endHour > 23) {
-    return false;
+  // A bare start takes the end's suffix: "10-11:30am", "9-17h"
+  const startSharesSuffix = !start.hasSuffix || (start.format.style === "24h" && !!end.period);
+  if (startSharesSuffix) {
+    if (end.format.style === "24h") return null; // "10-12" is not a time range
+    start.format = { ...end.format, padHour: match[1].startsWith("0"), showMinutes: start.format.showMinutes };
   }
 
-  // Check minute bounds
-  if (startMinute < 0 || startMinute > 59 || endMinute < 0 || endMinute > 59) {
-    return false;
+  // "14:00" doesn't tell whether 9 would be padded, nor "11:30" whether 11:00 would show its minutes;
+  // the other time of the range may ("9:00-14:00", "10-11:30am")
+  const showsPadding = (token: string) => !/^[1-9]\d/.test(token);
+  if (!showsPadding(match[1]) && showsPadding(match[3])) start.format.padHour = end.format.padHour;
+  if (!showsPadding(match[3]) && showsPadding(match[1])) end.format.padHour = start.format.padHour;
+  if (start.minute !== 0 && end.minute === 0) start.format.showMinutes = end.format.showMinutes;
+  if (end.minute !== 0 && start.minute === 0) end.format.showMinutes = start.format.showMinutes;
+
+  let startHour = to24Hour(start);
+  const endHour = to24Hour(end);
+  if (startSharesSuffix && end.period) {
+    startHour = convert12to24(start.hour, end.period);
+    // "11-1pm" means 11am-1pm
+    if (startHour * 60 + start.minute > endHour * 60 + end.minute) {
+      startHour = convert12to24(start.hour, end.period === "pm" ? "am" : "pm");
+    }
   }
 
-  // Check that end is after start (or same for instant events)
-  const startTotal = startHour * 60 + startMinute;
-  const endTotal = endHour * 60 + endMinute;
+  const startTotal = startHour * 60 + start.minute;
+  let endTotal = endHour * 60 + end.minute;
+  // Ranges whose end is before their start wrap past midnight (e.g. 23:00-01:00).
+  // The end is moved to the extended range (25:00) so durations stay positive.
+  if (endTotal < startTotal) endTotal += 24 * 60;
+
+  return buildRange(startTotal, endTotal, match, {
+    kind: "range",
+    start: start.format,
+    end: end.format,
+    separator: match[2],
+    startSharesSuffix,
+    durationStyle: "minutes",
+    durationSuffix: "m",
+  });
+}
 
-  return endTotal >= startTotal;
+function parseDurationMatch(match: RegExpMatchArray): ParsedTimeRange | null {
+  const start = parseClock(match[1]);
+  if (!start || !start.hasSuffix) return null;
+
+  const duration = parseDurationMinutes(match[3]);
+  if (duration <= 0 || duration > 24 * 60) return null;
+
+  const startTotal = to24Hour(start) * 60 + start.minute;
+  return buildRange(startTotal, startTotal + duration, match, {
+    kind: "duration",
+    start: start.format,
+    end: start.format,
+    separator: match[2],
+    startSharesSuffix: false,
+    ...getDurationFormat(match[3]),
+  });
+}
+
+function parseStartMatch(match: RegExpMatchArray, defaultBlockMinutes: number): ParsedTimeRange | null {
+  const start = parseClock(match[1]);
+  // "14h" alone reads as a length ("sleep 8h"), so a start needs minutes or am/pm
+  if (!start || !start.hasSuffix || (start.format.style === "h" && !start.format.showMinutes)) return null;
+
+  const startTotal = to24Hour(start) * 60 + start.minute;
+  return buildRange(startTotal, startTotal + defaultBlockMinutes, match, {
+    kind: "start",
+    start: start.format,
+    end: start.format,
+    separator: "",
+    startSharesSuffix: false,
+    durationStyle: "minutes",
+    durationSuffix: "m",
+  });
+}
+
+// Explicit ranges win over start + length, which win over a bare start time
+const TIME_PATTERNS: Array<{
+  pattern: RegExp;
+  parse: (match: RegExpMatchArray, defaultBlockMinutes: number) => ParsedTimeRange | null;
+}> = [
+  { pattern: RANGE_REGEX, parse: parseRangeMatch },
+  { pattern: DURATION_REGEX, parse: parseDurationMatch },
+  { pattern: START_REGEX, parse: parseStartMatch },
+];
+
+// A bare start time ("14:00") lasts defaultBlockMinutes (from the settings)
+export function parseTimeRange(
+  text: string,
+  defaultBlockMinutes: number = DEFAULT_BLOCK_TEXT_OPTIONS.defaultBlockMinutes
+): ParsedTimeRange | null {
+  for (const { pattern, parse } of TIME_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const result = parse(match, defaultBlockMinutes);
+      if (result) return result;
+    }
+  }
+  return null;
+}
+
+// Check if a parsed range ends after midnight of its own day
+export function crossesMidnight(range: ParsedTimeRange): boolean {
+  return range.endHour * 60 + range.endMinute > 24 * 60;
 }
 
 export function snapToGrid(minutes: number, granularity: number): number {
@@ -91,6 +251,92 @@ export function formatTime(hour: number, minute: number): string {
   return `${pad(hour)}:${pad(minute)}`;
 }
 
+// Write a clock time (0-23h) in the given style; omitSuffix leaves out am/pm or h for a shared suffix
+function formatClock(hour: number, minute: number, format: ClockFormat, omitSuffix: boolean = false): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const minutes = minute !== 0 || format.showMinutes ? pad(minute) : "";
+
+  if (format.style === "12h") {
+    const displayHour = hour % 12 || 12;
+    const periodText = hour < 12 ? "am" : "pm";
+    const period = omitSuffix
+      ? ""
+      : `${format.periodSpace ? " " : ""}${format.periodUpperCase ? periodText.toUpperCase() : periodText}`;
+    return `${format.padHour ? pad(displayHour) : displayHour}${minutes ? `:${minutes}` : ""}${period}`;
+  }
+  const displayHour = format.padHour ? pad(hour) : `${hour}`;
+  if (format.style === "h") {
+    return omitSuffix && !minutes ? displayHour : `${displayHour}h${minutes}`;
+  }
+  return `${displayHour}:${pad(minute)}`;
+}
+
+function formatDuration(minutes: number, format: TimeRangeFormat): string {
+  // Decimal hours only while they stay short (multiples of 6 minutes: 0.1h)
+  if (format.durationStyle === "decimal" && minutes % 6 === 0) {
+    return `${minutes / 60}h`;
+  }
+  if (format.durationStyle === "minutes") {
+    return `${minutes}${format.durationSuffix || "m"}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (rest === 0) return `${hours}h`;
+  if (hours === 0) return `${rest}m`;
+  return `${hours}h${rest.toString().padStart(2, "0")}${format.durationSuffix}`;
+}
+
+// Write new times in the style the range was originally written in
+// (extended-range hours >= 24 are written as real clock time). A bare start time stays bare
+// while the block keeps the default length it was parsed with.
+export function formatTimeRangeLike(
+  format: TimeRangeFormat,
+  startHour: number,
+  startMinute: number,
+  endHour: number,
+  endMinute: number,
+  defaultBlockMinutes: number = DEFAULT_BLOCK_TEXT_OPTIONS.defaultBlockMinutes
+): string {
+  const startTotal = startHour * 60 + startMinute;
+  const endTotal = endHour * 60 + endMinute;
+  const duration = endTotal - startTotal;
+  const start = formatClock(startHour % 24, startMinute, format.start);
+
+  if (format.kind === "duration") {
+    return `${start}${format.separator}${formatDuration(duration, format)}`;
+  }
+  if (format.kind === "start") {
+    // A changed length can't be left implicit
+    return duration === defaultBlockMinutes ? start : `${start}-${formatClock(endHour % 24, endMinute, format.start)}`;
+  }
+
+  // The start only drops its suffix where that still reads the same ("10-11am", not "11-1am" for 11pm-1am)
+  const samePeriod = Math.floor((startHour % 24) / 12) === Math.floor((endHour % 24) / 12);
+  const omitStartSuffix =
+    format.startSharesSuffix && format.start.style === format.end.style && (format.end.style !== "12h" || samePeriod);
+  return `${formatClock(startHour % 24, startMinute, format.start, omitStartSuffix)}${format.separator}${formatClock(
+    endHour % 24,
+    endMinute,
+    format.end
+  )}`;
+}
+
+// Time range text for new blocks, in the style chosen in the settings
+export function formatNewTimeRange(
+  startHour: number,
+  startMinute: number,
+  endHour: number,
+  endMinute: number,
+  format: NewBlockTimeFormat
+): string {
+  return formatTimeRangeLike(NEW_BLOCK_FORMATS[format] || NEW_BLOCK_FORMATS["24h"], startHour, startMinute, endHour, endMinute);
+}
+
+// Replace exactly the span a range was parsed from
+export function replaceTimeRange(text: string, range: ParsedTimeRange, replacement: string): string {
+  return text.substring(0, range.index) + replacement + text.substring(range.index + range.originalText.length);
+}
+
 export function timeRangeToMinutes(range: ParsedTimeRange): { start: number; end: number } {
   return {
     start: range.startHour * 60 + range.startMinute,
@@ -0,0 +1,174 @@
+/**
+ * Time statistics - where the planned hours went, per colour group and per tag
+ * Overlapping blocks share their common time (see calculateBlockShares), so nothing is counted twice.
+ * Blocks with time tracked by the timer are also compared with their full planned length (drift),
+ * and TODO/DONE blocks report how much of their planned time is done.
+ */
+import type { ColorConfig, TimeBlockData } from "../types";
+import { calculateBlockShares } from "./layoutCalculator";
+
+// Planned length vs. tracked time of the blocks that have tracked time
+export interface DriftStats {
+  plannedMinutes: number;
+  actualMinutes: number;
+  blockCount: number;
+}
+
+// Planned vs. completed time of the blocks with a TODO/DONE checkbox (their share of planned time)
+export interface TaskStats {
+  plannedMinutes: number;
+  completedMinutes: number;
+  taskCount: number;
+  doneCount: number;
+}
+
+export interface TagStats {
+  tag: string;
+  minutes: number;
+  blockCount: number;
+  drift: DriftStats;
+  tasks: TaskStats;
+}
+
+export interface ColorGroupStats {
+  color: string;
+  minutes: number;
+  tags: TagStats[]; // in ColorConfig order
+}
+
+export interface TimeStats {
+  dayCount: number;
+  availableMinutes: number; // dayStartHour-dayEndHour summed over all days
+  plannedMinutes: number;
+  unplannedMinutes: number;
+  groups: ColorGroupStats[]; // one per ColorConfig with tags, in settings order
+  untaggedMinutes: number;
+  untaggedBlockCount: number;
+  drift: DriftStats; // all tracked blocks, tagged or not
+  tasks: TaskStats; // all tasks, tagged or not
+}
+
+function createDriftStats(): DriftStats {
+  return { plannedMinutes: 0, actualMinutes: 0, blockCount: 0 };
+}
+
+// Add a block's planned length and tracked time (no-op for blocks without tracked time)
+function addDrift(drift: DriftStats, block: TimeBlockData): void {
+  if (!block.actuals || block.actuals.length === 0) return;
+  const { startHour, startMinute, endHour, endMinute } = block.timeRange;
+  drift.plannedMinutes += endHour * 60 + endMinute - (startHour * 60 + startMinute);
+  drift.actualMinutes += block.actuals.reduce((sum, interval) => sum + Math.max(0, interval.end - interval.start), 0);
+  drift.blockCount++;
+}
+
+function createTaskStats(): TaskStats {
+  return { plannedMinutes: 0, completedMinutes: 0, taskCount: 0, doneCount: 0 };
+}
+
+// Add a task block's planned minutes (no-op for blocks without a checkbox)
+function addTask(tasks: TaskStats, block: TimeBlockData, minutes: number): void {
+  if (!block.taskStatus) return;
+  tasks.plannedMinutes += minutes;
+  tasks.taskCount++;
+  if (block.taskStatus === "done") {
+    tasks.completedMinutes += minutes;
+    tasks.doneCount++;
+  }
+}
+
+// `days` holds the blocks of each day in the range, with times relative to that day
+export function calculateTimeStats(
+  days: TimeBlockData[][],
+  colorConfigs: ColorConfig[],
+  dayStartHour: number,
+  dayEndHour: number
+): TimeStats {
+  const configs = colorConfigs.filter((config) => config.tags.length > 0);
+  const groups: ColorGroupStats[] = configs.map((config) => ({
+    color: config.color,
+    minutes: 0,
+    tags: config.tags.map((tag) => ({
+      tag,
+      minutes: 0,
+      blockCount: 0,
+      drift: createDriftStats(),
+      tasks: createTaskStats(),
+    })),
+  }));
+
+  // Tag name (lowercase) -> stats entry, first configured occurrence wins like the tag resolver
+  const tagLookup = new Map<string, { group: ColorGroupStats; tag: TagStats }>();
+  for (const group of groups) {
+    for (const tag of group.tags) {
+      const key = tag.tag.toLowerCase();
+      if (!tagLookup.has(key)) {
+        tagLookup.set(key, { group, tag });
+      }
+    }
+  }
+
+  const clipStart = dayStartHour * 60;
+  const clipEnd = dayEndHour * 60;
+  let plannedMinutes = 0;
+  let untaggedMinutes = 0;
+  let untaggedBlockCount = 0;
+  const drift = createDriftStats();
+  const tasks = createTaskStats();
+
+  for (const blocks of days) {
+    const shares = calculateBlockShares(blocks, clipStart, clipEnd);
+
+    for (const block of blocks) {
+      const minutes = shares.get(block.uid) || 0;
+      // Only blocks with time inside the day's hours count. With dayEndHour > 24 the next day's early
+      // blocks are in both days' lists, but inside the hours of only one of them.
+      if (minutes <= 0) continue;
+      plannedMinutes += minutes;
+      addDrift(drift, block);
+      addTask(tasks, block, minutes);
+
+      const entry = block.tag ? tagLookup.get(block.tag.tag.toLowerCase()) : undefined;
+      if (entry) {
+        entry.group.minutes += minutes;
+        entry.tag.minutes += minutes;
+        entry.tag.blockCount++;
+        addDrift(entry.tag.drift, block);
+        addTask(entry.tag.tasks, block, minutes);
+      } else {
+        untaggedMinutes += minutes;
+        untaggedBlockCount++;
+      }
+    }
+  }
+
+  const availableMinutes = Math.max(0, clipEnd - clipStart) * days.length;
+
+  return {
+    dayCount: days.length,
+    availableMinutes,
+    plannedMinutes,
+    unplannedMinutes: Math.max(0, availableMinutes - plannedMinutes),
+    groups,
+    untaggedMinutes,
+    untaggedBlockCount,
+    drift,
+    tasks,
+  };
+}
+
+// Drift of tracked time against the plan: 15 -> "+15m", -90 -> "−1h 30m", 0 -> "±0m"
+export function formatDrift(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded === 0) return "±0m";
+  return `${rounded > 0 ? "+" : "−"}${formatDuration(Math.abs(rounded))}`;
+}
+
+// 90 -> "1h 30m", 45 -> "45m", 120 -> "2h"
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+}
@@ -28,6 +28,33 @@ export function isToday(date: Date): boolean {
   );
 }
 
+// Format a date as YYYY-MM-DD in local time (for file names and date inputs)
+export function formatIsoDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Parse a YYYY-MM-DD string as a local date
+export function parseIsoDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
+
+// Trigger a browser download of a text file
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers before it has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 // Simple toast notification (uses console + optional DOM notification)
 let toastContainer: HTMLDivElement | null = null;
 
@@ -1,6 +1,8 @@
 import type { RoamExtensionAPI } from "./types";
 import { registerSettingsPanel, loadSettings } from "./settings/settingsPanel";
-import { renderSidebar, unmountSidebar } from "./ui/CalendarSidebar";
+import { renderSidebar, unmountSidebar, isSidebarOpen } from "./ui/CalendarSidebar";
+import { registerRoamCommands } from "./ui/roamCommands";
+import { attachInlineTimePicker } from "./ui/InlineTimePicker";
 import "./ui/styles.css";
 
 let cleanupFunctions: (() => void)[] = [];
@@ -36,6 +38,17 @@ function onload({ extensionAPI }: { extensionAPI: RoamExtensionAPI }): void {
     unmountSidebar();
   });
 
+  // Command palette commands and the block context menu entry
+  cleanupFunctions.push(
+    registerRoamCommands(extensionAPI, {
+      toggleSidebar: () => toggleSidebar(extensionAPI),
+      openSidebar: () => openSidebar(extensionAPI),
+    })
+  );
+
+  // ;;t / @time time suggestions while editing blocks
+  cleanupFunctions.push(attachInlineTimePicker(extensionAPI));
+
   console.log("[TimeBlock] Extension loaded successfully");
 }
 
@@ -73,17 +86,18 @@ function createTopbarButton(onClick: () => void): HTMLSpanElement {
   return button;
 }
 
-let sidebarOpen = false;
+function openSidebar(extensionAPI: RoamExtensionAPI): void {
+  // Ensure right sidebar is open
+  window.roamAlphaAPI.ui.rightSidebar.open();
+  renderSidebar(extensionAPI);
+}
 
+// Follows the sidebar's own state, so closing it with its close button doesn't need two clicks to reopen
 function toggleSidebar(extensionAPI: RoamExtensionAPI): void {
-  if (sidebarOpen) {
+  if (isSidebarOpen()) {
     unmountSidebar();
-    sidebarOpen = false;
   } else {
-    // Ensure right sidebar is open
-    window.roamAlphaAPI.ui.rightSidebar.open();
-    renderSidebar(extensionAPI);
-    sidebarOpen = true;
+    openSidebar(extensionAPI);
   }
 }
 
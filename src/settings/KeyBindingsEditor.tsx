@@ -0,0 +1,77 @@
+import React, { useState, useCallback } from "react";
+import type { RoamExtensionAPI, KeyBindings, KeyCommand } from "../types";
+import { DEFAULT_KEY_BINDINGS, KEY_COMMANDS, bindingFromKeyPress, formatKeyBinding, getTagKeyIndex } from "../core/keyBindings";
+import { loadKeyBindings } from "./settingsPanel";
+
+interface KeyBindingsEditorProps {
+  extensionAPI: RoamExtensionAPI;
+}
+
+// Why a binding can't be used as it is, or null
+function getBindingWarning(bindings: KeyBindings, command: KeyCommand): string | null {
+  const binding = bindings[command];
+  if (getTagKeyIndex({ key: binding, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false }) !== null) {
+    return "Digits 1-9 apply tags";
+  }
+  const other = KEY_COMMANDS.find((entry) => entry.command !== command && bindings[entry.command] === binding);
+  return other ? `Also: ${other.label}` : null;
+}
+
+const KeyBindingsEditor: React.FC<KeyBindingsEditorProps> = ({ extensionAPI }) => {
+  const [bindings, setBindings] = useState<KeyBindings>(() => loadKeyBindings(extensionAPI));
+
+  const save = useCallback(
+    (updated: KeyBindings) => {
+      setBindings(updated);
+      extensionAPI.settings.set("keyBindings", JSON.stringify(updated));
+    },
+    [extensionAPI]
+  );
+
+  // Record the key pressed in a field as that command's binding
+  const handleKeyDown = (command: KeyCommand, e: React.KeyboardEvent<HTMLInputElement>) => {
+    const binding = bindingFromKeyPress(e);
+    // Let modifiers build up until the actual key is pressed
+    if (!binding) return;
+    e.preventDefault();
+    e.stopPropagation();
+    save({ ...bindings, [command]: binding });
+  };
+
+  return (
+    <div className="tb-py-2">
+      {KEY_COMMANDS.map(({ command, label }) => {
+        const warning = getBindingWarning(bindings, command);
+        return (
+          <div key={command} className="tb-flex tb-items-center tb-gap-2 tb-py-1">
+            <span className="tb-flex-1 tb-text-[13px]">{label}</span>
+            {warning && <span className="tb-text-[11px] tb-text-[#e53935]">{warning}</span>}
+            <input
+              type="text"
+              readOnly
+              className="bp3-input tb-w-[120px] tb-px-2 tb-py-1 tb-text-[13px] tb-text-center"
+              value={formatKeyBinding(bindings[command])}
+              onKeyDown={(e) => handleKeyDown(command, e)}
+              title="Click, then press the new key"
+            />
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        className="tb-mt-2 tb-px-3 tb-py-1 tb-bg-transparent tb-text-[#4A90D9] tb-border tb-border-[#4A90D9] tb-rounded tb-cursor-pointer tb-text-[12px] hover:tb-bg-[#4A90D9] hover:tb-text-white tb-transition-colors"
+        onClick={() => save({ ...DEFAULT_KEY_BINDINGS })}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+// Wrapper for settings panel
+export function createKeyBindingsEditorComponent(extensionAPI: RoamExtensionAPI): React.FC {
+  return function KeyBindingsEditorWrapper() {
+    return <KeyBindingsEditor extensionAPI={extensionAPI} />;
+  };
+}
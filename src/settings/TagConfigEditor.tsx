@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from "react";
-import type { RoamExtensionAPI, ColorConfig } from "../types";
+import type { RoamExtensionAPI, ColorConfig, TagStyle } from "../types";
+import { DEFAULT_TAG_ATTRIBUTE } from "../types";
 import { DEFAULT_COLOR_CONFIGS } from "./settingsPanel";
 
 interface ColorRowProps {
@@ -7,16 +8,34 @@ interface ColorRowProps {
   onChange: (updated: ColorConfig) => void;
   onRemove: () => void;
   canRemove: boolean;
+  onMove: (offset: -1 | 1) => void; // move up or down in the priority order
+  isFirst: boolean;
+  isLast: boolean;
 }
 
-const ColorRow: React.FC<ColorRowProps> = ({ config, onChange, onRemove, canRemove }) => {
+const MOVE_BUTTON_CLASS =
+  "tb-bg-transparent tb-border-none tb-text-[#999] tb-cursor-pointer tb-p-0 tb-leading-none tb-text-[10px] hover:tb-text-[#4A90D9] disabled:tb-opacity-30 disabled:tb-cursor-default";
+
+const TAG_STYLES: { value: TagStyle; label: string }[] = [
+  { value: "hashtag", label: "#tag" },
+  { value: "pageRef", label: "[[tag]]" },
+  { value: "attribute", label: "Attribute::" },
+];
+
+const ColorRow: React.FC<ColorRowProps> = ({ config, onChange, onRemove, canRemove, onMove, isFirst, isLast }) => {
   const [tagInput, setTagInput] = useState(config.tags.join(", "));
+  const [attributeInput, setAttributeInput] = useState(config.attribute || DEFAULT_TAG_ATTRIBUTE);
+  const style = config.style || "hashtag";
 
   // Sync input when config changes externally
   useEffect(() => {
     setTagInput(config.tags.join(", "));
   }, [config.tags]);
 
+  useEffect(() => {
+    setAttributeInput(config.attribute || DEFAULT_TAG_ATTRIBUTE);
+  }, [config.attribute]);
+
   const handleTagsBlur = () => {
     const newTags = tagInput
       .split(",")
@@ -25,8 +44,24 @@ const ColorRow: React.FC<ColorRowProps> = ({ config, onChange, onRemove, canRemo
     onChange({ ...config, tags: newTags });
   };
 
+  const handleAttributeBlur = () => {
+    const attribute = attributeInput.trim().replace(/:+$/, "") || DEFAULT_TAG_ATTRIBUTE;
+    setAttributeInput(attribute);
+    onChange({ ...config, attribute });
+  };
+
   return (
     <div className="tb-flex tb-items-center tb-gap-2 tb-py-2 tb-border-b tb-border-[var(--border-color,#e0e0e0)]">
+      {/* Priority order */}
+      <div className="tb-flex tb-flex-col tb-shrink-0">
+        <button type="button" className={MOVE_BUTTON_CLASS} onClick={() => onMove(-1)} disabled={isFirst} title="Higher priority">
+          ▲
+        </button>
+        <button type="button" className={MOVE_BUTTON_CLASS} onClick={() => onMove(1)} disabled={isLast} title="Lower priority">
+          ▼
+        </button>
+      </div>
+
       {/* Color picker */}
       <input
         type="color"
@@ -47,6 +82,32 @@ const ColorRow: React.FC<ColorRowProps> = ({ config, onChange, onRemove, canRemo
         placeholder="tag1, tag2, tag3..."
       />
 
+      {/* How the tags are written on blocks */}
+      <select
+        className="bp3-input tb-px-1 tb-py-1 tb-text-[12px] tb-shrink-0"
+        value={style}
+        onChange={(e) => onChange({ ...config, style: e.target.value as TagStyle })}
+        title="How these tags are written on blocks"
+      >
+        {TAG_STYLES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {style === "attribute" && (
+        <input
+          type="text"
+          className="bp3-input tb-w-[90px] tb-px-2 tb-py-1 tb-text-[13px] tb-shrink-0"
+          value={attributeInput}
+          onChange={(e) => setAttributeInput(e.target.value)}
+          onBlur={handleAttributeBlur}
+          onKeyDown={(e) => e.key === "Enter" && handleAttributeBlur()}
+          placeholder={DEFAULT_TAG_ATTRIBUTE}
+          title="Attribute name, e.g. Category for Category:: Deep Work"
+        />
+      )}
+
       {/* Remove button */}
       {canRemove && (
         <button
@@ -120,6 +181,16 @@ export const ColorConfigEditor: React.FC<ColorConfigEditorProps> = ({ extensionA
     setConfigs((prev) => prev.filter((_, i) => i !== index));
   }, []);
 
+  const handleMoveConfig = useCallback((index: number, offset: -1 | 1) => {
+    setConfigs((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const newConfigs = [...prev];
+      [newConfigs[index], newConfigs[target]] = [newConfigs[target], newConfigs[index]];
+      return newConfigs;
+    });
+  }, []);
+
   const handleAddConfig = useCallback(() => {
     // Generate a random color
     const randomColor = `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, "0")}`;
@@ -133,7 +204,9 @@ export const ColorConfigEditor: React.FC<ColorConfigEditorProps> = ({ extensionA
   return (
     <div className="tb-py-2">
       <div className="tb-text-[11px] tb-text-[var(--text-secondary,#666)] tb-mb-2">
-        Each color can have multiple tags (comma-separated)
+        Each color can have multiple tags (comma-separated). A block with several tags takes the color of the
+        highest row; the others show as stripes. Tags are written as #tag, #[[Multi Word Tag]], [[tag]] or as an
+        attribute child block such as Category:: Deep Work.
       </div>
 
       {configs.map((config, index) => (
@@ -143,6 +216,9 @@ export const ColorConfigEditor: React.FC<ColorConfigEditorProps> = ({ extensionA
           onChange={(updated) => handleConfigChange(index, updated)}
           onRemove={() => handleRemoveConfig(index)}
           canRemove={configs.length > 1}
+          onMove={(offset) => handleMoveConfig(index, offset)}
+          isFirst={index === 0}
+          isLast={index === configs.length - 1}
         />
       ))}
 
@@ -1,7 +1,19 @@
 import React from "react";
-import type { RoamExtensionAPI, TimeBlockSettings, ColorConfig, TagConfig } from "../types";
+import type {
+  RoamExtensionAPI,
+  TimeBlockSettings,
+  ColorConfig,
+  TagConfig,
+  DayTemplate,
+  ActiveTimer,
+  KeyBindings,
+  NewBlockTimeFormat,
+  TagResolutionMode,
+} from "../types";
 import { colorConfigsToTagConfigs } from "../types";
 import { createColorConfigEditorComponent } from "./TagConfigEditor";
+import { createKeyBindingsEditorComponent } from "./KeyBindingsEditor";
+import { DEFAULT_KEY_BINDINGS, KEY_COMMANDS, normalizeKeyBinding } from "../core/keyBindings";
 
 // Default color configs with tags
 export const DEFAULT_COLOR_CONFIGS: ColorConfig[] = [
@@ -19,20 +31,40 @@ export const DEFAULT_SETTINGS: TimeBlockSettings = {
   viewMode: "day",
   weekStartDay: 1, // Monday
   timeGranularity: 15, // 15 minutes
+  defaultBlockMinutes: 60,
+  newBlockTimeFormat: "24h",
+  tagResolution: "priority",
+  keyBindings: DEFAULT_KEY_BINDINGS,
 };
 
-// Create Week Start Day selector component
-function createWeekStartDayComponent(extensionAPI: RoamExtensionAPI): React.FC {
-  return function WeekStartDaySelector() {
+const NEW_BLOCK_TIME_FORMATS: { value: NewBlockTimeFormat; label: string }[] = [
+  { value: "24h", label: "10:00-11:30" },
+  { value: "12h", label: "10:00am-11:30am" },
+  { value: "12h-short", label: "10am-11:30am" },
+];
+
+const TAG_RESOLUTION_MODES: { value: TagResolutionMode; label: string }[] = [
+  { value: "priority", label: "Highest-priority tag" },
+  { value: "ownFirst", label: "Block's own tag" },
+];
+
+// Create a selector component for a setting with fixed choices
+function createSelectComponent(
+  extensionAPI: RoamExtensionAPI,
+  settingId: string,
+  defaultValue: string,
+  options: { value: string; label: string }[]
+): React.FC {
+  return function SettingSelector() {
     const [value, setValue] = React.useState<string>(() => {
-      const saved = extensionAPI.settings.get("weekStartDay");
-      return saved !== undefined && saved !== null ? String(saved) : "1";
+      const saved = extensionAPI.settings.get(settingId);
+      return saved !== undefined && saved !== null ? String(saved) : defaultValue;
     });
 
     const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
       const newValue = e.target.value;
       setValue(newValue);
-      extensionAPI.settings.set("weekStartDay", newValue);
+      extensionAPI.settings.set(settingId, newValue);
     };
 
     return React.createElement("select", {
@@ -48,16 +80,31 @@ function createWeekStartDayComponent(extensionAPI: RoamExtensionAPI): React.FC {
         cursor: "pointer",
         outline: "none",
       },
-    }, [
-      React.createElement("option", { key: "1", value: "1", style: { backgroundColor: "#33404c", color: "#8d9aa6" } }, "Monday"),
-      React.createElement("option", { key: "0", value: "0", style: { backgroundColor: "#33404c", color: "#8d9aa6" } }, "Sunday"),
-    ]);
+    }, options.map((option) =>
+      React.createElement("option", { key: option.value, value: option.value, style: { backgroundColor: "#33404c", color: "#8d9aa6" } }, option.label)
+    ));
   };
 }
 
 export function registerSettingsPanel(extensionAPI: RoamExtensionAPI): void {
   const ColorConfigEditorComponent = createColorConfigEditorComponent(extensionAPI);
-  const WeekStartDayComponent = createWeekStartDayComponent(extensionAPI);
+  const KeyBindingsEditorComponent = createKeyBindingsEditorComponent(extensionAPI);
+  const WeekStartDayComponent = createSelectComponent(extensionAPI, "weekStartDay", "1", [
+    { value: "1", label: "Monday" },
+    { value: "0", label: "Sunday" },
+  ]);
+  const NewBlockTimeFormatComponent = createSelectComponent(
+    extensionAPI,
+    "newBlockTimeFormat",
+    DEFAULT_SETTINGS.newBlockTimeFormat,
+    NEW_BLOCK_TIME_FORMATS
+  );
+  const TagResolutionComponent = createSelectComponent(
+    extensionAPI,
+    "tagResolution",
+    DEFAULT_SETTINGS.tagResolution,
+    TAG_RESOLUTION_MODES
+  );
 
   extensionAPI.settings.panel.create({
     tabTitle: "TimeBlock",
@@ -89,6 +136,16 @@ export function registerSettingsPanel(extensionAPI: RoamExtensionAPI): void {
           component: ColorConfigEditorComponent,
         },
       },
+      {
+        id: "tagResolution",
+        name: "Block Color With Several Tags",
+        description:
+          "Color of a block with several tags (own or inherited from parents): the tag highest in the list above, or the block's own tag over inherited ones",
+        action: {
+          type: "reactComponent",
+          component: TagResolutionComponent,
+        },
+      },
       {
         id: "hourHeight",
         name: "Hour Height (pixels)",
@@ -116,6 +173,33 @@ export function registerSettingsPanel(extensionAPI: RoamExtensionAPI): void {
           placeholder: "15",
         },
       },
+      {
+        id: "defaultBlockMinutes",
+        name: "Default Block Length (minutes)",
+        description: "Length of blocks written with only a start time, like `14:00` (5-720)",
+        action: {
+          type: "input",
+          placeholder: "60",
+        },
+      },
+      {
+        id: "newBlockTimeFormat",
+        name: "New Block Time Format",
+        description: "How times are written for blocks created from the calendar (moved blocks keep their own style)",
+        action: {
+          type: "reactComponent",
+          component: NewBlockTimeFormatComponent,
+        },
+      },
+      {
+        id: "keyBindings",
+        name: "Keyboard Shortcuts",
+        description: "Keys for the day view (click a field and press the new key). 1-9 always apply the Nth color's tag",
+        action: {
+          type: "reactComponent",
+          component: KeyBindingsEditorComponent,
+        },
+      },
     ],
   });
 }
@@ -129,7 +213,7 @@ export function loadSettings(extensionAPI: RoamExtensionAPI): TimeBlockSettings
   const hourHeight = Math.min(100, Math.max(20, rawHourHeight));
 
   // New settings
-  const viewMode = (extensionAPI.settings.get("viewMode") as "day" | "week") || DEFAULT_SETTINGS.viewMode;
+  const viewMode = (extensionAPI.settings.get("viewMode") as TimeBlockSettings["viewMode"]) || DEFAULT_SETTINGS.viewMode;
   const rawWeekStartDay = Number(extensionAPI.settings.get("weekStartDay"));
   const weekStartDay = (rawWeekStartDay === 0 || rawWeekStartDay === 1) ? rawWeekStartDay as 0 | 1 : DEFAULT_SETTINGS.weekStartDay;
 
@@ -142,6 +226,16 @@ export function loadSettings(extensionAPI: RoamExtensionAPI): TimeBlockSettings
         Math.abs(curr - rawTimeGranularity) < Math.abs(prev - rawTimeGranularity) ? curr : prev
       );
 
+  const rawDefaultBlockMinutes = Math.round(Number(extensionAPI.settings.get("defaultBlockMinutes"))) || DEFAULT_SETTINGS.defaultBlockMinutes;
+  const defaultBlockMinutes = Math.min(720, Math.max(5, rawDefaultBlockMinutes));
+  const rawNewBlockTimeFormat = extensionAPI.settings.get("newBlockTimeFormat");
+  const newBlockTimeFormat =
+    NEW_BLOCK_TIME_FORMATS.find((format) => format.value === rawNewBlockTimeFormat)?.value ||
+    DEFAULT_SETTINGS.newBlockTimeFormat;
+  const rawTagResolution = extensionAPI.settings.get("tagResolution");
+  const tagResolution =
+    TAG_RESOLUTION_MODES.find((mode) => mode.value === rawTagResolution)?.value || DEFAULT_SETTINGS.tagResolution;
+
   // Try to load from new ColorConfig format
   let colorConfigs: ColorConfig[] = [];
   const colorConfigsJson = extensionAPI.settings.get("colorConfigs") as string;
@@ -184,9 +278,68 @@ export function loadSettings(extensionAPI: RoamExtensionAPI): TimeBlockSettings
     viewMode,
     weekStartDay,
     timeGranularity,
+    defaultBlockMinutes,
+    newBlockTimeFormat,
+    tagResolution,
+    keyBindings: loadKeyBindings(extensionAPI),
   };
 }
 
+// Key bindings are stored as JSON; missing or invalid keys fall back to the defaults
+export function loadKeyBindings(extensionAPI: RoamExtensionAPI): KeyBindings {
+  const json = extensionAPI.settings.get("keyBindings") as string;
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  if (!json) return bindings;
+
+  try {
+    const saved = JSON.parse(json) as Partial<Record<string, unknown>>;
+    for (const { command } of KEY_COMMANDS) {
+      const value = saved[command];
+      const binding = typeof value === "string" ? normalizeKeyBinding(value) : null;
+      if (binding) bindings[command] = binding;
+    }
+  } catch (e) {
+    console.error("[TimeBlock] Failed to parse keyBindings:", e);
+  }
+  return bindings;
+}
+
+// Day templates are stored as JSON, like colorConfigs
+export function loadDayTemplates(extensionAPI: RoamExtensionAPI): DayTemplate[] {
+  const json = extensionAPI.settings.get("dayTemplates") as string;
+  if (!json) return [];
+
+  try {
+    const templates = JSON.parse(json) as DayTemplate[];
+    return Array.isArray(templates) ? templates : [];
+  } catch (e) {
+    console.error("[TimeBlock] Failed to parse dayTemplates:", e);
+    return [];
+  }
+}
+
+export function saveDayTemplates(extensionAPI: RoamExtensionAPI, templates: DayTemplate[]): void {
+  extensionAPI.settings.set("dayTemplates", JSON.stringify(templates));
+}
+
+// The running timer is stored as JSON too, so it survives closing and reopening the sidebar
+export function loadActiveTimer(extensionAPI: RoamExtensionAPI): ActiveTimer | null {
+  const json = extensionAPI.settings.get("activeTimer") as string;
+  if (!json) return null;
+
+  try {
+    const timer = JSON.parse(json) as ActiveTimer;
+    return timer && typeof timer.blockUid === "string" && typeof timer.startedAt === "number" ? timer : null;
+  } catch (e) {
+    console.error("[TimeBlock] Failed to parse activeTimer:", e);
+    return null;
+  }
+}
+
+export function saveActiveTimer(extensionAPI: RoamExtensionAPI, timer: ActiveTimer | null): void {
+  extensionAPI.settings.set("activeTimer", timer ? JSON.stringify(timer) : "");
+}
+
 // Migrate old TagConfig[] to ColorConfig[]
 function migrateFromTagConfigs(tagConfigs: TagConfig[]): ColorConfig[] {
   const colorMap = new Map<string, string[]>();
@@ -4,15 +4,47 @@ import type React from "react";
 export interface ParsedTimeRange {
   startHour: number;
   startMinute: number;
-  endHour: number;
+  endHour: number; // >= 24 when the range wraps past midnight (23:00-01:00 -> endHour 25)
   endMinute: number;
   originalText: string;
+  index: number; // position of originalText in the block text
+  format: TimeRangeFormat; // how originalText was written, for rewriting it in the same style
+}
+
+// How one time of a range was written
+export interface ClockFormat {
+  style: "24h" | "12h" | "h"; // 14:00 | 2:00pm | 14h00
+  padHour: boolean; // 09:00 rather than 9:00
+  showMinutes: boolean; // 10:00am / 14h00 rather than 10am / 14h when on the hour
+  periodSpace: boolean; // "10 am" rather than "10am"
+  periodUpperCase: boolean; // "10AM" rather than "10am"
+}
+
+// Time style for newly created blocks
+export type NewBlockTimeFormat = "24h" | "12h" | "12h-short"; // 10:00-11:30 | 10:00am-11:30am | 10am-11:30am
+
+export interface TimeRangeFormat {
+  kind: "range" | "duration" | "start"; // 10:00-11:00 | 10:00 +90m, 10:00 for 1h30 | 10:00 (default length)
+  start: ClockFormat;
+  end: ClockFormat; // same as start unless kind is "range"
+  separator: string; // text between the start and the end or duration, as written ("-", " – ", " +", " for ")
+  startSharesSuffix: boolean; // "10-11:30am", "9-17h": the start takes the end's am/pm or h
+  durationStyle: "minutes" | "hours" | "decimal"; // 90m | 1h30 | 1.5h
+  durationSuffix: string; // unit after the minutes ("m", "min", or "" in 1h30)
 }
 
+// How a color's tags are written on blocks
+export type TagStyle = "hashtag" | "pageRef" | "attribute"; // #tag | [[tag]] | "Category:: tag" child block
+
+// Attribute name used when a color's tags are written as attributes but no name is set
+export const DEFAULT_TAG_ATTRIBUTE = "Category";
+
 // New: One color can have multiple tags
 export interface ColorConfig {
   color: string;
   tags: string[];
+  style?: TagStyle; // default "hashtag"
+  attribute?: string; // attribute name for the "attribute" style
 }
 
 // Keep TagConfig for backward compatibility in TimeBlockData
@@ -20,26 +52,131 @@ export interface TagConfig {
   tag: string;
   color: string;
   isPageRef: boolean; // true for [[Tag]], false for #tag
+  attribute?: string; // set when the tag is written as a "name:: tag" child block instead
+}
+
+// Which tag colours a block that has several: the highest-priority one (settings order),
+// or the block's own tag even when a parent has a higher-priority one
+export type TagResolutionMode = "priority" | "ownFirst";
+
+// Settings that change how block text is read and written, passed down from TimeBlockSettings
+export interface BlockTextOptions {
+  defaultBlockMinutes: number; // length of blocks written as a bare start time ("14:00")
+  newBlockTimeFormat: NewBlockTimeFormat;
+  tagResolution: TagResolutionMode;
 }
 
+export const DEFAULT_BLOCK_TEXT_OPTIONS: BlockTextOptions = {
+  defaultBlockMinutes: 60,
+  newBlockTimeFormat: "24h",
+  tagResolution: "priority",
+};
+
 export interface TimeBlockData {
   uid: string;
   text: string;
   timeRange: ParsedTimeRange;
-  tag: TagConfig | null;
+  tag: TagConfig | null; // primary tag (tags[0])
+  tags: TagConfig[]; // every configured tag on the block and its parents, primary first
   parentUid: string;
   order: number;
+  virtual?: { templateUid: string; date: Date }; // occurrence of a recurring template, not yet on the daily page
+  actuals?: TrackedInterval[]; // time actually spent, recorded by the timer in an actual:: child
+  taskStatus?: TaskStatus; // {{[[TODO]]}} or {{[[DONE]]}} checkbox, if the block has one
 }
 
-export interface TimeBlockSettings {
+// Roam checkbox state of a block
+export type TaskStatus = "todo" | "done";
+
+// A stretch of tracked time, in minutes from the start of the block's day (>= 1440 past midnight, like timeRange)
+export interface TrackedInterval {
+  start: number;
+  end: number;
+}
+
+// Running start/stop timer, persisted in the extension settings so it survives a sidebar remount
+export interface ActiveTimer {
+  blockUid: string;
+  title: string; // block text without the time range, for display
+  startedAt: number; // epoch milliseconds
+}
+
+// Day-view actions that can be bound to a key (the digits 1-9 always apply the Nth colour's tag)
+export type KeyCommand =
+  | "moveEarlier"
+  | "moveLater"
+  | "endEarlier"
+  | "endLater"
+  | "startEarlier"
+  | "startLater"
+  | "selectNext"
+  | "selectPrevious"
+  | "removeBlock"
+  | "openBlock"
+  | "newBlock"
+  | "showHelp";
+
+// Key for each command, written like "Shift+ArrowUp" or "n"
+export type KeyBindings = Record<KeyCommand, string>;
+
+// New times for one block, e.g. after a drag or a conflict resolution
+export interface BlockTimeChange {
+  uid: string;
+  startHour: number;
+  startMinute: number;
+  endHour: number;
+  endMinute: number;
+}
+
+// Changes made to one block in the calendar's edit popover
+export interface BlockEdit {
+  title: string; // text without the checkbox, time range and configured tags
+  start: number; // minutes from the start of the block's day, like TrackedInterval
+  end: number;
+  tag: TagConfig | null; // replaces every configured tag; null removes them
+  taskStatus: TaskStatus | null;
+}
+
+// Time slot proposed for an untimed TODO block by the auto-scheduler
+export interface ScheduleProposal extends BlockTimeChange {
+  title: string; // task text without the TODO marker
+}
+
+// Named day layout ("deep work day") that can be applied to any date
+export interface DayTemplateBlock {
+  title: string; // block text after the time range (may contain the tag)
+  startHour: number; // may be >= 24 for blocks in the extended range
+  startMinute: number;
+  endHour: number;
+  endMinute: number;
+  tag: string | null; // tag to add when it isn't already in the title (e.g. inherited from a parent)
+}
+
+export interface DayTemplate {
+  name: string;
+  blocks: DayTemplateBlock[];
+}
+
+export interface TimeBlockSettings extends BlockTextOptions {
   dayStartHour: number;
   dayEndHour: number;
   colorConfigs: ColorConfig[];
   defaultColor: string;
   hourHeight: number; // pixels per hour (default 60)
-  viewMode: "day" | "week"; // Calendar view mode
+  viewMode: "day" | "week" | "month"; // Calendar view mode
   weekStartDay: 0 | 1; // 0 = Sunday, 1 = Monday
   timeGranularity: number; // minutes per snap unit (default 15)
+  keyBindings: KeyBindings;
+}
+
+// TagConfig for one of a color's tags, written in the color's style
+export function colorConfigToTagConfig(config: ColorConfig, tag: string): TagConfig {
+  return {
+    tag,
+    color: config.color,
+    isPageRef: config.style === "pageRef",
+    attribute: config.style === "attribute" ? config.attribute?.trim() || DEFAULT_TAG_ATTRIBUTE : undefined,
+  };
 }
 
 // Helper to convert ColorConfig[] to TagConfig[] for scanning
@@ -47,7 +184,7 @@ export function colorConfigsToTagConfigs(colorConfigs: ColorConfig[]): TagConfig
   const result: TagConfig[] = [];
   for (const config of colorConfigs) {
     for (const tag of config.tags) {
-      result.push({ tag, color: config.color, isPageRef: false });
+      result.push(colorConfigToTagConfig(config, tag));
     }
   }
   return result;
@@ -99,6 +236,12 @@ declare global {
         block: { string: string; uid?: string };
       }) => Promise<void>;
       updateBlock: (args: { block: { uid: string; string: string } }) => Promise<void>;
+      moveBlock: (args: {
+        location: { "parent-uid": string; order: number | "last" };
+        block: { uid: string };
+      }) => Promise<void>;
+      deleteBlock: (args: { block: { uid: string } }) => Promise<void>;
+      createPage: (args: { page: { title: string; uid?: string } }) => Promise<void>;
       data?: {
         addPullWatch: (
           pattern: string,
@@ -116,9 +259,21 @@ declare global {
           addWindow: (args: { window: { type: string; "block-uid": string } }) => void;
         };
         getFocusedBlock: () => { "block-uid": string } | null;
+        commandPalette?: {
+          addCommand: (args: { label: string; callback: () => void }) => void;
+          removeCommand: (args: { label: string }) => void;
+        };
+        blockContextMenu?: {
+          addCommand: (args: {
+            label: string;
+            callback: (context: { "block-uid": string; "block-string": string }) => void;
+          }) => void;
+          removeCommand: (args: { label: string }) => void;
+        };
       };
       util: {
         dateToPageTitle: (date: Date) => string;
+        dateToPageUid: (date: Date) => string;
       };
     };
   }
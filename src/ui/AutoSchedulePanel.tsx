@@ -0,0 +1,71 @@
+/**
+ * AutoSchedulePanel - lists the slots proposed for untimed TODO blocks; the grid shows them as a preview
+ */
+import React, { useState } from "react";
+import type { UnscheduledTask } from "../core/autoScheduler";
+import type { ScheduleProposal } from "../types";
+import { formatTime } from "../core/timeParser";
+
+interface AutoSchedulePanelProps {
+  proposals: ScheduleProposal[];
+  unfitted: UnscheduledTask[];
+  onApply: () => Promise<void>;
+  onCancel: () => void;
+}
+
+export const AutoSchedulePanel: React.FC<AutoSchedulePanelProps> = ({ proposals, unfitted, onApply, onCancel }) => {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="tb-flex tb-flex-col tb-gap-1 tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px] tb-max-h-[40%] tb-overflow-y-auto">
+      {proposals.length === 0 && unfitted.length === 0 && (
+        <span className="tb-text-[var(--text-secondary,#888)]">No untimed TODOs on this page</span>
+      )}
+
+      {proposals.map((proposal) => (
+        <span key={proposal.uid} className="tb-truncate">
+          <span className="tb-font-semibold">
+            {formatTime(proposal.startHour, proposal.startMinute)}-{formatTime(proposal.endHour, proposal.endMinute)}
+          </span>{" "}
+          {proposal.title}
+        </span>
+      ))}
+
+      {unfitted.length > 0 && (
+        <div className="tb-flex tb-flex-col tb-gap-0.5 tb-text-[10px] tb-text-[#e65100]">
+          <span>No free slot left for:</span>
+          {unfitted.map((task) => (
+            <span key={task.uid} className="tb-truncate">
+              {task.title} ({task.durationMinutes} min)
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="tb-flex tb-gap-1">
+        <button
+          className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border-none tb-cursor-pointer tb-bg-blue-500 tb-text-white hover:tb-bg-blue-600 disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
+          onClick={handleApply}
+          disabled={proposals.length === 0 || isApplying}
+        >
+          {isApplying ? "Scheduling..." : `Schedule ${proposals.length}`}
+        </button>
+        <button
+          className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border tb-border-[var(--border-color,#ccc)] tb-bg-transparent tb-cursor-pointer tb-text-[var(--text-color,#333)] hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
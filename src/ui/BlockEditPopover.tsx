@@ -0,0 +1,171 @@
+/**
+ * BlockEditPopover - edit a block's title, times, tag and checkbox without leaving the calendar
+ * Opened by double-clicking a block in the day or week view.
+ */
+import React, { useState, useMemo } from "react";
+import type { BlockEdit, ColorConfig, TaskStatus, TimeBlockData } from "../types";
+import { colorConfigToTagConfig, colorConfigsToTagConfigs } from "../types";
+import { getBlockTitle } from "../core/blockCreator";
+import { formatTime, timeRangeToMinutes } from "../core/timeParser";
+
+interface BlockEditPopoverProps {
+  block: TimeBlockData;
+  colorConfigs: ColorConfig[];
+  onSave: (edit: BlockEdit) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const TASK_STATUS_OPTIONS: Array<{ status: TaskStatus | null; label: string }> = [
+  { status: null, label: "None" },
+  { status: "todo", label: "TODO" },
+  { status: "done", label: "DONE" },
+];
+
+const inputClassName =
+  "tb-text-[11px] tb-px-1 tb-py-0.5 tb-border tb-border-[var(--border-color,#ccc)] tb-rounded tb-bg-transparent tb-text-[var(--text-color,#333)]";
+
+// "14:30" -> 870 (null for an empty or partial input)
+function parseTimeInput(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export const BlockEditPopover: React.FC<BlockEditPopoverProps> = ({ block, colorConfigs, onSave, onDelete, onClose }) => {
+  const original = timeRangeToMinutes(block.timeRange);
+  // Blocks shown past midnight keep their day offset; the inputs show clock time
+  const dayOffset = Math.floor(original.start / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+
+  const tagOptions = useMemo(
+    () =>
+      colorConfigs.flatMap((config) =>
+        config.tags.map((tag) => ({ tag: colorConfigToTagConfig(config, tag), color: config.color }))
+      ),
+    [colorConfigs]
+  );
+
+  const [title, setTitle] = useState(() => getBlockTitle(block.text, colorConfigsToTagConfigs(colorConfigs)));
+  const [startValue, setStartValue] = useState(() => formatTime(Math.floor(original.start / 60) % 24, original.start % 60));
+  const [endValue, setEndValue] = useState(() => formatTime(Math.floor(original.end / 60) % 24, original.end % 60));
+  const [tagIndex, setTagIndex] = useState(() => tagOptions.findIndex((option) => option.tag.tag === block.tag?.tag));
+  const [taskStatus, setTaskStatus] = useState<TaskStatus | null>(block.taskStatus || null);
+
+  const start = parseTimeInput(startValue);
+  const end = parseTimeInput(endValue);
+  const canSave = start !== null && end !== null && start !== end;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const startMinutes = dayOffset + start;
+    // An end before the start is on the next day
+    const endMinutes = dayOffset + end + (end <= start ? MINUTES_PER_DAY : 0);
+    onSave({ title, start: startMinutes, end: endMinutes, tag: tagOptions[tagIndex]?.tag || null, taskStatus });
+  };
+
+  // Keep typing in the fields away from the calendar's keys (undo, Escape)
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "Enter" && (e.target as HTMLElement).tagName === "INPUT") {
+      handleSave();
+    }
+  };
+
+  return (
+    <div
+      className="tb-absolute tb-inset-0 tb-z-[20] tb-flex tb-items-center tb-justify-center tb-bg-black/30"
+      onClick={onClose}
+    >
+      <div
+        className="tb-flex tb-flex-col tb-gap-1.5 tb-w-[90%] tb-max-h-[90%] tb-overflow-y-auto tb-p-3 tb-rounded tb-shadow-lg tb-bg-[var(--background-color,#fff)] tb-text-[11px]"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="tb-flex tb-justify-between tb-items-center">
+          <span className="tb-font-semibold tb-text-[12px]">Edit block</span>
+          <button
+            className="tb-bg-transparent tb-border-none tb-cursor-pointer tb-p-0 tb-text-[var(--text-secondary,#666)] hover:tb-text-[#e53935]"
+            onClick={onClose}
+            title="Close (Esc)"
+          >
+            ✕
+          </button>
+        </div>
+
+        <input
+          type="text"
+          className={inputClassName}
+          placeholder="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          autoFocus
+        />
+
+        <div className="tb-flex tb-items-center tb-gap-1">
+          <input type="time" className={inputClassName} value={startValue} onChange={(e) => setStartValue(e.target.value)} title="Start" />
+          <span className="tb-text-[var(--text-secondary,#888)]">to</span>
+          <input type="time" className={inputClassName} value={endValue} onChange={(e) => setEndValue(e.target.value)} title="End" />
+        </div>
+
+        <div className="tb-flex tb-items-center tb-gap-1 tb-flex-wrap">
+          <span className="tb-text-[var(--text-secondary,#888)]">Tag</span>
+          <select className={`${inputClassName} tb-flex-1 tb-min-w-0`} value={tagIndex} onChange={(e) => setTagIndex(Number(e.target.value))}>
+            <option value={-1}>No tag</option>
+            {tagOptions.map((option, index) => (
+              <option key={index} value={index}>
+                {option.tag.tag}
+              </option>
+            ))}
+          </select>
+          {tagOptions[tagIndex] && (
+            <span className="tb-inline-block tb-w-3 tb-h-3 tb-rounded-sm" style={{ backgroundColor: tagOptions[tagIndex].color }} />
+          )}
+        </div>
+
+        <div className="tb-flex tb-items-center tb-gap-1">
+          <span className="tb-text-[var(--text-secondary,#888)]">Checkbox</span>
+          {TASK_STATUS_OPTIONS.map(({ status, label }) => (
+            <button
+              key={label}
+              className={`tb-px-1.5 tb-py-0.5 tb-rounded tb-text-[10px] tb-border tb-border-[var(--border-color,#ccc)] tb-cursor-pointer ${
+                taskStatus === status
+                  ? "tb-bg-blue-500 tb-text-white tb-border-blue-500"
+                  : "tb-bg-transparent tb-text-[var(--text-color,#333)] hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
+              }`}
+              onClick={() => setTaskStatus(status)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="tb-flex tb-items-center tb-gap-1 tb-mt-1">
+          <button
+            className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border-none tb-cursor-pointer tb-bg-blue-500 tb-text-white hover:tb-bg-blue-600 disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
+            onClick={handleSave}
+            disabled={!canSave}
+          >
+            Save
+          </button>
+          <button
+            className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border tb-border-[var(--border-color,#ccc)] tb-bg-transparent tb-cursor-pointer tb-text-[var(--text-color,#333)] hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <span className="tb-flex-1" />
+          <button
+            className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border tb-border-[#e53935] tb-bg-transparent tb-cursor-pointer tb-text-[#e53935] hover:tb-bg-[#e53935] hover:tb-text-white"
+            onClick={onDelete}
+            title="Delete the block and everything nested under it"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,106 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import ReactDOM from "react-dom/client";
-import type { RoamExtensionAPI, TimeBlockData, TimeBlockSettings, ColorConfig, TagConfig } from "../types";
-import { colorConfigsToTagConfigs } from "../types";
-import { loadSettings } from "../settings/settingsPanel";
-import { scanDateForTimeBlocks, scanWeekForTimeBlocks, getWeekStartDate } from "../core/blockScanner";
-import { createTimeBlock, updateBlockTag, removeBlockTag, removeBlockTimeAndTag, updateBlockTime } from "../core/blockCreator";
-import { getCurrentViewedDate, getPageTitleForDate, getBlockPageTitle, getDailyPageDate } from "../api/roamQueries";
-import { isLightColor, showToast, cleanupToastContainer } from "../core/utils";
+import type {
+  RoamExtensionAPI,
+  TimeBlockData,
+  TimeBlockSettings,
+  ColorConfig,
+  DayTemplate,
+  BlockTimeChange,
+  ActiveTimer,
+  KeyCommand,
+  BlockEdit,
+} from "../types";
+import { colorConfigsToTagConfigs, colorConfigToTagConfig, DEFAULT_BLOCK_TEXT_OPTIONS } from "../types";
+import {
+  loadSettings,
+  loadDayTemplates,
+  saveDayTemplates,
+  loadActiveTimer,
+  saveActiveTimer,
+} from "../settings/settingsPanel";
+import {
+  scanDateForTimeBlocks,
+  scanDateForBusyBlocks,
+  scanWeekForTimeBlocks,
+  scanDateRangeForTimeBlocks,
+  getWeekStartDate,
+  getMonthGridDates,
+  getDatesInRange,
+  diffWatchedPage,
+  applyTimeBlockChanges,
+} from "../core/blockScanner";
+import type { TimeBlockChanges } from "../core/blockScanner";
+import {
+  addBlockAttribute,
+  createTimeBlock,
+  updateBlockTag,
+  toggleBlockTag,
+  removeBlockTag,
+  removeBlockTimeAndTag,
+  updateBlockTime,
+  moveBlockToDate,
+  resolveDailyPlacement,
+  materializeOccurrence,
+  recordActualTime,
+  navigateToBlock,
+  getBlockTitle,
+  updateBlockTitle,
+  setBlockTaskStatus,
+  deleteTimeBlock,
+} from "../core/blockCreator";
+import {
+  getCurrentViewedDate,
+  getPageTitleForDate,
+  getBlockPageTitle,
+  getDailyPageDate,
+  ICS_UID_ATTRIBUTE,
+  PAGE_TREE_PULL_PATTERN,
+  RECURRING_TEMPLATES_PAGE,
+  getTodoBlocksOnPage,
+  getChildBlocks,
+  getBlockUidFromInput,
+  stripTaskMarker,
+} from "../api/roamQueries";
+import { isLightColor, showToast, cleanupToastContainer, formatIsoDate, isToday } from "../core/utils";
+import { downloadIcs, IcsEventSource } from "../core/icsExport";
+import type { ImportPreviewItem } from "../core/icsImport";
+import { createEditHistory, recordEdit, undoEdit, redoEdit } from "../core/editHistory";
+import { captureDayTemplate, applyDayTemplate } from "../core/dayTemplates";
+import { timeRangeToMinutes } from "../core/timeParser";
+import { detectConflicts, getConflictingUids, findNextFreeSlot } from "../core/conflicts";
+import { collectUnscheduledTasks, scheduleTasks, ScheduleResult } from "../core/autoScheduler";
+import { formatDuration } from "../core/timeStats";
+import { formatKeyBinding } from "../core/keyBindings";
 import { TimeGrid } from "./TimeGrid";
 import { WeekGrid } from "./WeekGrid";
+import { MonthGrid } from "./MonthGrid";
+import { ExportPanel } from "./ExportPanel";
+import { ImportPanel } from "./ImportPanel";
+import { StatsPanel } from "./StatsPanel";
+import { DayTemplatesPanel } from "./DayTemplatesPanel";
+import { ConflictsPanel, DayConflicts } from "./ConflictsPanel";
+import { AutoSchedulePanel } from "./AutoSchedulePanel";
+import { TimerBar } from "./TimerBar";
+import { KeyboardHelp } from "./KeyboardHelp";
+import { BlockEditPopover } from "./BlockEditPopover";
+
+// Longest date range that can be exported or summarised at once (days)
+const MAX_EXPORT_RANGE_DAYS = 366;
+
+// Timer sessions shorter than this aren't recorded (ms)
+const MIN_TRACKED_MS = 60 * 1000;
+
+// Blocks plus their direct children, for undo of tag edits (attribute-style tags live in child blocks)
+function withChildUids(uids: string[]): string[] {
+  return uids.flatMap((uid) => [uid, ...getChildBlocks(uid).map((child) => child.uid)]);
+}
+
+// A block and everything nested under it, children first, for undo of a delete
+// (undo restores in reverse order, so parents are recreated before their children)
+function withDescendantUids(uid: string): string[] {
+  return [...getChildBlocks(uid).flatMap((child) => withDescendantUids(child.uid)), uid];
+}
 
 function getDayBoundaryHour(dayEndHour: number): number {
   if (dayEndHour > 24) {
@@ -21,16 +113,33 @@ interface CalendarSidebarProps {
   extensionAPI: RoamExtensionAPI;
 }
 
+// Commands sent to the sidebar from Roam's command palette
+export type SidebarCommand = "toggleView" | "goToToday" | "exportView";
+
+// Set while a loaded sidebar can run commands; earlier commands wait in pendingSidebarCommand
+let sidebarCommandHandler: ((command: SidebarCommand) => void) | null = null;
+let pendingSidebarCommand: SidebarCommand | null = null;
+
 const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
   const [timeBlocks, setTimeBlocks] = useState<TimeBlockData[]>([]);
   const [weekBlocks, setWeekBlocks] = useState<Map<string, TimeBlockData[]>>(new Map());
+  const [monthBlocks, setMonthBlocks] = useState<Map<string, TimeBlockData[]>>(new Map());
+  const [blocksVersion, setBlocksVersion] = useState(0); // bumped on every rescan or watched edit
   const [settings, setSettings] = useState<TimeBlockSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [viewedDate, setViewedDate] = useState<Date>(new Date()); // The date being displayed
   const [displayTitle, setDisplayTitle] = useState("");
   const [selectedBlockUids, setSelectedBlockUids] = useState<Set<string>>(new Set());
   const [selectedTagIndex, setSelectedTagIndex] = useState<number>(0); // Remember selected tag for new blocks
-  const [viewMode, setViewMode] = useState<"day" | "week">("day"); // Current view mode
+  const [viewMode, setViewMode] = useState<TimeBlockSettings["viewMode"]>("day"); // Current view mode
+  const [activePanel, setActivePanel] = useState<
+    "schedule" | "conflicts" | "stats" | "templates" | "export" | "import" | null
+  >(null);
+  const [dayTemplates, setDayTemplates] = useState<DayTemplate[]>(() => loadDayTemplates(extensionAPI));
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(() => loadActiveTimer(extensionAPI));
+  const [now, setNow] = useState(() => Date.now()); // ticks while the timer runs
+  const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  const [editingBlock, setEditingBlock] = useState<{ block: TimeBlockData; date: Date } | null>(null); // edit popover
 
   // Track last focused block before user interacts with sidebar
   const lastFocusedBlockRef = useRef<string | null>(null);
@@ -40,6 +149,9 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
   const settingsRef = useRef(settings);
   settingsRef.current = settings;
 
+  // Undo/redo history - local to this sidebar instance
+  const historyRef = useRef(createEditHistory());
+
   // Capture focused block - extract UID from DOM active element (more reliable)
   const captureFocusedBlock = useCallback((force = false) => {
     // Throttle captures to avoid performance issues (except when forced)
@@ -55,23 +167,17 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
     }
 
     // Method 2: Fallback to DOM active element (Roam textarea has UID in id attribute)
-    const activeEl = document.activeElement;
-    if (activeEl?.id && activeEl.id.startsWith("block-input-")) {
-      // Roam textarea ID format: block-input-{windowId}-{blockUid} (UID is last 9 chars)
-      const blockUid = activeEl.id.substring(activeEl.id.length - 9);
-      if (blockUid.length === 9) {
-        lastFocusedBlockRef.current = blockUid;
-      }
+    const activeBlockUid = getBlockUidFromInput(document.activeElement);
+    if (activeBlockUid) {
+      lastFocusedBlockRef.current = activeBlockUid;
     }
 
     // Method 3: Find any focused textarea in Roam content
     if (!lastFocusedBlockRef.current) {
-      const focusedTextarea = document.querySelector(".roam-body-main textarea:focus, #right-sidebar textarea:focus") as HTMLTextAreaElement;
-      if (focusedTextarea?.id?.startsWith("block-input-")) {
-        const blockUid = focusedTextarea.id.substring(focusedTextarea.id.length - 9);
-        if (blockUid.length === 9) {
-          lastFocusedBlockRef.current = blockUid;
-        }
+      const focusedTextarea = document.querySelector(".roam-body-main textarea:focus, #right-sidebar textarea:focus");
+      const blockUid = getBlockUidFromInput(focusedTextarea);
+      if (blockUid) {
+        lastFocusedBlockRef.current = blockUid;
       }
     }
   }, []);
@@ -100,7 +206,7 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
       if (viewMode === "week") {
         // Week view: load 7 days starting from week start
         const weekStart = getWeekStartDate(viewedDate, currentSettings.weekStartDay);
-        const blocks = scanWeekForTimeBlocks(weekStart, tagConfigs, dayBoundaryHour);
+        const blocks = scanWeekForTimeBlocks(weekStart, tagConfigs, dayBoundaryHour, currentSettings);
         setWeekBlocks(blocks);
 
         // Format week range title
@@ -108,12 +214,26 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
         weekEnd.setDate(weekEnd.getDate() + 6);
         const formatShort = (d: Date) => `${d.getMonth() + 1}/${d.getDate()}`;
         setDisplayTitle(`${formatShort(weekStart)} - ${formatShort(weekEnd)}`);
+      } else if (viewMode === "month") {
+        // Month view: whole weeks covering the month, fetched in one query
+        const gridDates = getMonthGridDates(viewedDate, currentSettings.weekStartDay);
+        const blocks = scanDateRangeForTimeBlocks(
+          gridDates[0],
+          gridDates[gridDates.length - 1],
+          tagConfigs,
+          dayBoundaryHour,
+          true,
+          currentSettings
+        );
+        setMonthBlocks(blocks);
+        setDisplayTitle(viewedDate.toLocaleDateString(undefined, { month: "long", year: "numeric" }));
       } else {
         // Day view: load single day
-        const blocks = scanDateForTimeBlocks(viewedDate, tagConfigs, dayBoundaryHour);
+        const blocks = scanDateForTimeBlocks(viewedDate, tagConfigs, dayBoundaryHour, currentSettings);
         setTimeBlocks(blocks);
         setDisplayTitle(getPageTitleForDate(viewedDate));
       }
+      setBlocksVersion((version) => version + 1);
     } catch (error) {
       console.error("[TimeBlock] Error scanning for time blocks:", error);
     } finally {
@@ -124,20 +244,17 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
   // Global focus listener to track last focused Roam block and update viewed date
   useEffect(() => {
     const handleGlobalFocusIn = (e: FocusEvent) => {
-      const target = e.target as HTMLElement;
-      if (target?.id?.startsWith("block-input-")) {
-        const blockUid = target.id.substring(target.id.length - 9);
-        if (blockUid.length === 9) {
-          lastFocusedBlockRef.current = blockUid;
-
-          // Check which page this block belongs to
-          const pageTitle = getBlockPageTitle(blockUid);
-          if (pageTitle) {
-            const pageDate = getDailyPageDate(pageTitle);
-            if (pageDate) {
-              // Block belongs to a daily page - update viewed date
-              setViewedDate(pageDate);
-            }
+      const blockUid = getBlockUidFromInput(e.target as HTMLElement);
+      if (blockUid) {
+        lastFocusedBlockRef.current = blockUid;
+
+        // Check which page this block belongs to
+        const pageTitle = getBlockPageTitle(blockUid);
+        if (pageTitle) {
+          const pageDate = getDailyPageDate(pageTitle);
+          if (pageDate) {
+            // Block belongs to a daily page - update viewed date
+            setViewedDate(pageDate);
           }
         }
       }
@@ -186,45 +303,146 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
     }
   }, [settings, refreshTimeBlocks]);
 
-  // Watch for changes - optimized with longer debounce
+  // Watch every page shown in the current view and apply the before/after diff directly,
+  // so edits in the main window appear without rescanning
   useEffect(() => {
     if (!settings) return;
 
-    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    // Each watched page feeds the blocks of one displayed day (`key`), either as that day's own
+    // page or as the next-day page whose early blocks are shown at +24h
+    const watches: Array<{ pageTitle: string; key: string; isNextDay: boolean }> = [];
+    const dayBoundaryHour = getDayBoundaryHour(settings.dayEndHour);
+
+    const addDates = (dates: Date[], includeNextDay: boolean) => {
+      for (const date of dates) {
+        const key = getPageTitleForDate(date);
+        watches.push({ pageTitle: key, key, isNextDay: false });
+        if (includeNextDay && dayBoundaryHour > 0) {
+          const nextDay = new Date(date);
+          nextDay.setDate(nextDay.getDate() + 1);
+          watches.push({ pageTitle: getPageTitleForDate(nextDay), key, isNextDay: true });
+        }
+      }
+    };
+
+    if (viewMode === "week") {
+      const weekStart = getWeekStartDate(viewedDate, settings.weekStartDay);
+      const weekEnd = new Date(weekStart);
+      weekEnd.setDate(weekEnd.getDate() + 6);
+      addDates(getDatesInRange(weekStart, weekEnd), false);
+    } else if (viewMode === "month") {
+      addDates(getMonthGridDates(viewedDate, settings.weekStartDay), true);
+    } else {
+      addDates([viewedDate], true);
+    }
+
+    const tagConfigs = colorConfigsToTagConfigs(settings.colorConfigs);
+
+    const applyChanges = (key: string, changes: TimeBlockChanges) => {
+      if (changes.updated.length === 0 && changes.removedUids.length === 0) return;
+      setBlocksVersion((version) => version + 1);
 
-    const debouncedRefresh = () => {
-      if (debounceTimer) clearTimeout(debounceTimer);
-      debounceTimer = setTimeout(refreshTimeBlocks, 1500); // 1.5s debounce for typing
+      if (viewMode === "day") {
+        setTimeBlocks((prev) => applyTimeBlockChanges(prev, changes));
+        return;
+      }
+      const updateMap = (prev: Map<string, TimeBlockData[]>) => {
+        const blocks = prev.get(key) || [];
+        const next = applyTimeBlockChanges(blocks, changes);
+        return next === blocks ? prev : new Map(prev).set(key, next);
+      };
+      if (viewMode === "week") {
+        setWeekBlocks(updateMap);
+      } else {
+        setMonthBlocks(updateMap);
+      }
     };
 
-    const pageTitle = getPageTitleForDate(viewedDate);
-    const pullPattern = `[:block/string :block/uid]`;
-    const lookupRef = `[:node/title "${pageTitle}"]`;
+    let rescanTimer: ReturnType<typeof setTimeout> | null = null;
+    const watchIds: number[] = [];
 
-    let watchId: number | null = null;
+    for (const { pageTitle, key, isNextDay } of watches) {
+      const handleChange = (before: unknown, after: unknown) => {
+        try {
+          applyChanges(key, diffWatchedPage(before, after, tagConfigs, isNextDay, dayBoundaryHour, settings));
+        } catch (error) {
+          // Fall back to a full rescan if the diff can't be applied
+          console.error("[TimeBlock] Error applying page changes:", error);
+          if (rescanTimer) clearTimeout(rescanTimer);
+          rescanTimer = setTimeout(refreshTimeBlocks, 100);
+        }
+      };
+
+      try {
+        if (window.roamAlphaAPI.data?.addPullWatch) {
+          watchIds.push(
+            window.roamAlphaAPI.data.addPullWatch(PAGE_TREE_PULL_PATTERN, `[:node/title "${pageTitle}"]`, handleChange)
+          );
+        }
+      } catch (e) {
+        console.warn("[TimeBlock] Could not add pull watch:", e);
+      }
+    }
+
+    // Template edits can add or remove occurrences on any day, so rescan
     try {
       if (window.roamAlphaAPI.data?.addPullWatch) {
-        watchId = window.roamAlphaAPI.data.addPullWatch(pullPattern, lookupRef, debouncedRefresh);
+        watchIds.push(
+          window.roamAlphaAPI.data.addPullWatch(
+            PAGE_TREE_PULL_PATTERN,
+            `[:node/title "${RECURRING_TEMPLATES_PAGE}"]`,
+            () => {
+              if (rescanTimer) clearTimeout(rescanTimer);
+              rescanTimer = setTimeout(refreshTimeBlocks, 100);
+            }
+          )
+        );
       }
     } catch (e) {
       console.warn("[TimeBlock] Could not add pull watch:", e);
     }
 
     return () => {
-      if (debounceTimer) clearTimeout(debounceTimer);
-      if (watchId !== null && window.roamAlphaAPI.data?.removePullWatch) {
+      if (rescanTimer) clearTimeout(rescanTimer);
+      for (const watchId of watchIds) {
         try {
-          window.roamAlphaAPI.data.removePullWatch(watchId);
+          window.roamAlphaAPI.data?.removePullWatch(watchId);
         } catch (e) {
           // Ignore
         }
       }
     };
-  }, [settings, refreshTimeBlocks, viewedDate]);
+  }, [settings, refreshTimeBlocks, viewedDate, viewMode]);
 
   // Handle clicking on a time block - only for selection
+  // Copy a recurring occurrence to its daily page
+  const handleMaterializeOccurrence = useCallback(
+    async (block: TimeBlockData) => {
+      try {
+        await recordEdit(historyRef.current, [], () =>
+          materializeOccurrence(block, settingsRef.current?.newBlockTimeFormat || "24h")
+        );
+        showToast("Added recurring block to the daily page", "success");
+        // Small delay to let Roam commit the changes
+        setTimeout(refreshTimeBlocks, 100);
+      } catch (error) {
+        console.error("[TimeBlock] Error materializing recurring block:", error);
+        showToast("Failed to add recurring block", "error");
+      }
+    },
+    [refreshTimeBlocks]
+  );
+
   const handleBlockClick = useCallback(
     (uid: string, event: React.MouseEvent) => {
+      // Recurring occurrences can't be selected - clicking one materializes it
+      const displayedBlocks = viewMode === "week" ? [...weekBlocks.values()].flat() : timeBlocks;
+      const virtualBlock = displayedBlocks.find((block) => block.uid === uid && block.virtual);
+      if (virtualBlock) {
+        handleMaterializeOccurrence(virtualBlock);
+        return;
+      }
+
       const isMultiSelect = event.ctrlKey || event.metaKey || event.shiftKey;
 
       if (isMultiSelect) {
@@ -249,12 +467,13 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
         }
       }
     },
-    [selectedBlockUids]
+    [selectedBlockUids, viewMode, weekBlocks, timeBlocks, handleMaterializeOccurrence]
   );
 
   // Handle clicking on a tag button - select tag and optionally apply to selected blocks
+  // (Shift+click adds or removes the tag, keeping the blocks' other tags)
   const handleTagClick = useCallback(
-    async (config: ColorConfig, index: number) => {
+    async (config: ColorConfig, index: number, additive: boolean = false) => {
       const currentSettings = settingsRef.current;
       if (!currentSettings) return;
 
@@ -264,16 +483,24 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
       // If blocks are selected, apply the tag to them
       if (selectedBlockUids.size > 0 && config.tags.length > 0) {
         const tagConfigs = colorConfigsToTagConfigs(currentSettings.colorConfigs);
-        const tagConfig: TagConfig = { tag: config.tags[0], color: config.color, isPageRef: false };
-
-        for (const uid of selectedBlockUids) {
-          try {
-            await updateBlockTag(uid, tagConfig, tagConfigs);
-          } catch (error) {
-            console.error("[TimeBlock] Error updating block tag:", error);
-            showToast("Failed to update block tag", "error");
+        const tagConfig = colorConfigToTagConfig(config, config.tags[0]);
+
+        await recordEdit(historyRef.current, withChildUids(Array.from(selectedBlockUids)), async () => {
+          const createdUids: string[] = [];
+          for (const uid of selectedBlockUids) {
+            try {
+              if (additive) {
+                createdUids.push(...(await toggleBlockTag(uid, tagConfig)));
+              } else {
+                createdUids.push(...(await updateBlockTag(uid, tagConfig, tagConfigs)));
+              }
+            } catch (error) {
+              console.error("[TimeBlock] Error updating block tag:", error);
+              showToast("Failed to update block tag", "error");
+            }
           }
-        }
+          return createdUids;
+        });
         setSelectedBlockUids(new Set());
         // Small delay to let Roam commit the changes
         setTimeout(refreshTimeBlocks, 100);
@@ -289,14 +516,16 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
 
     const tagConfigs = colorConfigsToTagConfigs(currentSettings.colorConfigs);
 
-    for (const uid of selectedBlockUids) {
-      try {
-        await removeBlockTimeAndTag(uid, tagConfigs);
-      } catch (error) {
-        console.error("[TimeBlock] Error removing block tag:", error);
-        showToast("Failed to remove block", "error");
+    await recordEdit(historyRef.current, withChildUids(Array.from(selectedBlockUids)), async () => {
+      for (const uid of selectedBlockUids) {
+        try {
+          await removeBlockTimeAndTag(uid, tagConfigs);
+        } catch (error) {
+          console.error("[TimeBlock] Error removing block tag:", error);
+          showToast("Failed to remove block", "error");
+        }
       }
-    }
+    });
     setSelectedBlockUids(new Set());
     // Small delay to let Roam commit the changes
     setTimeout(refreshTimeBlocks, 100);
@@ -312,14 +541,16 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
       const uidsToUpdate = selectedBlockUids.has(uid) ? Array.from(selectedBlockUids) : [uid];
       const tagConfigs = colorConfigsToTagConfigs(currentSettings.colorConfigs);
 
-      for (const blockUid of uidsToUpdate) {
-        try {
-          await removeBlockTag(blockUid, tagConfigs);
-        } catch (error) {
-          console.error("[TimeBlock] Error removing block tag:", error);
-          showToast("Failed to remove tag", "error");
+      await recordEdit(historyRef.current, withChildUids(uidsToUpdate), async () => {
+        for (const blockUid of uidsToUpdate) {
+          try {
+            await removeBlockTag(blockUid, tagConfigs);
+          } catch (error) {
+            console.error("[TimeBlock] Error removing block tag:", error);
+            showToast("Failed to remove tag", "error");
+          }
         }
-      }
+      });
 
       setSelectedBlockUids(new Set());
       // Small delay to let Roam commit the changes
@@ -328,11 +559,27 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
     [selectedBlockUids, refreshTimeBlocks]
   );
 
-  // Handle dragging time block to change time
-  const handleBlockDrag = useCallback(
-    async (uid: string, newStartHour: number, newStartMinute: number, newEndHour: number, newEndMinute: number) => {
+  // Handle moving/resizing one or more blocks in a single undo step
+  // (week view passes the target day's date)
+  const handleBlocksDrag = useCallback(
+    async (changes: BlockTimeChange[], date: Date = viewedDate) => {
+      const textOptions = settingsRef.current || DEFAULT_BLOCK_TEXT_OPTIONS;
+      const tagConfigs = colorConfigsToTagConfigs(settingsRef.current?.colorConfigs || []);
       try {
-        await updateBlockTime(uid, newStartHour, newStartMinute, newEndHour, newEndMinute);
+        await recordEdit(
+          historyRef.current,
+          changes.map((change) => change.uid),
+          async () => {
+            const createdUids: string[] = [];
+            for (const { uid, startHour, startMinute, endHour, endMinute } of changes) {
+              // Blocks dragged across midnight or into another day column move to the daily page they now belong to
+              const placement = resolveDailyPlacement(date, startHour);
+              createdUids.push(...(await moveBlockToDate(uid, placement.date, tagConfigs, textOptions)));
+              await updateBlockTime(uid, startHour, startMinute, endHour, endMinute, textOptions);
+            }
+            return createdUids;
+          }
+        );
         // Small delay to let Roam commit the changes
         setTimeout(refreshTimeBlocks, 100);
       } catch (error) {
@@ -340,19 +587,49 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
         showToast("Failed to update block time", "error");
       }
     },
-    [refreshTimeBlocks]
+    [viewedDate, refreshTimeBlocks]
+  );
+
+  // Handle dragging time block to change time
+  const handleBlockDrag = useCallback(
+    (
+      uid: string,
+      newStartHour: number,
+      newStartMinute: number,
+      newEndHour: number,
+      newEndMinute: number,
+      date: Date = viewedDate
+    ) => {
+      const change = {
+        uid,
+        startHour: newStartHour,
+        startMinute: newStartMinute,
+        endHour: newEndHour,
+        endMinute: newEndMinute,
+      };
+      return handleBlocksDrag([change], date);
+    },
+    [viewedDate, handleBlocksDrag]
   );
 
   const handleCreateBlock = useCallback(
-    async (startHour: number, startMinute: number, endHour: number, endMinute: number) => {
+    async (startHour: number, startMinute: number, endHour: number, endMinute: number, date: Date = viewedDate) => {
       try {
         const currentSettings = settingsRef.current;
         // Get the selected tag from colorConfigs
         const tagsWithConfig = currentSettings?.colorConfigs.filter((c) => c.tags.length > 0) || [];
         const selectedConfig = tagsWithConfig[selectedTagIndex];
-        const tag = selectedConfig?.tags[0];
-
-        await createTimeBlock(startHour, startMinute, endHour, endMinute, lastFocusedBlockRef.current || undefined, tag);
+        const tag = selectedConfig ? colorConfigToTagConfig(selectedConfig, selectedConfig.tags[0]) : undefined;
+
+        await recordEdit(historyRef.current, [], async () => {
+          const uid = await createTimeBlock(startHour, startMinute, endHour, endMinute, {
+            siblingUid: lastFocusedBlockRef.current || undefined,
+            tag,
+            date,
+            timeFormat: currentSettings?.newBlockTimeFormat,
+          });
+          return withChildUids([uid]);
+        });
         // Don't clear ref - keep it so multiple blocks can be created at same location
         // The global focus listener will update it when user clicks elsewhere in Roam
         // Small delay to let Roam commit the changes
@@ -362,7 +639,136 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
         showToast("Failed to create block", "error");
       }
     },
-    [selectedTagIndex, refreshTimeBlocks]
+    [selectedTagIndex, viewedDate, refreshTimeBlocks]
+  );
+
+  // Day-view key commands that aren't moving or resizing (see TimeGrid.handleKeyDown)
+  const handleKeyCommand = useCallback(
+    (command: KeyCommand) => {
+      const currentSettings = settingsRef.current;
+      if (!currentSettings) return;
+
+      // Real blocks in time order, for Tab navigation and opening
+      const ordered = timeBlocks
+        .filter((block) => !block.virtual)
+        .sort((a, b) => timeRangeToMinutes(a.timeRange).start - timeRangeToMinutes(b.timeRange).start);
+      const selectedIndexes = ordered
+        .map((block, index) => (selectedBlockUids.has(block.uid) ? index : -1))
+        .filter((index) => index >= 0);
+
+      switch (command) {
+        case "selectNext":
+        case "selectPrevious": {
+          if (ordered.length === 0) return;
+          // Step from the last (or first) selected block, wrapping around the day
+          const step = command === "selectNext" ? 1 : -1;
+          const from =
+            selectedIndexes.length === 0 ? (step === 1 ? -1 : 0) : selectedIndexes[step === 1 ? selectedIndexes.length - 1 : 0];
+          const next = (from + step + ordered.length) % ordered.length;
+          setSelectedBlockUids(new Set([ordered[next].uid]));
+          break;
+        }
+        case "removeBlock":
+          handleRemoveTag();
+          break;
+        case "openBlock":
+          if (selectedIndexes.length > 0) navigateToBlock(ordered[selectedIndexes[0]].uid);
+          break;
+        case "newBlock": {
+          // From now on today, from the start of the day otherwise
+          const current = new Date();
+          const from = isToday(viewedDate) ? current.getHours() * 60 + current.getMinutes() : currentSettings.dayStartHour * 60;
+          const duration = currentSettings.defaultBlockMinutes;
+          // Untagged timed blocks aren't shown, but their time is taken too
+          const busyBlocks = scanDateForBusyBlocks(
+            viewedDate,
+            getDayBoundaryHour(currentSettings.dayEndHour),
+            currentSettings
+          );
+          const slot = findNextFreeSlot(
+            busyBlocks,
+            from,
+            duration,
+            currentSettings.dayStartHour,
+            currentSettings.dayEndHour,
+            currentSettings.timeGranularity
+          );
+          if (slot === null) {
+            showToast("No free slot left on this day", "info");
+            return;
+          }
+          const end = slot + duration;
+          handleCreateBlock(Math.floor(slot / 60), slot % 60, Math.floor(end / 60), end % 60);
+          break;
+        }
+        case "showHelp":
+          setShowKeyboardHelp((prev) => !prev);
+          break;
+      }
+    },
+    [timeBlocks, selectedBlockUids, viewedDate, handleRemoveTag, handleCreateBlock]
+  );
+
+  // 1-9: select the Nth colour's tag, applying it to the selected blocks
+  const handleTagKey = useCallback(
+    (index: number) => {
+      const config = settingsRef.current?.colorConfigs.filter((c) => c.tags.length > 0)[index];
+      if (config) handleTagClick(config, index);
+    },
+    [handleTagClick]
+  );
+
+  const handleUndo = useCallback(async () => {
+    try {
+      if (await undoEdit(historyRef.current)) {
+        setSelectedBlockUids(new Set());
+        // Small delay to let Roam commit the changes
+        setTimeout(refreshTimeBlocks, 100);
+      } else {
+        showToast("Nothing to undo", "info");
+      }
+    } catch (error) {
+      console.error("[TimeBlock] Error undoing edit:", error);
+      showToast("Failed to undo", "error");
+    }
+  }, [refreshTimeBlocks]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      if (await redoEdit(historyRef.current)) {
+        setSelectedBlockUids(new Set());
+        // Small delay to let Roam commit the changes
+        setTimeout(refreshTimeBlocks, 100);
+      } else {
+        showToast("Nothing to redo", "info");
+      }
+    } catch (error) {
+      console.error("[TimeBlock] Error redoing edit:", error);
+      showToast("Failed to redo", "error");
+    }
+  }, [refreshTimeBlocks]);
+
+  // Ctrl/Cmd+Z to undo, Shift+Ctrl/Cmd+Z to redo while the sidebar has focus (Esc closes the shortcut list)
+  const handleSidebarKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === "Escape" && showKeyboardHelp) {
+        e.preventDefault();
+        setShowKeyboardHelp(false);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      // Leave text inputs their native undo
+      if ((e.target as HTMLElement).closest("input, textarea, select")) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    },
+    [handleUndo, handleRedo, showKeyboardHelp]
   );
 
   // Clear selection when clicking outside
@@ -372,6 +778,9 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
 
   const handlePrevious = useCallback(() => {
     setViewedDate((prev) => {
+      if (viewMode === "month") {
+        return new Date(prev.getFullYear(), prev.getMonth() - 1, 1);
+      }
       const newDate = new Date(prev);
       if (viewMode === "week") {
         newDate.setDate(newDate.getDate() - 7);
@@ -384,6 +793,9 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
 
   const handleNext = useCallback(() => {
     setViewedDate((prev) => {
+      if (viewMode === "month") {
+        return new Date(prev.getFullYear(), prev.getMonth() + 1, 1);
+      }
       const newDate = new Date(prev);
       if (viewMode === "week") {
         newDate.setDate(newDate.getDate() + 7);
@@ -424,6 +836,146 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
     return { dates, titles };
   }, [viewedDate, settings, viewMode]);
 
+  // Overlapping blocks per displayed day (day and week view)
+  const dayConflicts = useMemo((): DayConflicts[] => {
+    if (viewMode === "week" && weekData) {
+      return weekData.dates.map((date, i) => {
+        const blocks = weekBlocks.get(weekData.titles[i]) || [];
+        return { date, blocks, conflicts: detectConflicts(blocks) };
+      });
+    }
+    if (viewMode === "day") {
+      return [{ date: viewedDate, blocks: timeBlocks, conflicts: detectConflicts(timeBlocks) }];
+    }
+    return [];
+  }, [viewMode, weekData, weekBlocks, timeBlocks, viewedDate]);
+
+  const conflictUids = useMemo(
+    () => getConflictingUids(dayConflicts.flatMap((day) => day.conflicts)),
+    [dayConflicts]
+  );
+  const conflictCount = dayConflicts.reduce((sum, day) => sum + day.conflicts.length, 0);
+
+  // Double-click: edit the block in a popover (with the date of the day it is shown on)
+  const handleBlockDoubleClick = useCallback(
+    (uid: string) => {
+      for (const { date, blocks } of dayConflicts) {
+        const block = blocks.find((b) => b.uid === uid);
+        if (block && !block.virtual) {
+          setEditingBlock({ block, date });
+          return;
+        }
+      }
+    },
+    [dayConflicts]
+  );
+
+  // Checkbox on a block: tick a TODO, untick a DONE
+  const handleToggleTask = useCallback(
+    async (uid: string) => {
+      const block = dayConflicts.flatMap((day) => day.blocks).find((b) => b.uid === uid);
+      if (!block?.taskStatus || block.virtual) return;
+
+      try {
+        await recordEdit(historyRef.current, [uid], () =>
+          setBlockTaskStatus(uid, block.taskStatus === "done" ? "todo" : "done")
+        );
+        // Small delay to let Roam commit the changes
+        setTimeout(refreshTimeBlocks, 100);
+      } catch (error) {
+        console.error("[TimeBlock] Error toggling task:", error);
+        showToast("Failed to update task", "error");
+      }
+    },
+    [dayConflicts, refreshTimeBlocks]
+  );
+
+  // Write the popover's changes, only the parts that changed, as one undo step
+  const handleSaveBlockEdit = useCallback(
+    async (edit: BlockEdit) => {
+      const currentSettings = settingsRef.current;
+      if (!editingBlock || !currentSettings) return;
+      const { block, date } = editingBlock;
+      setEditingBlock(null);
+
+      const tagConfigs = colorConfigsToTagConfigs(currentSettings.colorConfigs);
+      const { start, end } = timeRangeToMinutes(block.timeRange);
+
+      try {
+        await recordEdit(historyRef.current, withChildUids([block.uid]), async () => {
+          const createdUids: string[] = [];
+          if (edit.title.trim() !== getBlockTitle(block.text, tagConfigs)) {
+            await updateBlockTitle(block.uid, edit.title, tagConfigs);
+          }
+          if (edit.taskStatus !== (block.taskStatus || null)) {
+            await setBlockTaskStatus(block.uid, edit.taskStatus);
+          }
+          if (edit.tag?.tag !== block.tag?.tag) {
+            if (edit.tag) {
+              createdUids.push(...(await updateBlockTag(block.uid, edit.tag, tagConfigs)));
+            } else {
+              await removeBlockTag(block.uid, tagConfigs);
+            }
+          }
+          if (edit.start !== start || edit.end !== end) {
+            const startHour = Math.floor(edit.start / 60);
+            const newDate = resolveDailyPlacement(date, startHour).date;
+            createdUids.push(...(await moveBlockToDate(block.uid, newDate, tagConfigs, currentSettings)));
+            await updateBlockTime(
+              block.uid,
+              startHour,
+              edit.start % 60,
+              Math.floor(edit.end / 60),
+              edit.end % 60,
+              currentSettings
+            );
+          }
+          return createdUids;
+        });
+        // Small delay to let Roam commit the changes
+        setTimeout(refreshTimeBlocks, 100);
+      } catch (error) {
+        console.error("[TimeBlock] Error editing block:", error);
+        showToast("Failed to save block", "error");
+      }
+    },
+    [editingBlock, refreshTimeBlocks]
+  );
+
+  const handleDeleteBlock = useCallback(async () => {
+    if (!editingBlock) return;
+    const { uid } = editingBlock.block;
+    setEditingBlock(null);
+
+    try {
+      await recordEdit(historyRef.current, withDescendantUids(uid), () => deleteTimeBlock(uid));
+      setSelectedBlockUids((prev) => {
+        const next = new Set(prev);
+        next.delete(uid);
+        return next;
+      });
+      // Small delay to let Roam commit the changes
+      setTimeout(refreshTimeBlocks, 100);
+    } catch (error) {
+      console.error("[TimeBlock] Error deleting block:", error);
+      showToast("Failed to delete block", "error");
+    }
+  }, [editingBlock, refreshTimeBlocks]);
+
+  // Grid dates and page titles for MonthGrid
+  const monthData = useMemo(() => {
+    if (!settings || viewMode !== "month") return null;
+
+    const dates = getMonthGridDates(viewedDate, settings.weekStartDay);
+    return { dates, titles: dates.map(getPageTitleForDate) };
+  }, [viewedDate, settings, viewMode]);
+
+  // Drill into the day view from a month cell
+  const handleMonthDayClick = useCallback((date: Date) => {
+    setViewedDate(date);
+    setViewMode("day");
+  }, []);
+
   // Memoized week block count to avoid recalculating on every render
   const weekBlockCount = useMemo(() => {
     if (viewMode !== "week") return 0;
@@ -434,6 +986,373 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
     return total;
   }, [weekBlocks, viewMode]);
 
+  // Week containing the viewed date, for the statistics panel in either view mode
+  const statsWeek = useMemo(() => {
+    const start = getWeekStartDate(viewedDate, settings?.weekStartDay ?? 1);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 6);
+    return { start, end };
+  }, [viewedDate, settings?.weekStartDay]);
+
+  // Blocks for every day in a range, each including the next day's early blocks like the day view
+  const loadStatsDays = useCallback(
+    (startDate: Date, endDate: Date): TimeBlockData[][] => {
+      const currentSettings = settingsRef.current;
+      if (!currentSettings) return [];
+
+      const dates = getDatesInRange(startDate, endDate).slice(0, MAX_EXPORT_RANGE_DAYS);
+      if (dates.length === 0) return [];
+
+      const tagConfigs = colorConfigsToTagConfigs(currentSettings.colorConfigs);
+      const dayBoundaryHour = getDayBoundaryHour(currentSettings.dayEndHour);
+      const rangeBlocks = scanDateRangeForTimeBlocks(
+        dates[0],
+        dates[dates.length - 1],
+        tagConfigs,
+        dayBoundaryHour,
+        true,
+        currentSettings
+      );
+      return dates.map((date) => rangeBlocks.get(getPageTitleForDate(date)) || []);
+    },
+    []
+  );
+
+  // Export the blocks currently on screen (day or week) as .ics
+  const handleExportCurrent = useCallback(() => {
+    let events: IcsEventSource[];
+    let fileName: string;
+
+    if (viewMode === "week" && weekData) {
+      events = weekData.dates.flatMap((date, i) =>
+        (weekBlocks.get(weekData.titles[i]) || []).map((block) => ({ date, block }))
+      );
+      fileName = `timeblocks-week-${formatIsoDate(weekData.dates[0])}.ics`;
+    } else if (viewMode === "month" && monthData) {
+      // Skip the next day's early blocks (hours >= 24) - they are exported with their own day
+      events = monthData.dates
+        .filter((date) => date.getMonth() === viewedDate.getMonth())
+        .flatMap((date) =>
+          (monthBlocks.get(getPageTitleForDate(date)) || [])
+            .filter((block) => block.timeRange.startHour < 24)
+            .map((block) => ({ date, block }))
+        );
+      fileName = `timeblocks-${formatIsoDate(viewedDate).substring(0, 7)}.ics`;
+    } else {
+      events = timeBlocks.map((block) => ({ date: viewedDate, block }));
+      fileName = `timeblocks-${formatIsoDate(viewedDate)}.ics`;
+    }
+    // Recurring occurrences only exist in the calendar until they are materialized
+    events = events.filter(({ block }) => !block.virtual);
+
+    if (events.length === 0) {
+      showToast("No blocks to export", "info");
+      return;
+    }
+    downloadIcs(fileName, events);
+    showToast(`Exported ${events.length} blocks`, "success");
+  }, [viewMode, weekData, weekBlocks, monthData, monthBlocks, timeBlocks, viewedDate]);
+
+  // Export every daily page in a date range as .ics
+  const handleExportRange = useCallback((startDate: Date, endDate: Date) => {
+    const currentSettings = settingsRef.current;
+    if (!currentSettings) return;
+
+    const dates = getDatesInRange(startDate, endDate);
+    if (dates.length > MAX_EXPORT_RANGE_DAYS) {
+      showToast(`Date range is limited to ${MAX_EXPORT_RANGE_DAYS} days`, "error");
+      return;
+    }
+
+    try {
+      const tagConfigs = colorConfigsToTagConfigs(currentSettings.colorConfigs);
+      const rangeBlocks = scanDateRangeForTimeBlocks(
+        startDate,
+        endDate,
+        tagConfigs,
+        getDayBoundaryHour(currentSettings.dayEndHour),
+        false,
+        currentSettings
+      );
+      const events = dates.flatMap((date) =>
+        (rangeBlocks.get(getPageTitleForDate(date)) || [])
+          .filter((block) => !block.virtual)
+          .map((block) => ({ date, block }))
+      );
+
+      if (events.length === 0) {
+        showToast("No blocks in this date range", "info");
+        return;
+      }
+      downloadIcs(`timeblocks-${formatIsoDate(startDate)}-to-${formatIsoDate(endDate)}.ics`, events);
+      showToast(`Exported ${events.length} blocks`, "success");
+    } catch (error) {
+      console.error("[TimeBlock] Error exporting time blocks:", error);
+      showToast("Failed to export blocks", "error");
+    }
+  }, []);
+
+  // Import previewed calendar events as time blocks on their daily pages (one undo step)
+  const handleImportEvents = useCallback(
+    async (items: ImportPreviewItem[]) => {
+      let importedCount = 0;
+      try {
+        await recordEdit(historyRef.current, [], async () => {
+          const createdUids: string[] = [];
+          for (const { occurrence, tag } of items) {
+            const uid = await createTimeBlock(
+              occurrence.startHour,
+              occurrence.startMinute,
+              occurrence.endHour,
+              occurrence.endMinute,
+              {
+                tag: tag || undefined,
+                date: occurrence.date,
+                title: occurrence.summary,
+                useFocusedBlock: false,
+                timeFormat: settingsRef.current?.newBlockTimeFormat,
+              }
+            );
+            // Remember the event UID so re-importing the same file skips this event
+            await addBlockAttribute(uid, ICS_UID_ATTRIBUTE, occurrence.key);
+            createdUids.push(...withChildUids([uid]));
+            importedCount++;
+          }
+          return createdUids;
+        });
+        showToast(`Imported ${importedCount} events`, "success");
+      } catch (error) {
+        console.error("[TimeBlock] Error importing events:", error);
+        showToast(`Import failed after ${importedCount} events`, "error");
+      }
+      // Small delay to let Roam commit the changes
+      setTimeout(refreshTimeBlocks, 100);
+    },
+    [refreshTimeBlocks]
+  );
+
+  // Blocks of one day as the day view shows them, for template overlap checks
+  const loadDayBlocks = useCallback(
+    (date: Date): TimeBlockData[] => {
+      const currentSettings = settingsRef.current;
+      if (!currentSettings) return [];
+      return scanDateForTimeBlocks(
+        date,
+        colorConfigsToTagConfigs(currentSettings.colorConfigs),
+        getDayBoundaryHour(currentSettings.dayEndHour),
+        currentSettings
+      );
+    },
+    []
+  );
+
+  // Save the viewed day's blocks as a named template (replacing one with the same name)
+  const handleSaveDayTemplate = useCallback(
+    (name: string) => {
+      try {
+        const template = captureDayTemplate(name, loadDayBlocks(viewedDate));
+        if (template.blocks.length === 0) {
+          showToast("No blocks on this day to save", "info");
+          return;
+        }
+        const next = [...dayTemplates.filter((t) => t.name !== name), template];
+        setDayTemplates(next);
+        saveDayTemplates(extensionAPI, next);
+        showToast(`Saved "${name}" from ${getPageTitleForDate(viewedDate)} (${template.blocks.length} blocks)`, "success");
+      } catch (error) {
+        console.error("[TimeBlock] Error saving day template:", error);
+        showToast("Failed to save template", "error");
+      }
+    },
+    [dayTemplates, extensionAPI, loadDayBlocks, viewedDate]
+  );
+
+  const handleDeleteDayTemplate = useCallback(
+    (index: number) => {
+      const next = dayTemplates.filter((_, i) => i !== index);
+      setDayTemplates(next);
+      saveDayTemplates(extensionAPI, next);
+    },
+    [dayTemplates, extensionAPI]
+  );
+
+  const handleApplyDayTemplate = useCallback(
+    async (template: DayTemplate, date: Date, offsetMinutes: number) => {
+      try {
+        const currentSettings = settingsRef.current;
+        await recordEdit(historyRef.current, [], () =>
+          applyDayTemplate(
+            template,
+            date,
+            colorConfigsToTagConfigs(currentSettings?.colorConfigs || []),
+            offsetMinutes,
+            currentSettings?.newBlockTimeFormat
+          )
+        );
+        showToast(`Applied "${template.name}" to ${getPageTitleForDate(date)}`, "success");
+      } catch (error) {
+        console.error("[TimeBlock] Error applying day template:", error);
+        showToast("Failed to apply template", "error");
+      }
+      // Small delay to let Roam commit the changes
+      setTimeout(refreshTimeBlocks, 100);
+    },
+    [refreshTimeBlocks]
+  );
+
+  // Slots for the viewed day's untimed TODOs, recomputed while the auto-schedule preview is open
+  const scheduleResult = useMemo<ScheduleResult | null>(() => {
+    if (activePanel !== "schedule" || viewMode !== "day" || !settings) return null;
+    try {
+      const tasks = collectUnscheduledTasks(getTodoBlocksOnPage(getPageTitleForDate(viewedDate)));
+      const now = new Date();
+      // Today's tasks are only placed from now on
+      const earliestMinute = isToday(viewedDate) ? now.getHours() * 60 + now.getMinutes() : 0;
+      // Untagged timed blocks aren't shown, but their time is taken too
+      const busyBlocks = scanDateForBusyBlocks(viewedDate, getDayBoundaryHour(settings.dayEndHour), settings);
+      return scheduleTasks(
+        tasks,
+        busyBlocks,
+        settings.dayStartHour,
+        settings.dayEndHour,
+        settings.timeGranularity,
+        earliestMinute
+      );
+    } catch (error) {
+      console.error("[TimeBlock] Error scheduling TODO blocks:", error);
+      return { proposals: [], unfitted: [] };
+    }
+  }, [activePanel, viewMode, settings, viewedDate, blocksVersion]);
+
+  const handleApplySchedule = useCallback(async () => {
+    const proposals = scheduleResult?.proposals || [];
+    if (proposals.length === 0) return;
+    const textOptions = settingsRef.current || DEFAULT_BLOCK_TEXT_OPTIONS;
+    try {
+      await recordEdit(
+        historyRef.current,
+        proposals.map((proposal) => proposal.uid),
+        async () => {
+          for (const { uid, startHour, startMinute, endHour, endMinute } of proposals) {
+            await updateBlockTime(uid, startHour, startMinute, endHour, endMinute, textOptions);
+          }
+        }
+      );
+      showToast(`Scheduled ${proposals.length} TODO${proposals.length === 1 ? "" : "s"}`, "success");
+      setActivePanel(null);
+    } catch (error) {
+      console.error("[TimeBlock] Error applying schedule:", error);
+      showToast("Failed to schedule TODOs", "error");
+    }
+    // Small delay to let Roam commit the changes
+    setTimeout(refreshTimeBlocks, 100);
+  }, [scheduleResult, refreshTimeBlocks]);
+
+  // Tick once a second while the timer runs
+  useEffect(() => {
+    if (!activeTimer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer]);
+
+  // Stop the timer and record the session in the block's actual:: child
+  const handleStopTimer = useCallback(async () => {
+    if (!activeTimer) return;
+    setActiveTimer(null);
+    saveActiveTimer(extensionAPI, null);
+
+    const stoppedAt = Date.now();
+    if (stoppedAt - activeTimer.startedAt < MIN_TRACKED_MS) {
+      showToast("Timer stopped - under a minute, nothing recorded", "info");
+      return;
+    }
+
+    try {
+      await recordEdit(historyRef.current, withChildUids([activeTimer.blockUid]), () =>
+        recordActualTime(
+          activeTimer.blockUid,
+          new Date(activeTimer.startedAt),
+          new Date(stoppedAt),
+          settingsRef.current?.newBlockTimeFormat || "24h"
+        )
+      );
+      showToast(`Recorded ${formatDuration((stoppedAt - activeTimer.startedAt) / 60000)}`, "success");
+    } catch (error) {
+      console.error("[TimeBlock] Error recording tracked time:", error);
+      showToast("Failed to record tracked time", "error");
+    }
+    // Small delay to let Roam commit the changes
+    setTimeout(refreshTimeBlocks, 100);
+  }, [activeTimer, extensionAPI, refreshTimeBlocks]);
+
+  // Start the timer on the one selected block, recording any session that is still running
+  const handleStartTimer = useCallback(async () => {
+    if (selectedBlockUids.size !== 1) return;
+    const [uid] = selectedBlockUids;
+    const displayedBlocks = viewMode === "week" ? [...weekBlocks.values()].flat() : timeBlocks;
+    const block = displayedBlocks.find((b) => b.uid === uid && !b.virtual);
+    if (!block) return;
+
+    if (activeTimer) await handleStopTimer();
+
+    const timer: ActiveTimer = {
+      blockUid: uid,
+      title: stripTaskMarker(block.text.replace(block.timeRange.originalText, "")).trim(),
+      startedAt: Date.now(),
+    };
+    setActiveTimer(timer);
+    saveActiveTimer(extensionAPI, timer);
+    setSelectedBlockUids(new Set());
+  }, [selectedBlockUids, viewMode, weekBlocks, timeBlocks, activeTimer, handleStopTimer, extensionAPI]);
+
+  // The running session, drawn on its block in the day view (minutes from the viewed day's midnight)
+  const liveActual = useMemo(() => {
+    if (!activeTimer || viewMode !== "day") return undefined;
+    const midnight = new Date(viewedDate);
+    midnight.setHours(0, 0, 0, 0);
+    const toMinutes = (time: number) => (time - midnight.getTime()) / 60000;
+    return {
+      blockUid: activeTimer.blockUid,
+      interval: { start: toMinutes(activeTimer.startedAt), end: toMinutes(now) },
+    };
+  }, [activeTimer, viewMode, viewedDate, now]);
+
+  // Run commands from the command palette once the view has loaded
+  useEffect(() => {
+    if (!settings || isLoading) return;
+
+    const runCommand = (command: SidebarCommand) => {
+      switch (command) {
+        case "toggleView":
+          setViewMode((prev) => (prev === "day" ? "week" : "day"));
+          break;
+        case "goToToday":
+          handleGoToToday();
+          break;
+        case "exportView":
+          handleExportCurrent();
+          break;
+      }
+    };
+
+    sidebarCommandHandler = runCommand;
+    if (pendingSidebarCommand) {
+      const command = pendingSidebarCommand;
+      pendingSidebarCommand = null;
+      runCommand(command);
+    }
+    return () => {
+      sidebarCommandHandler = null;
+    };
+  }, [settings, isLoading, handleGoToToday, handleExportCurrent]);
+
+  // Stable tag list for panels that query the graph with it
+  const configuredTags = useMemo(
+    () => (settings ? colorConfigsToTagConfigs(settings.colorConfigs) : []),
+    [settings]
+  );
+
   if (!settings) {
     return (
       <div className="tb-flex tb-flex-col tb-flex-1 tb-min-h-0 tb-w-full tb-font-sans tb-text-xs tb-bg-[var(--background-color,#fff)]">
@@ -446,9 +1365,11 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
 
   return (
     <div
-      className="tb-flex tb-flex-col tb-flex-1 tb-min-h-0 tb-w-full tb-font-sans tb-text-xs tb-bg-[var(--background-color,#fff)]"
+      tabIndex={-1}
+      className="tb-relative tb-flex tb-flex-col tb-flex-1 tb-min-h-0 tb-w-full tb-font-sans tb-text-xs tb-bg-[var(--background-color,#fff)] focus:tb-outline-none"
       onMouseEnter={handleMouseEnter}
       onMouseMove={handleMouseMove}
+      onKeyDown={handleSidebarKeyDown}
     >
       {/* Header */}
       <div className="tb-flex tb-justify-between tb-items-center tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0">
@@ -457,7 +1378,7 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
           <button
             className="tb-bg-transparent tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-text-[var(--text-secondary,#666)] tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
             onClick={handlePrevious}
-            title={viewMode === "week" ? "Previous week" : "Previous day"}
+            title={viewMode === "month" ? "Previous month" : viewMode === "week" ? "Previous week" : "Previous day"}
           >
             <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
               <path d="M15.41 7.41L14 6l-6 6 6 6 1.41-1.41L10.83 12z" />
@@ -473,7 +1394,7 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
           <button
             className="tb-bg-transparent tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-text-[var(--text-secondary,#666)] tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
             onClick={handleNext}
-            title={viewMode === "week" ? "Next week" : "Next day"}
+            title={viewMode === "month" ? "Next month" : viewMode === "week" ? "Next week" : "Next day"}
           >
             <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
               <path d="M10 6L8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z" />
@@ -486,6 +1407,16 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
         </span>
 
         <div className="tb-flex tb-items-center tb-gap-1">
+          {/* Timer button - shown when one block is selected */}
+          {selectedBlockUids.size === 1 && activeTimer?.blockUid !== [...selectedBlockUids][0] && (
+            <button
+              className="tb-px-1.5 tb-py-0.5 tb-rounded tb-text-[10px] tb-font-medium tb-border-none tb-cursor-pointer tb-whitespace-nowrap tb-bg-blue-500 tb-text-white hover:tb-bg-blue-600"
+              onClick={handleStartTimer}
+              title="Start the timer on the selected block"
+            >
+              ▶
+            </button>
+          )}
           {/* Delete button - shown when blocks selected */}
           {selectedBlockUids.size > 0 && (
             <button
@@ -520,7 +1451,86 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
             >
               Week
             </button>
+            <button
+              className={`tb-px-2 tb-py-0.5 tb-text-[10px] tb-border-none tb-cursor-pointer tb-border-l tb-border-[var(--border-color,#ccc)] tb-transition-colors ${
+                viewMode === "month"
+                  ? "tb-bg-blue-500 tb-text-white"
+                  : "tb-bg-transparent tb-text-[var(--text-secondary,#666)] hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
+              }`}
+              onClick={() => setViewMode("month")}
+              title="Month view"
+            >
+              Month
+            </button>
           </div>
+          {viewMode === "day" && (
+            <button
+              className={`tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)] ${
+                activePanel === "schedule" ? "tb-bg-[var(--hover-bg,#f0f0f0)] tb-text-blue-500" : "tb-bg-transparent tb-text-[var(--text-secondary,#666)]"
+              }`}
+              onClick={() => setActivePanel((prev) => (prev === "schedule" ? null : "schedule"))}
+              title="Auto-schedule untimed TODOs"
+            >
+              <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+                <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
+              </svg>
+            </button>
+          )}
+          {conflictCount > 0 && (
+            <button
+              className={`tb-border-none tb-cursor-pointer tb-px-1 tb-py-0.5 tb-rounded tb-text-[10px] tb-font-medium tb-whitespace-nowrap hover:tb-bg-[var(--hover-bg,#f0f0f0)] tb-text-[#e53935] ${
+                activePanel === "conflicts" ? "tb-bg-[var(--hover-bg,#f0f0f0)]" : "tb-bg-transparent"
+              }`}
+              onClick={() => setActivePanel((prev) => (prev === "conflicts" ? null : "conflicts"))}
+              title="Overlapping blocks"
+            >
+              ⚠ {conflictCount}
+            </button>
+          )}
+          <button
+            className={`tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)] ${
+              activePanel === "stats" ? "tb-bg-[var(--hover-bg,#f0f0f0)] tb-text-blue-500" : "tb-bg-transparent tb-text-[var(--text-secondary,#666)]"
+            }`}
+            onClick={() => setActivePanel((prev) => (prev === "stats" ? null : "stats"))}
+            title="Time statistics"
+          >
+            <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+              <path d="M5 9.2h3V19H5zM10.6 5h2.8v14h-2.8zm5.6 8H19v6h-2.8z" />
+            </svg>
+          </button>
+          <button
+            className={`tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)] ${
+              activePanel === "templates" ? "tb-bg-[var(--hover-bg,#f0f0f0)] tb-text-blue-500" : "tb-bg-transparent tb-text-[var(--text-secondary,#666)]"
+            }`}
+            onClick={() => setActivePanel((prev) => (prev === "templates" ? null : "templates"))}
+            title="Day templates"
+          >
+            <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+              <path d="M3 13h8V3H3v10zm0 8h8v-6H3v6zm10 0h8V11h-8v10zm0-18v6h8V3h-8z" />
+            </svg>
+          </button>
+          <button
+            className={`tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)] ${
+              activePanel === "import" ? "tb-bg-[var(--hover-bg,#f0f0f0)] tb-text-blue-500" : "tb-bg-transparent tb-text-[var(--text-secondary,#666)]"
+            }`}
+            onClick={() => setActivePanel((prev) => (prev === "import" ? null : "import"))}
+            title="Import from calendar (.ics)"
+          >
+            <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+              <path d="M9 16h6v-6h4l-7-7-7 7h4zm-4 2h14v2H5z" />
+            </svg>
+          </button>
+          <button
+            className={`tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)] ${
+              activePanel === "export" ? "tb-bg-[var(--hover-bg,#f0f0f0)] tb-text-blue-500" : "tb-bg-transparent tb-text-[var(--text-secondary,#666)]"
+            }`}
+            onClick={() => setActivePanel((prev) => (prev === "export" ? null : "export"))}
+            title="Export to calendar (.ics)"
+          >
+            <svg viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+              <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z" />
+            </svg>
+          </button>
           <button
             className="tb-bg-transparent tb-border-none tb-cursor-pointer tb-p-1 tb-rounded tb-text-[var(--text-secondary,#666)] tb-flex tb-items-center tb-justify-center hover:tb-bg-[var(--hover-bg,#f0f0f0)] disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
             onClick={handleRefresh}
@@ -560,8 +1570,8 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
                   color: isLightColor(config.color) ? "#333" : "#fff",
                   borderColor: isSelected ? "white" : "transparent",
                 }}
-                onClick={() => handleTagClick(config, index)}
-                title={isSelected ? `Selected: #${config.tags[0]}` : `Select #${config.tags[0]}`}
+                onClick={(e) => handleTagClick(config, index, e.shiftKey)}
+                title={`${isSelected ? `Selected: #${config.tags[0]}` : `Select #${config.tags[0]}`} (Shift+click to add to or remove from the selected blocks)`}
               >
                 #{config.tags[0]}
               </button>
@@ -574,11 +1584,87 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
         )}
       </div>
 
+      {activeTimer && <TimerBar timer={activeTimer} now={now} onStop={handleStopTimer} />}
+
+      {/* Auto-schedule / conflicts / statistics / templates / export / import panels */}
+      {activePanel === "schedule" && scheduleResult && (
+        <AutoSchedulePanel
+          proposals={scheduleResult.proposals}
+          unfitted={scheduleResult.unfitted}
+          onApply={handleApplySchedule}
+          onCancel={() => setActivePanel(null)}
+        />
+      )}
+      {activePanel === "conflicts" && conflictCount > 0 && (
+        <ConflictsPanel
+          days={dayConflicts}
+          showDates={viewMode === "week"}
+          dayStartHour={settings.dayStartHour}
+          dayEndHour={settings.dayEndHour}
+          timeGranularity={settings.timeGranularity}
+          onResolve={handleBlocksDrag}
+        />
+      )}
+      {activePanel === "stats" && (
+        <StatsPanel
+          viewedDate={viewedDate}
+          weekStartDate={statsWeek.start}
+          weekEndDate={statsWeek.end}
+          colorConfigs={settings.colorConfigs}
+          dayStartHour={settings.dayStartHour}
+          dayEndHour={settings.dayEndHour}
+          loadDays={loadStatsDays}
+          blocksVersion={blocksVersion}
+        />
+      )}
+      {activePanel === "templates" && (
+        <DayTemplatesPanel
+          templates={dayTemplates}
+          defaultDate={viewedDate}
+          timeGranularity={settings.timeGranularity}
+          loadExistingBlocks={loadDayBlocks}
+          blocksVersion={blocksVersion}
+          onSave={handleSaveDayTemplate}
+          onDelete={handleDeleteDayTemplate}
+          onApply={handleApplyDayTemplate}
+        />
+      )}
+      {activePanel === "export" && (
+        <ExportPanel
+          viewLabel={viewMode}
+          defaultStartDate={weekData ? weekData.dates[0] : viewedDate}
+          defaultEndDate={weekData ? weekData.dates[6] : viewedDate}
+          onExportCurrent={handleExportCurrent}
+          onExportRange={handleExportRange}
+        />
+      )}
+      {activePanel === "import" && (
+        <ImportPanel
+          defaultStartDate={weekData ? weekData.dates[0] : viewedDate}
+          defaultEndDate={weekData ? weekData.dates[6] : viewedDate}
+          configuredTags={configuredTags}
+          blockTextOptions={settings}
+          onImport={handleImportEvents}
+        />
+      )}
+
       {/* Content */}
       {isLoading ? (
         <div className="tb-flex tb-items-center tb-justify-center tb-flex-1 tb-text-[var(--text-secondary,#666)]">
           Loading...
         </div>
+      ) : viewMode === "month" && monthData ? (
+        <MonthGrid
+          month={viewedDate.getMonth()}
+          gridDates={monthData.dates}
+          pageTitles={monthData.titles}
+          monthBlocks={monthBlocks}
+          colorConfigs={settings.colorConfigs}
+          dayStartHour={settings.dayStartHour}
+          dayEndHour={settings.dayEndHour}
+          weekStartDay={settings.weekStartDay}
+          onDayClick={handleMonthDayClick}
+        />
       ) : viewMode === "week" && weekData ? (
         <WeekGrid
           startHour={settings.dayStartHour}
@@ -588,9 +1674,16 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
           pageTitles={weekData.titles}
           onBlockClick={handleBlockClick}
           onBlockContextMenu={handleBlockContextMenu}
+          onBlockDoubleClick={handleBlockDoubleClick}
+          onToggleTask={handleToggleTask}
+          onBlockDrag={handleBlockDrag}
+          onCreateBlock={handleCreateBlock}
+          selectedTagColor={settings.colorConfigs.filter((c) => c.tags.length > 0)[selectedTagIndex]?.color}
           pixelsPerHour={settings.hourHeight}
           selectedBlockUids={selectedBlockUids}
           weekStartDay={settings.weekStartDay}
+          timeGranularity={settings.timeGranularity}
+          conflictUids={conflictUids}
         />
       ) : (
         <TimeGrid
@@ -599,21 +1692,45 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({ extensionAPI }) => {
           timeBlocks={timeBlocks}
           onBlockClick={handleBlockClick}
           onBlockContextMenu={handleBlockContextMenu}
+          onBlockDoubleClick={handleBlockDoubleClick}
+          onToggleTask={handleToggleTask}
           onBlockDrag={handleBlockDrag}
+          onBlocksDrag={handleBlocksDrag}
           onCreateBlock={handleCreateBlock}
           selectedTagColor={settings.colorConfigs.filter((c) => c.tags.length > 0)[selectedTagIndex]?.color}
           dayBoundaryHour={getDayBoundaryHour(settings.dayEndHour)}
           pixelsPerHour={settings.hourHeight}
           selectedBlockUids={selectedBlockUids}
           timeGranularity={settings.timeGranularity}
+          conflictUids={conflictUids}
+          schedulePreview={scheduleResult?.proposals}
+          liveActual={liveActual}
+          keyBindings={settings.keyBindings}
+          onKeyCommand={handleKeyCommand}
+          onTagKey={handleTagKey}
+        />
+      )}
+
+      {showKeyboardHelp && <KeyboardHelp keyBindings={settings.keyBindings} onClose={() => setShowKeyboardHelp(false)} />}
+
+      {editingBlock && (
+        <BlockEditPopover
+          key={editingBlock.block.uid}
+          block={editingBlock.block}
+          colorConfigs={settings.colorConfigs}
+          onSave={handleSaveBlockEdit}
+          onDelete={handleDeleteBlock}
+          onClose={() => setEditingBlock(null)}
         />
       )}
 
       {/* Footer */}
       <div className="tb-px-3 tb-py-1.5 tb-border-t tb-border-[var(--border-color,#e0e0e0)] tb-text-[10px] tb-text-[var(--text-secondary,#888)] tb-text-center tb-shrink-0">
-        {viewMode === "week"
+        {viewMode === "month"
+          ? "Click a day to open it"
+          : viewMode === "week"
           ? `${weekBlockCount} blocks this week`
-          : `${timeBlocks.length} blocks | Click to select | Ctrl+Click multi-select`}
+          : `${timeBlocks.length} blocks | Click to select | Ctrl+Click multi-select | ${formatKeyBinding(settings.keyBindings.showHelp)} shortcuts`}
       </div>
     </div>
   );
@@ -652,6 +1769,19 @@ export function renderSidebar(extensionAPI: RoamExtensionAPI): void {
   root.render(<CalendarSidebar extensionAPI={extensionAPI} />);
 }
 
+export function isSidebarOpen(): boolean {
+  return root !== null;
+}
+
+// Run a command in the sidebar, or once it has loaded if it was just opened
+export function runSidebarCommand(command: SidebarCommand): void {
+  if (sidebarCommandHandler) {
+    sidebarCommandHandler(command);
+  } else {
+    pendingSidebarCommand = command;
+  }
+}
+
 export function unmountSidebar(): void {
   if (root) {
     root.unmount();
@@ -662,6 +1792,7 @@ export function unmountSidebar(): void {
     container.parentNode.removeChild(container);
   }
   container = null;
+  pendingSidebarCommand = null;
 
   // Clean up toast container to prevent memory leaks
   cleanupToastContainer();
@@ -0,0 +1,103 @@
+/**
+ * ConflictsPanel - lists double-booked blocks and offers ways to resolve each overlap
+ */
+import React from "react";
+import type { BlockTimeChange, TimeBlockData } from "../types";
+import {
+  BlockConflict,
+  pushLaterBlocksDown,
+  shrinkEarlierBlock,
+  moveToNextFreeSlot,
+} from "../core/conflicts";
+import { formatTime } from "../core/timeParser";
+
+export interface DayConflicts {
+  date: Date;
+  blocks: TimeBlockData[];
+  conflicts: BlockConflict[];
+}
+
+interface ConflictsPanelProps {
+  days: DayConflicts[];
+  showDates: boolean; // label each conflict with its day (week view)
+  dayStartHour: number;
+  dayEndHour: number;
+  timeGranularity: number;
+  onResolve: (changes: BlockTimeChange[], date: Date) => void;
+}
+
+const buttonClassName =
+  "tb-px-1.5 tb-py-px tb-rounded tb-text-[10px] tb-border tb-border-[var(--border-color,#ccc)] tb-bg-transparent tb-cursor-pointer tb-text-[var(--text-color,#333)] hover:tb-bg-[var(--hover-bg,#f0f0f0)] disabled:tb-opacity-40 disabled:tb-cursor-not-allowed";
+
+function describeBlock(block: TimeBlockData): string {
+  const { startHour, startMinute, endHour, endMinute, originalText } = block.timeRange;
+  const label = block.text.replace(originalText, "").trim() || block.tag?.tag || "";
+  return `${formatTime(startHour, startMinute)}-${formatTime(endHour, endMinute)} ${label}`;
+}
+
+export const ConflictsPanel: React.FC<ConflictsPanelProps> = ({
+  days,
+  showDates,
+  dayStartHour,
+  dayEndHour,
+  timeGranularity,
+  onResolve,
+}) => {
+  return (
+    <div className="tb-flex tb-flex-col tb-gap-1.5 tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px] tb-max-h-[40%] tb-overflow-y-auto">
+      {days.flatMap(({ date, blocks, conflicts }) =>
+        conflicts.map((conflict) => {
+          const push = pushLaterBlocksDown(blocks, conflict, dayEndHour);
+          const shrink = shrinkEarlierBlock(conflict);
+          const move = moveToNextFreeSlot(blocks, conflict.later, dayStartHour, dayEndHour, timeGranularity);
+
+          return (
+            <div
+              key={`${date.getTime()}-${conflict.earlier.uid}-${conflict.later.uid}`}
+              className="tb-flex tb-flex-col tb-gap-0.5 tb-pl-1.5 tb-border-l-2 tb-border-[#e53935]"
+            >
+              {showDates && (
+                <span className="tb-text-[10px] tb-text-[var(--text-secondary,#888)]">
+                  {date.toLocaleDateString(undefined, { weekday: "short", month: "numeric", day: "numeric" })}
+                </span>
+              )}
+              <span className="tb-truncate">{describeBlock(conflict.earlier)}</span>
+              <span className="tb-truncate">{describeBlock(conflict.later)}</span>
+              <span className="tb-text-[10px] tb-text-[#e65100]">Overlap {conflict.overlapMinutes} min</span>
+              <div className="tb-flex tb-gap-1 tb-flex-wrap">
+                <button
+                  className={buttonClassName}
+                  onClick={() => onResolve(push, date)}
+                  disabled={push.length === 0}
+                  title={
+                    push.length === 0
+                      ? "Pushing the blocks down would run past the end of the day"
+                      : "Start the later block when the earlier one ends, pushing following blocks down"
+                  }
+                >
+                  Push down
+                </button>
+                <button
+                  className={buttonClassName}
+                  onClick={() => onResolve(shrink, date)}
+                  disabled={shrink.length === 0}
+                  title="End the earlier block when the later one starts"
+                >
+                  Shrink earlier
+                </button>
+                <button
+                  className={buttonClassName}
+                  onClick={() => onResolve(move, date)}
+                  disabled={move.length === 0}
+                  title="Move the later block to the next free slot of the same length"
+                >
+                  Next free slot
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+/**
+ * DayTemplatesPanel - save the current day as a named template and apply templates to other dates
+ * Overlaps with blocks already on the target date are listed and must be confirmed.
+ */
+import React, { useState, useMemo } from "react";
+import type { DayTemplate, TimeBlockData } from "../types";
+import { findTemplateOverlaps } from "../core/dayTemplates";
+import { formatTime } from "../core/timeParser";
+import { formatIsoDate, parseIsoDate } from "../core/utils";
+
+interface DayTemplatesPanelProps {
+  templates: DayTemplate[];
+  defaultDate: Date;
+  timeGranularity: number;
+  loadExistingBlocks: (date: Date) => TimeBlockData[];
+  blocksVersion: number; // changes when the blocks are rescanned or edited, to recheck overlaps
+  onSave: (name: string) => void;
+  onDelete: (index: number) => void;
+  onApply: (template: DayTemplate, date: Date, offsetMinutes: number) => Promise<void>;
+}
+
+const inputClassName =
+  "tb-text-[11px] tb-px-1 tb-py-0.5 tb-border tb-border-[var(--border-color,#ccc)] tb-rounded tb-bg-transparent tb-text-[var(--text-color,#333)]";
+
+export const DayTemplatesPanel: React.FC<DayTemplatesPanelProps> = ({
+  templates,
+  defaultDate,
+  timeGranularity,
+  loadExistingBlocks,
+  blocksVersion,
+  onSave,
+  onDelete,
+  onApply,
+}) => {
+  const [name, setName] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [dateValue, setDateValue] = useState(() => formatIsoDate(defaultDate));
+  const [offsetMinutes, setOffsetMinutes] = useState(0);
+  const [allowOverlaps, setAllowOverlaps] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const template = templates[selectedIndex] as DayTemplate | undefined;
+  const targetDate = parseIsoDate(dateValue);
+
+  const overlaps = useMemo(() => {
+    if (!template || !targetDate) return [];
+    try {
+      const existing = loadExistingBlocks(targetDate).filter((block) => !block.virtual);
+      return findTemplateOverlaps(template, offsetMinutes, existing);
+    } catch (error) {
+      console.error("[TimeBlock] Error checking template overlaps:", error);
+      return [];
+    }
+  }, [template, dateValue, offsetMinutes, loadExistingBlocks, blocksVersion]);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName("");
+  };
+
+  const handleApply = async () => {
+    if (!template || !targetDate) return;
+    setIsApplying(true);
+    try {
+      await onApply(template, targetDate, offsetMinutes);
+    } finally {
+      setIsApplying(false);
+      setAllowOverlaps(false);
+    }
+  };
+
+  const canApply = !!template && !!targetDate && !isApplying && (overlaps.length === 0 || allowOverlaps);
+
+  return (
+    <div className="tb-flex tb-flex-col tb-gap-1.5 tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px] tb-max-h-[40%] tb-overflow-y-auto">
+      {/* Save the current day */}
+      <div className="tb-flex tb-items-center tb-gap-1">
+        <input
+          type="text"
+          className={`${inputClassName} tb-flex-1 tb-min-w-0`}
+          placeholder="Template name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+        />
+        <button
+          className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border tb-border-[var(--border-color,#ccc)] tb-bg-transparent tb-cursor-pointer tb-text-[var(--text-color,#333)] hover:tb-bg-[var(--hover-bg,#f0f0f0)] disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          title="Save this day's blocks as a template"
+        >
+          Save day
+        </button>
+      </div>
+
+      {templates.length === 0 && (
+        <span className="tb-text-[var(--text-secondary,#888)]">No day templates yet</span>
+      )}
+
+      {templates.map((t, index) => (
+        <label key={index} className="tb-flex tb-items-center tb-gap-1 tb-cursor-pointer">
+          <input type="radio" checked={selectedIndex === index} onChange={() => setSelectedIndex(index)} />
+          <span className="tb-flex-1 tb-truncate">{t.name}</span>
+          <span className="tb-text-[var(--text-secondary,#888)]">{t.blocks.length} blocks</span>
+          <button
+            className="tb-bg-transparent tb-border-none tb-cursor-pointer tb-text-[var(--text-secondary,#888)] hover:tb-text-[#e53935]"
+            onClick={(e) => {
+              e.preventDefault();
+              onDelete(index);
+              setSelectedIndex(0);
+            }}
+            title="Delete template"
+          >
+            ✕
+          </button>
+        </label>
+      ))}
+
+      {/* Apply the selected template */}
+      {template && (
+        <>
+          <div className="tb-flex tb-items-center tb-gap-1 tb-flex-wrap">
+            <input type="date" className={inputClassName} value={dateValue} onChange={(e) => setDateValue(e.target.value)} title="Apply to date" />
+            <span className="tb-text-[var(--text-secondary,#888)]">shift</span>
+            <input
+              type="number"
+              className={`${inputClassName} tb-w-[56px]`}
+              value={offsetMinutes}
+              step={timeGranularity}
+              onChange={(e) => setOffsetMinutes(Math.round(Number(e.target.value)) || 0)}
+              title="Shift all times by this many minutes (negative for earlier)"
+            />
+            <span className="tb-text-[var(--text-secondary,#888)]">min</span>
+          </div>
+
+          {overlaps.length > 0 && (
+            <div className="tb-flex tb-flex-col tb-gap-0.5 tb-text-[10px] tb-text-[#e65100]">
+              {overlaps.map(({ block, conflicts }, index) => (
+                <span key={index} className="tb-truncate">
+                  {formatTime(block.startHour, block.startMinute)}-{formatTime(block.endHour, block.endMinute)}{" "}
+                  {block.title} overlaps{" "}
+                  {conflicts.map((c) => c.text.replace(c.timeRange.originalText, "").trim() || c.timeRange.originalText).join(", ")}
+                </span>
+              ))}
+              <label className="tb-flex tb-items-center tb-gap-1 tb-cursor-pointer tb-text-[var(--text-color,#333)]">
+                <input type="checkbox" checked={allowOverlaps} onChange={(e) => setAllowOverlaps(e.target.checked)} />
+                Create overlapping blocks anyway
+              </label>
+            </div>
+          )}
+
+          <button
+            className="tb-self-start tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border-none tb-cursor-pointer tb-bg-blue-500 tb-text-white hover:tb-bg-blue-600 disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
+            onClick={handleApply}
+            disabled={!canApply}
+          >
+            {isApplying ? "Applying..." : `Apply "${template.name}"`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+/**
+ * ExportPanel - export the current view or a date range as an .ics file
+ */
+import React, { useState } from "react";
+import { formatIsoDate, parseIsoDate } from "../core/utils";
+
+interface ExportPanelProps {
+  viewLabel: string; // "day", "week" or "month"
+  defaultStartDate: Date;
+  defaultEndDate: Date;
+  onExportCurrent: () => void;
+  onExportRange: (startDate: Date, endDate: Date) => void;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({
+  viewLabel,
+  defaultStartDate,
+  defaultEndDate,
+  onExportCurrent,
+  onExportRange,
+}) => {
+  const [startValue, setStartValue] = useState(() => formatIsoDate(defaultStartDate));
+  const [endValue, setEndValue] = useState(() => formatIsoDate(defaultEndDate));
+
+  const startDate = parseIsoDate(startValue);
+  const endDate = parseIsoDate(endValue);
+  const isRangeValid = startDate !== null && endDate !== null && startDate <= endDate;
+
+  return (
+    <div className="tb-flex tb-flex-col tb-gap-1.5 tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px]">
+      <button
+        className="tb-self-start tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border tb-border-[var(--border-color,#ccc)] tb-bg-transparent tb-cursor-pointer tb-text-[var(--text-color,#333)] hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
+        onClick={onExportCurrent}
+        title={`Download this ${viewLabel}'s blocks as .ics`}
+      >
+        Export this {viewLabel}
+      </button>
+      <div className="tb-flex tb-items-center tb-gap-1 tb-flex-wrap">
+        <input
+          type="date"
+          className="tb-text-[11px] tb-px-1 tb-py-0.5 tb-border tb-border-[var(--border-color,#ccc)] tb-rounded tb-bg-transparent tb-text-[var(--text-color,#333)]"
+          value={startValue}
+          onChange={(e) => setStartValue(e.target.value)}
+          title="Range start"
+        />
+        <span className="tb-text-[var(--text-secondary,#888)]">–</span>
+        <input
+          type="date"
+          className="tb-text-[11px] tb-px-1 tb-py-0.5 tb-border tb-border-[var(--border-color,#ccc)] tb-rounded tb-bg-transparent tb-text-[var(--text-color,#333)]"
+          value={endValue}
+          onChange={(e) => setEndValue(e.target.value)}
+          title="Range end"
+        />
+        <button
+          className="tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border-none tb-cursor-pointer tb-bg-blue-500 tb-text-white hover:tb-bg-blue-600 disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
+          onClick={() => startDate && endDate && onExportRange(startDate, endDate)}
+          disabled={!isRangeValid}
+          title="Download blocks in this date range as .ics"
+        >
+          Export range
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+/**
+ * ImportPanel - import events from a local .ics file into daily pages
+ * Shows a preview with duplicates (already imported) and conflicts with existing blocks
+ */
+import React, { useState, useMemo, useEffect } from "react";
+import type { BlockTextOptions, TagConfig } from "../types";
+import { parseIcs, expandIcsEvents, buildImportPreview, IcsEvent, ImportPreviewItem } from "../core/icsImport";
+import { formatTime } from "../core/timeParser";
+import { formatIsoDate, parseIsoDate, showToast } from "../core/utils";
+
+interface ImportPanelProps {
+  defaultStartDate: Date;
+  defaultEndDate: Date;
+  configuredTags: TagConfig[];
+  blockTextOptions: BlockTextOptions; // for reading the existing blocks checked for conflicts
+  onImport: (items: ImportPreviewItem[]) => Promise<void>;
+}
+
+const inputClassName =
+  "tb-text-[11px] tb-px-1 tb-py-0.5 tb-border tb-border-[var(--border-color,#ccc)] tb-rounded tb-bg-transparent tb-text-[var(--text-color,#333)]";
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({
+  defaultStartDate,
+  defaultEndDate,
+  configuredTags,
+  blockTextOptions,
+  onImport,
+}) => {
+  const [events, setEvents] = useState<IcsEvent[] | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [startValue, setStartValue] = useState(() => formatIsoDate(defaultStartDate));
+  const [endValue, setEndValue] = useState(() => formatIsoDate(defaultEndDate));
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const startDate = parseIsoDate(startValue);
+  const endDate = parseIsoDate(endValue);
+
+  // refreshKey re-runs the graph lookups (duplicates, conflicts) after an import
+  const { preview, truncatedEvents } = useMemo<{ preview: ImportPreviewItem[]; truncatedEvents: string[] }>(() => {
+    if (!events || !startDate || !endDate || startDate > endDate) return { preview: [], truncatedEvents: [] };
+    try {
+      const { occurrences, truncatedEvents } = expandIcsEvents(events, startDate, endDate);
+      return {
+        preview: buildImportPreview(occurrences, configuredTags, startDate, endDate, blockTextOptions),
+        truncatedEvents,
+      };
+    } catch (error) {
+      console.error("[TimeBlock] Error building import preview:", error);
+      return { preview: [], truncatedEvents: [] };
+    }
+  }, [events, startValue, endValue, configuredTags, blockTextOptions, refreshKey]);
+
+  // Select everything that isn't already imported whenever the preview changes
+  useEffect(() => {
+    setSelectedKeys(new Set(preview.filter((item) => !item.isDuplicate).map((item) => item.occurrence.key)));
+  }, [preview]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setEvents(parseIcs(String(reader.result || "")));
+      setFileName(file.name);
+    };
+    reader.onerror = () => {
+      console.error("[TimeBlock] Failed to read file:", reader.error);
+      showToast(`Failed to read ${file.name}`, "error");
+      // Clear the previous file's preview, and let the same file be picked again
+      setEvents(null);
+      setFileName("");
+      input.value = "";
+    };
+    reader.readAsText(file);
+  };
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(preview.filter((item) => !item.isDuplicate && selectedKeys.has(item.occurrence.key)));
+    } finally {
+      setIsImporting(false);
+      setRefreshKey((prev) => prev + 1);
+    }
+  };
+
+  const selectedCount = preview.filter((item) => !item.isDuplicate && selectedKeys.has(item.occurrence.key)).length;
+
+  return (
+    <div className="tb-flex tb-flex-col tb-gap-1.5 tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px] tb-max-h-[40%] tb-overflow-y-auto">
+      <div className="tb-flex tb-items-center tb-gap-1 tb-flex-wrap">
+        <input type="file" accept=".ics,text/calendar" className="tb-text-[10px] tb-max-w-[180px]" onChange={handleFileChange} />
+        {fileName && <span className="tb-text-[var(--text-secondary,#888)] tb-truncate">{fileName}</span>}
+      </div>
+      <div className="tb-flex tb-items-center tb-gap-1 tb-flex-wrap">
+        <input type="date" className={inputClassName} value={startValue} onChange={(e) => setStartValue(e.target.value)} title="Import from" />
+        <span className="tb-text-[var(--text-secondary,#888)]">–</span>
+        <input type="date" className={inputClassName} value={endValue} onChange={(e) => setEndValue(e.target.value)} title="Import until" />
+      </div>
+
+      {events && preview.length === 0 && (
+        <span className="tb-text-[var(--text-secondary,#888)]">No timed events in this date range</span>
+      )}
+
+      {truncatedEvents.length > 0 && (
+        <span className="tb-text-[10px] tb-text-[#e65100]">
+          Too many repetitions to expand, later occurrences are missing: {truncatedEvents.map((summary) => summary || "(no title)").join(", ")}
+        </span>
+      )}
+
+      {preview.map(({ occurrence, tag, isDuplicate, conflicts }) => (
+        <label
+          key={occurrence.key}
+          className={`tb-flex tb-items-start tb-gap-1 tb-cursor-pointer ${isDuplicate ? "tb-opacity-50" : ""}`}
+          title={isDuplicate ? "Already imported" : occurrence.summary}
+        >
+          <input
+            type="checkbox"
+            checked={!isDuplicate && selectedKeys.has(occurrence.key)}
+            disabled={isDuplicate}
+            onChange={() => toggleKey(occurrence.key)}
+          />
+          <span
+            className="tb-inline-block tb-w-2 tb-h-2 tb-rounded-full tb-mt-1 tb-shrink-0"
+            style={{ backgroundColor: tag?.color || "#cccccc" }}
+          />
+          <span className="tb-flex tb-flex-col tb-min-w-0">
+            <span className="tb-truncate">
+              <span className="tb-text-[var(--text-secondary,#888)]">
+                {occurrence.date.getMonth() + 1}/{occurrence.date.getDate()}{" "}
+                {formatTime(occurrence.startHour, occurrence.startMinute)}-{formatTime(occurrence.endHour, occurrence.endMinute)}
+              </span>{" "}
+              {occurrence.summary || "(no title)"}
+            </span>
+            {isDuplicate && <span className="tb-text-[10px] tb-text-[var(--text-secondary,#888)]">Already imported</span>}
+            {!isDuplicate && conflicts.length > 0 && (
+              <span className="tb-text-[10px] tb-text-[#e65100] tb-truncate">
+                Overlaps: {conflicts.map((block) => block.text.replace(block.timeRange.originalText, "").trim() || block.timeRange.originalText).join(", ")}
+              </span>
+            )}
+          </span>
+        </label>
+      ))}
+
+      {preview.length > 0 && (
+        <button
+          className="tb-self-start tb-px-2 tb-py-0.5 tb-rounded tb-text-[11px] tb-border-none tb-cursor-pointer tb-bg-blue-500 tb-text-white hover:tb-bg-blue-600 disabled:tb-opacity-50 disabled:tb-cursor-not-allowed"
+          onClick={handleImport}
+          disabled={selectedCount === 0 || isImporting}
+        >
+          {isImporting ? "Importing..." : `Import ${selectedCount} events`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+/**
+ * Inline time picker - typing ;;t or @time in a block offers the free slots of its daily page
+ * attachInlineTimePicker returns a function that removes its listeners.
+ */
+import React from "react";
+import ReactDOM from "react-dom/client";
+import type { RoamExtensionAPI } from "../types";
+import { loadSettings } from "../settings/settingsPanel";
+import { scanDateForBusyBlocks } from "../core/blockScanner";
+import { suggestFreeSlots, SlotSuggestion } from "../core/autoScheduler";
+import { formatTimeRange } from "../core/timeParser";
+import { formatDuration } from "../core/timeStats";
+import { isToday } from "../core/utils";
+import { getBlockPageTitle, getDailyPageDate, getBlockUidFromInput } from "../api/roamQueries";
+
+const TRIGGERS = [";;t", "@time"];
+const MENU_WIDTH = 200; // pixels
+const MENU_MAX_HEIGHT = 260; // pixels
+
+interface PickerState {
+  textarea: HTMLTextAreaElement;
+  triggerStart: number; // position of the trigger in the textarea's text
+  triggerEnd: number;
+  suggestions: SlotSuggestion[];
+  activeIndex: number;
+}
+
+// Trigger that ends at the caret, typed at the start of the text or after a space
+function findTrigger(text: string, caret: number): { start: number; end: number } | null {
+  const before = text.slice(0, caret).toLowerCase();
+  for (const trigger of TRIGGERS) {
+    const start = caret - trigger.length;
+    if (before.endsWith(trigger) && (start === 0 || /\s/.test(before[start - 1]))) {
+      return { start, end: caret };
+    }
+  }
+  return null;
+}
+
+// Free slots of the block's daily page (today's page for other blocks), from now on for today
+function getSuggestions(extensionAPI: RoamExtensionAPI, blockUid: string): SlotSuggestion[] {
+  const settings = loadSettings(extensionAPI);
+  const blockPageTitle = getBlockPageTitle(blockUid);
+  const date = (blockPageTitle && getDailyPageDate(blockPageTitle)) || new Date();
+  const dayBoundaryHour = settings.dayEndHour > 24 ? settings.dayEndHour - 24 : 0;
+  const blocks = scanDateForBusyBlocks(date, dayBoundaryHour, settings).filter((block) => block.uid !== blockUid);
+
+  const now = new Date();
+  const from = isToday(date) ? now.getHours() * 60 + now.getMinutes() : settings.dayStartHour * 60;
+  return suggestFreeSlots(
+    blocks,
+    from,
+    settings.defaultBlockMinutes,
+    settings.dayStartHour,
+    settings.dayEndHour,
+    settings.timeGranularity
+  );
+}
+
+// Slots past midnight are written as clock time ("23:30-00:00")
+function formatSuggestion({ start, end }: SlotSuggestion): string {
+  return formatTimeRange(Math.floor(start / 60) % 24, start % 60, Math.floor(end / 60) % 24, end % 60);
+}
+
+// Change a Roam textarea's text so that Roam's own input handling picks it up
+function setTextareaValue(textarea: HTMLTextAreaElement, value: string, caret: number): void {
+  const setValue = Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, "value")?.set;
+  setValue?.call(textarea, value);
+  textarea.dispatchEvent(new Event("input", { bubbles: true }));
+  textarea.setSelectionRange(caret, caret);
+}
+
+interface TimePickerMenuProps {
+  suggestions: SlotSuggestion[];
+  activeIndex: number;
+  onChoose: (index: number) => void;
+  onHover: (index: number) => void;
+}
+
+const TimePickerMenu: React.FC<TimePickerMenuProps> = ({ suggestions, activeIndex, onChoose, onHover }) => (
+  <div
+    className="tb-flex tb-flex-col tb-py-1 tb-rounded tb-shadow-lg tb-border tb-border-[var(--border-color,#e0e0e0)] tb-bg-[var(--background-color,#fff)] tb-text-[12px] tb-overflow-y-auto"
+    style={{ maxHeight: MENU_MAX_HEIGHT }}
+    // Keep the focus (and the caret) in the block while clicking
+    onMouseDown={(e) => e.preventDefault()}
+  >
+    {suggestions.length === 0 && (
+      <span className="tb-px-2 tb-py-1 tb-text-[var(--text-secondary,#888)]">No free slot left on this day</span>
+    )}
+    {suggestions.map((suggestion, index) => (
+      <React.Fragment key={`${suggestion.start}-${suggestion.end}`}>
+        {(index === 0 || suggestions[index - 1].kind !== suggestion.kind) && (
+          <span className="tb-px-2 tb-pt-1 tb-text-[10px] tb-uppercase tb-text-[var(--text-secondary,#888)]">
+            {suggestion.kind === "next" ? "Next free" : "Other lengths"}
+          </span>
+        )}
+        <div
+          className={`tb-flex tb-justify-between tb-gap-2 tb-px-2 tb-py-0.5 tb-cursor-pointer ${
+            index === activeIndex ? "tb-bg-blue-500 tb-text-white" : ""
+          }`}
+          onMouseEnter={() => onHover(index)}
+          onClick={() => onChoose(index)}
+        >
+          <span className="tb-font-semibold">{formatSuggestion(suggestion)}</span>
+          <span className="tb-opacity-70">{formatDuration(suggestion.end - suggestion.start)}</span>
+        </div>
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+export function attachInlineTimePicker(extensionAPI: RoamExtensionAPI): () => void {
+  let state: PickerState | null = null;
+  let container: HTMLDivElement | null = null;
+  let root: ReactDOM.Root | null = null;
+
+  const close = () => {
+    state = null;
+    root?.unmount();
+    root = null;
+    container?.remove();
+    container = null;
+  };
+
+  const choose = (index: number) => {
+    const current = state;
+    const suggestion = current?.suggestions[index];
+    close();
+    if (!current || !suggestion || !current.textarea.isConnected) return;
+
+    const { textarea, triggerStart, triggerEnd } = current;
+    const after = textarea.value.slice(triggerEnd);
+    const inserted = formatSuggestion(suggestion) + (/^\s/.test(after) ? "" : " ");
+    setTextareaValue(textarea, textarea.value.slice(0, triggerStart) + inserted + after, triggerStart + inserted.length);
+  };
+
+  const render = () => {
+    if (!state) return;
+    if (!container) {
+      container = document.createElement("div");
+      container.id = "timeblock-time-picker";
+      container.style.position = "fixed";
+      container.style.zIndex = "1000";
+      container.style.width = `${MENU_WIDTH}px`;
+      document.body.appendChild(container);
+      root = ReactDOM.createRoot(container);
+    }
+
+    // Below the block, or above it when there is no room
+    const rect = state.textarea.getBoundingClientRect();
+    const fitsBelow = rect.bottom + MENU_MAX_HEIGHT + 4 <= window.innerHeight;
+    container.style.left = `${Math.min(rect.left, window.innerWidth - MENU_WIDTH - 4)}px`;
+    container.style.top = fitsBelow ? `${rect.bottom + 4}px` : "";
+    container.style.bottom = fitsBelow ? "" : `${window.innerHeight - rect.top + 4}px`;
+
+    root?.render(
+      <TimePickerMenu
+        suggestions={state.suggestions}
+        activeIndex={state.activeIndex}
+        onChoose={choose}
+        onHover={(index) => {
+          if (state) {
+            state.activeIndex = index;
+            render();
+          }
+        }}
+      />
+    );
+  };
+
+  // Open when a trigger is typed, close when it is gone
+  const handleInput = (e: Event) => {
+    const textarea = e.target as HTMLTextAreaElement;
+    const blockUid = getBlockUidFromInput(textarea);
+    if (!blockUid) return;
+
+    const trigger = findTrigger(textarea.value, textarea.selectionStart);
+    if (!trigger) {
+      if (state?.textarea === textarea) close();
+      return;
+    }
+    if (state?.textarea === textarea && state.triggerStart === trigger.start) return;
+
+    try {
+      state = {
+        textarea,
+        triggerStart: trigger.start,
+        triggerEnd: trigger.end,
+        suggestions: getSuggestions(extensionAPI, blockUid),
+        activeIndex: 0,
+      };
+      render();
+    } catch (error) {
+      console.error("[TimeBlock] Error suggesting times:", error);
+      close();
+    }
+  };
+
+  // Captured before Roam sees the keys, so Enter and Escape don't leave the block
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!state || e.target !== state.textarea) return;
+
+    const count = state.suggestions.length;
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (count === 0) return;
+        state.activeIndex = (state.activeIndex + (e.key === "ArrowDown" ? 1 : count - 1)) % count;
+        render();
+        break;
+      case "Enter":
+      case "Tab":
+        if (count === 0) return;
+        choose(state.activeIndex);
+        break;
+      case "Escape":
+        close();
+        break;
+      case "ArrowLeft":
+      case "ArrowRight":
+      case "Home":
+      case "End":
+        // The caret leaves the trigger
+        close();
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleFocusOut = (e: FocusEvent) => {
+    if (state && e.target === state.textarea) close();
+  };
+
+  document.addEventListener("input", handleInput, true);
+  window.addEventListener("keydown", handleKeyDown, true);
+  document.addEventListener("focusout", handleFocusOut, true);
+
+  return () => {
+    document.removeEventListener("input", handleInput, true);
+    window.removeEventListener("keydown", handleKeyDown, true);
+    document.removeEventListener("focusout", handleFocusOut, true);
+    close();
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * KeyboardHelp - overlay listing the day view's key bindings, opened with "?"
+ */
+import React from "react";
+import type { KeyBindings } from "../types";
+import { KEY_COMMANDS, formatKeyBinding } from "../core/keyBindings";
+
+interface KeyboardHelpProps {
+  keyBindings: KeyBindings;
+  onClose: () => void;
+}
+
+const KEY_CLASS =
+  "tb-inline-block tb-min-w-[20px] tb-px-1 tb-rounded tb-border tb-border-[var(--border-color,#ccc)] tb-bg-[var(--hover-bg,#f5f5f5)] tb-text-center tb-font-mono tb-text-[10px]";
+
+export const KeyboardHelp: React.FC<KeyboardHelpProps> = ({ keyBindings, onClose }) => (
+  <div
+    className="tb-absolute tb-inset-0 tb-z-[20] tb-flex tb-items-center tb-justify-center tb-bg-black/30"
+    onClick={onClose}
+  >
+    <div
+      className="tb-flex tb-flex-col tb-gap-1 tb-w-[90%] tb-max-h-[90%] tb-overflow-y-auto tb-p-3 tb-rounded tb-shadow-lg tb-bg-[var(--background-color,#fff)] tb-text-[11px]"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="tb-flex tb-justify-between tb-items-center tb-mb-1">
+        <span className="tb-font-semibold tb-text-[12px]">Keyboard shortcuts</span>
+        <button
+          className="tb-bg-transparent tb-border-none tb-cursor-pointer tb-p-0 tb-text-[var(--text-secondary,#666)] hover:tb-text-[#e53935]"
+          onClick={onClose}
+          title="Close (Esc)"
+        >
+          ✕
+        </button>
+      </div>
+      {KEY_COMMANDS.map(({ command, label }) => (
+        <div key={command} className="tb-flex tb-justify-between tb-gap-2">
+          <span>{label}</span>
+          <span className={KEY_CLASS}>{formatKeyBinding(keyBindings[command])}</span>
+        </div>
+      ))}
+      <div className="tb-flex tb-justify-between tb-gap-2">
+        <span>Apply the Nth color's tag</span>
+        <span className={KEY_CLASS}>1-9</span>
+      </div>
+      <div className="tb-flex tb-justify-between tb-gap-2">
+        <span>Undo / redo</span>
+        <span className={KEY_CLASS}>Ctrl+Z / Shift+Ctrl+Z</span>
+      </div>
+      <span className="tb-mt-1 tb-text-[10px] tb-text-[var(--text-secondary,#888)]">
+        Click the calendar first. Change the keys in the TimeBlock settings.
+      </span>
+    </div>
+  </div>
+);
@@ -0,0 +1,108 @@
+/**
+ * MonthGrid - month overview with one cell per day
+ * Each cell shows a bar per tag colour proportional to the scheduled minutes, plus the block count
+ */
+import React, { useMemo } from "react";
+import type { ColorConfig, TimeBlockData } from "../types";
+import { calculateTimeStats, formatDuration } from "../core/timeStats";
+import { timeRangeToMinutes } from "../core/timeParser";
+import { isToday } from "../core/utils";
+
+interface MonthGridProps {
+  month: number; // 0-11, days outside it are dimmed
+  gridDates: Date[]; // whole weeks covering the month
+  pageTitles: string[];
+  monthBlocks: Map<string, TimeBlockData[]>;
+  colorConfigs: ColorConfig[];
+  dayStartHour: number;
+  dayEndHour: number;
+  weekStartDay: 0 | 1;
+  onDayClick: (date: Date) => void;
+}
+
+const DAY_NAMES_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_NAMES_MON_START = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export const MonthGrid: React.FC<MonthGridProps> = ({
+  month,
+  gridDates,
+  pageTitles,
+  monthBlocks,
+  colorConfigs,
+  dayStartHour,
+  dayEndHour,
+  weekStartDay,
+  onDayClick,
+}) => {
+  const dayStats = useMemo(
+    () =>
+      pageTitles.map((title) => {
+        const blocks = monthBlocks.get(title) || [];
+        // Count what the day view would show, so early blocks aren't counted on two days
+        const blockCount = blocks.filter((block) => {
+          const { start, end } = timeRangeToMinutes(block.timeRange);
+          return end > dayStartHour * 60 && start < dayEndHour * 60;
+        }).length;
+        return { blockCount, stats: calculateTimeStats([blocks], colorConfigs, dayStartHour, dayEndHour) };
+      }),
+    [pageTitles, monthBlocks, colorConfigs, dayStartHour, dayEndHour]
+  );
+
+  const dayNames = weekStartDay === 1 ? DAY_NAMES_MON_START : DAY_NAMES_SHORT;
+
+  return (
+    <div className="tb-flex tb-flex-col tb-flex-1 tb-overflow-y-auto">
+      {/* Day name headers */}
+      <div className="tb-grid tb-grid-cols-7 tb-shrink-0 tb-border-b tb-border-[var(--border-color,#e0e0e0)]">
+        {dayNames.map((name) => (
+          <div key={name} className="tb-text-center tb-py-1 tb-text-[10px] tb-text-[var(--text-secondary,#888)]">
+            {name}
+          </div>
+        ))}
+      </div>
+
+      <div className="tb-grid tb-grid-cols-7">
+        {gridDates.map((date, i) => {
+          const { blockCount, stats } = dayStats[i];
+          const today = isToday(date);
+          const inMonth = date.getMonth() === month;
+          const groups = stats.groups.filter((group) => group.minutes > 0);
+
+          return (
+            <div
+              key={i}
+              className={`tb-flex tb-flex-col tb-gap-0.5 tb-min-h-[56px] tb-p-1 tb-border-b tb-border-r tb-border-[var(--border-color,#e0e0e0)] tb-cursor-pointer hover:tb-bg-[var(--hover-bg,#f0f0f0)] ${
+                today ? "tb-bg-blue-50" : ""
+              } ${inMonth ? "" : "tb-opacity-40"}`}
+              onClick={() => onDayClick(date)}
+              title={
+                blockCount > 0
+                  ? `${pageTitles[i]}: ${blockCount} blocks, ${formatDuration(stats.plannedMinutes)} planned`
+                  : pageTitles[i]
+              }
+            >
+              <div className="tb-flex tb-items-center tb-justify-between">
+                <span
+                  className={`tb-text-[11px] tb-font-semibold ${today ? "tb-text-blue-600" : "tb-text-[var(--text-color,#333)]"}`}
+                >
+                  {date.getDate()}
+                </span>
+                {blockCount > 0 && <span className="tb-text-[9px] tb-text-[var(--text-secondary,#888)]">{blockCount}</span>}
+              </div>
+              {groups.map((group, index) => (
+                <div
+                  key={index}
+                  className="tb-h-1 tb-rounded-sm"
+                  style={{
+                    width: `${Math.max(8, Math.min(100, (group.minutes / stats.availableMinutes) * 100))}%`,
+                    backgroundColor: group.color,
+                  }}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+/**
+ * StatsPanel - planned hours per colour group and tag for the day, the week or a date range,
+ * how much of the planned task time is done, and how the time tracked with the timer compares with the plan
+ */
+import React, { useState, useMemo } from "react";
+import type { ColorConfig, TimeBlockData } from "../types";
+import { calculateTimeStats, formatDrift, formatDuration } from "../core/timeStats";
+import { formatIsoDate, parseIsoDate } from "../core/utils";
+
+type StatsScope = "day" | "week" | "range";
+
+interface StatsPanelProps {
+  viewedDate: Date;
+  weekStartDate: Date;
+  weekEndDate: Date;
+  colorConfigs: ColorConfig[];
+  dayStartHour: number;
+  dayEndHour: number;
+  loadDays: (startDate: Date, endDate: Date) => TimeBlockData[][]; // one entry per day, times relative to that day
+  blocksVersion: number; // changes when the blocks are rescanned or edited, to recalculate
+}
+
+const inputClassName =
+  "tb-text-[11px] tb-px-1 tb-py-0.5 tb-border tb-border-[var(--border-color,#ccc)] tb-rounded tb-bg-transparent tb-text-[var(--text-color,#333)]";
+
+const SCOPES: Array<{ value: StatsScope; label: string }> = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "range", label: "Range" },
+];
+
+// Over plan in red, under plan in green
+function getDriftColor(minutes: number): string {
+  if (Math.round(minutes) === 0) return "var(--text-secondary,#888)";
+  return minutes > 0 ? "#e53935" : "#43a047";
+}
+
+const StatsBar: React.FC<{ color: string; fraction: number }> = ({ color, fraction }) => (
+  <div className="tb-h-1.5 tb-rounded tb-bg-[var(--border-color,#eee)] tb-overflow-hidden">
+    <div className="tb-h-full tb-rounded" style={{ width: `${Math.min(100, fraction * 100)}%`, backgroundColor: color }} />
+  </div>
+);
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({
+  viewedDate,
+  weekStartDate,
+  weekEndDate,
+  colorConfigs,
+  dayStartHour,
+  dayEndHour,
+  loadDays,
+  blocksVersion,
+}) => {
+  const [scope, setScope] = useState<StatsScope>("day");
+  const [startValue, setStartValue] = useState(() => formatIsoDate(weekStartDate));
+  const [endValue, setEndValue] = useState(() => formatIsoDate(weekEndDate));
+
+  let startDate: Date | null = viewedDate;
+  let endDate: Date | null = viewedDate;
+  if (scope === "week") {
+    startDate = weekStartDate;
+    endDate = weekEndDate;
+  } else if (scope === "range") {
+    startDate = parseIsoDate(startValue);
+    endDate = parseIsoDate(endValue);
+  }
+  const startKey = startDate ? formatIsoDate(startDate) : "";
+  const endKey = endDate ? formatIsoDate(endDate) : "";
+
+  const stats = useMemo(() => {
+    if (!startDate || !endDate || startDate > endDate) return null;
+    try {
+      return calculateTimeStats(loadDays(startDate, endDate), colorConfigs, dayStartHour, dayEndHour);
+    } catch (error) {
+      console.error("[TimeBlock] Error calculating statistics:", error);
+      return null;
+    }
+  }, [startKey, endKey, loadDays, blocksVersion, colorConfigs, dayStartHour, dayEndHour]);
+
+  return (
+    <div className="tb-flex tb-flex-col tb-gap-1.5 tb-px-2 tb-py-1.5 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px] tb-max-h-[40%] tb-overflow-y-auto">
+      <div className="tb-flex tb-items-center tb-gap-1 tb-flex-wrap">
+        <div className="tb-flex tb-rounded tb-overflow-hidden tb-border tb-border-[var(--border-color,#ccc)]">
+          {SCOPES.map(({ value, label }, i) => (
+            <button
+              key={value}
+              className={`tb-px-2 tb-py-0.5 tb-text-[10px] tb-border-none tb-cursor-pointer tb-transition-colors ${
+                i > 0 ? "tb-border-l tb-border-[var(--border-color,#ccc)]" : ""
+              } ${
+                scope === value
+                  ? "tb-bg-blue-500 tb-text-white"
+                  : "tb-bg-transparent tb-text-[var(--text-secondary,#666)] hover:tb-bg-[var(--hover-bg,#f0f0f0)]"
+              }`}
+              onClick={() => setScope(value)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {scope === "range" && (
+          <>
+            <input type="date" className={inputClassName} value={startValue} onChange={(e) => setStartValue(e.target.value)} title="Range start" />
+            <span className="tb-text-[var(--text-secondary,#888)]">–</span>
+            <input type="date" className={inputClassName} value={endValue} onChange={(e) => setEndValue(e.target.value)} title="Range end" />
+          </>
+        )}
+      </div>
+
+      {!stats && <span className="tb-text-[var(--text-secondary,#888)]">Choose a valid date range</span>}
+
+      {stats && (
+        <>
+          <div className="tb-flex tb-flex-col tb-gap-0.5">
+            <div className="tb-flex tb-justify-between">
+              <span className="tb-font-semibold">Planned {formatDuration(stats.plannedMinutes)}</span>
+              <span className="tb-text-[var(--text-secondary,#888)]">
+                Unplanned {formatDuration(stats.unplannedMinutes)} of {formatDuration(stats.availableMinutes)}
+              </span>
+            </div>
+            <StatsBar color="#2196f3" fraction={stats.availableMinutes > 0 ? stats.plannedMinutes / stats.availableMinutes : 0} />
+          </div>
+
+          {stats.groups
+            .filter((group) => group.minutes > 0)
+            .map((group, index) => (
+              <div key={index} className="tb-flex tb-flex-col tb-gap-0.5">
+                <div className="tb-flex tb-items-center tb-gap-1">
+                  <span className="tb-inline-block tb-w-2 tb-h-2 tb-rounded-full tb-shrink-0" style={{ backgroundColor: group.color }} />
+                  <span className="tb-flex-1 tb-truncate">{group.tags.map((tag) => `#${tag.tag}`).join(" ")}</span>
+                  <span className="tb-font-semibold">{formatDuration(group.minutes)}</span>
+                </div>
+                <StatsBar color={group.color} fraction={stats.plannedMinutes > 0 ? group.minutes / stats.plannedMinutes : 0} />
+                {/* Per-tag breakdown only adds information when the colour has several tags */}
+                {group.tags.length > 1 &&
+                  group.tags
+                    .filter((tag) => tag.minutes > 0)
+                    .map((tag) => (
+                      <div key={tag.tag} className="tb-flex tb-justify-between tb-pl-3 tb-text-[10px] tb-text-[var(--text-secondary,#888)]">
+                        <span className="tb-truncate">
+                          #{tag.tag} · {tag.blockCount} {tag.blockCount === 1 ? "block" : "blocks"}
+                        </span>
+                        <span>{formatDuration(tag.minutes)}</span>
+                      </div>
+                    ))}
+              </div>
+            ))}
+
+          {stats.untaggedMinutes > 0 && (
+            <div className="tb-flex tb-justify-between tb-text-[var(--text-secondary,#888)]">
+              <span>Untagged · {stats.untaggedBlockCount} {stats.untaggedBlockCount === 1 ? "block" : "blocks"}</span>
+              <span>{formatDuration(stats.untaggedMinutes)}</span>
+            </div>
+          )}
+
+          {stats.tasks.taskCount > 0 && (
+            <div className="tb-flex tb-flex-col tb-gap-0.5 tb-pt-1 tb-border-t tb-border-[var(--border-color,#e0e0e0)]">
+              <div className="tb-flex tb-justify-between">
+                <span className="tb-font-semibold">Done {formatDuration(stats.tasks.completedMinutes)}</span>
+                <span className="tb-text-[var(--text-secondary,#888)]">
+                  of {formatDuration(stats.tasks.plannedMinutes)} planned · {stats.tasks.doneCount}/{stats.tasks.taskCount} tasks
+                </span>
+              </div>
+              <StatsBar
+                color="#43a047"
+                fraction={stats.tasks.plannedMinutes > 0 ? stats.tasks.completedMinutes / stats.tasks.plannedMinutes : 0}
+              />
+              {stats.groups.flatMap((group) =>
+                group.tags
+                  .filter((tag) => tag.tasks.taskCount > 0)
+                  .map((tag) => (
+                    <div key={tag.tag} className="tb-flex tb-items-center tb-gap-1 tb-text-[10px]">
+                      <span className="tb-inline-block tb-w-1.5 tb-h-1.5 tb-rounded-full tb-shrink-0" style={{ backgroundColor: group.color }} />
+                      <span className="tb-flex-1 tb-truncate">
+                        #{tag.tag} · {tag.tasks.doneCount}/{tag.tasks.taskCount} done
+                      </span>
+                      <span className="tb-text-[var(--text-secondary,#888)]">
+                        {formatDuration(tag.tasks.completedMinutes)} / {formatDuration(tag.tasks.plannedMinutes)}
+                      </span>
+                    </div>
+                  ))
+              )}
+            </div>
+          )}
+
+          {stats.drift.blockCount > 0 && (
+            <div className="tb-flex tb-flex-col tb-gap-0.5 tb-pt-1 tb-border-t tb-border-[var(--border-color,#e0e0e0)]">
+              <div className="tb-flex tb-justify-between">
+                <span className="tb-font-semibold">Tracked {formatDuration(stats.drift.actualMinutes)}</span>
+                <span className="tb-text-[var(--text-secondary,#888)]">
+                  <span style={{ color: getDriftColor(stats.drift.actualMinutes - stats.drift.plannedMinutes) }}>
+                    {formatDrift(stats.drift.actualMinutes - stats.drift.plannedMinutes)}
+                  </span>{" "}
+                  vs. {formatDuration(stats.drift.plannedMinutes)} planned
+                </span>
+              </div>
+              {stats.groups.flatMap((group) =>
+                group.tags
+                  .filter((tag) => tag.drift.blockCount > 0)
+                  .map((tag) => (
+                    <div key={tag.tag} className="tb-flex tb-items-center tb-gap-1 tb-text-[10px]">
+                      <span className="tb-inline-block tb-w-1.5 tb-h-1.5 tb-rounded-full tb-shrink-0" style={{ backgroundColor: group.color }} />
+                      <span className="tb-flex-1 tb-truncate">
+                        #{tag.tag} · {tag.drift.blockCount} {tag.drift.blockCount === 1 ? "block" : "blocks"}
+                      </span>
+                      <span className="tb-text-[var(--text-secondary,#888)]">
+                        {formatDuration(tag.drift.actualMinutes)} / {formatDuration(tag.drift.plannedMinutes)}
+                      </span>
+                      <span
+                        className="tb-font-semibold tb-w-12 tb-text-right"
+                        style={{ color: getDriftColor(tag.drift.actualMinutes - tag.drift.plannedMinutes) }}
+                      >
+                        {formatDrift(tag.drift.actualMinutes - tag.drift.plannedMinutes)}
+                      </span>
+                    </div>
+                  ))
+              )}
+            </div>
+          )}
+
+          {stats.plannedMinutes === 0 && (
+            <span className="tb-text-[var(--text-secondary,#888)]">No time blocks between {dayStartHour}:00 and {dayEndHour}:00</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
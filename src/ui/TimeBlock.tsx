@@ -4,9 +4,10 @@
  */
 import React from "react";
 import { useDraggable } from "@dnd-kit/core";
-import type { TimeBlockData } from "../types";
+import type { TimeBlockData, TrackedInterval } from "../types";
 import { formatTime } from "../core/timeParser";
 import { isLightColor } from "../core/utils";
+import { stripTaskMarker } from "../api/roamQueries";
 
 interface TimeBlockProps {
   data: TimeBlockData;
@@ -14,6 +15,8 @@ interface TimeBlockProps {
   pixelsPerHour: number;
   onClick: (e: React.MouseEvent) => void;
   onContextMenu: (e: React.MouseEvent) => void;
+  onDoubleClick?: () => void;
+  onToggleTask?: () => void; // checkbox clicked: TODO <-> DONE
   onResizeStart?: (uid: string, edge: "top" | "bottom", e: React.MouseEvent) => void;
   column?: number;
   totalColumns?: number;
@@ -21,6 +24,25 @@ interface TimeBlockProps {
   isDragging?: boolean;
   isResizing?: boolean;
   resizePreview?: { startMinutes: number; endMinutes: number; startTime: string; endTime: string } | null;
+  clipEndMinutes?: number; // End of the visible grid - overnight blocks are cut off here
+  hasConflict?: boolean; // overlaps another block (double-booked)
+  liveActual?: TrackedInterval; // running timer session on this block
+}
+
+const CONFLICT_COLOR = "#e53935";
+const DONE_OPACITY = 0.55;
+const STRIPE_WIDTH = 4; // pixels per secondary tag color
+const ACTUAL_BAR_WIDTH = 3; // pixels
+const ACTUAL_BAR_GAP = 4; // pixels between the tracked-time bar and the block
+
+// Colors of the block's other tags, shown as stripes next to the primary color
+function getSecondaryColors(data: TimeBlockData): string[] {
+  const primaryColor = data.tag?.color;
+  const colors: string[] = [];
+  for (const tag of data.tags.slice(1)) {
+    if (tag.color !== primaryColor && !colors.includes(tag.color)) colors.push(tag.color);
+  }
+  return colors;
 }
 
 function darkenColor(hex: string, percent: number): string {
@@ -38,6 +60,8 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
   pixelsPerHour,
   onClick,
   onContextMenu,
+  onDoubleClick,
+  onToggleTask,
   onResizeStart,
   column = 0,
   totalColumns = 1,
@@ -45,6 +69,9 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
   isDragging = false,
   isResizing = false,
   resizePreview = null,
+  clipEndMinutes = Infinity,
+  hasConflict = false,
+  liveActual,
 }) => {
   const { timeRange, tag, text, uid } = data;
 
@@ -61,7 +88,7 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
   // Use preview values during resize, otherwise use original
   const startMinutes = resizePreview ? resizePreview.startMinutes : originalStartMinutes;
   const endMinutes = resizePreview ? resizePreview.endMinutes : originalEndMinutes;
-  const durationMinutes = endMinutes - startMinutes;
+  const durationMinutes = Math.min(endMinutes, clipEndMinutes) - startMinutes;
 
   const top = ((startMinutes - startHour * 60) / 60) * pixelsPerHour;
   const height = Math.max((durationMinutes / 60) * pixelsPerHour, 20);
@@ -74,7 +101,21 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
 
   const backgroundColor = tag?.color || "#cccccc";
   const borderColor = darkenColor(backgroundColor, 20);
-  const displayText = text.replace(timeRange.originalText, "").trim();
+  const secondaryColors = getSecondaryColors(data);
+  const displayText = stripTaskMarker(text.replace(timeRange.originalText, "")).trim();
+  const isDone = data.taskStatus === "done";
+
+  // Tracked time, drawn beside the block at its own times (cut to the visible grid)
+  const actualBars = [
+    ...(data.actuals || []).map((interval) => ({ interval, live: false })),
+    ...(liveActual ? [{ interval: liveActual, live: true }] : []),
+  ]
+    .map(({ interval, live }) => ({
+      start: Math.max(interval.start, startHour * 60),
+      end: Math.min(interval.end, clipEndMinutes),
+      live,
+    }))
+    .filter(({ start, end }) => end > start);
   const textColor = isLightColor(backgroundColor) ? "rgba(0,0,0,0.8)" : "rgba(255,255,255,0.9)";
 
   // Show preview time during resize, otherwise show actual time
@@ -89,11 +130,14 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
     left: leftCalc,
     width: widthCalc,
     backgroundColor,
-    borderLeft: `3px solid ${borderColor}`,
+    borderLeft: `3px ${data.virtual ? "dashed" : "solid"} ${borderColor}`,
     // Apply @dnd-kit transform
     transform: transform ? `translate3d(0, ${transform.y}px, 0)` : undefined,
-    // Hide original when dragging (DragOverlay shows the preview)
-    opacity: isDragging ? 0.3 : 1,
+    // Hide original when dragging (DragOverlay shows the preview); recurring occurrences and done tasks are faded
+    opacity: isDragging ? 0.3 : data.virtual ? 0.5 : isDone ? DONE_OPACITY : 1,
+    // Conflict marker (outline, so it doesn't clash with the selection ring)
+    outline: hasConflict ? `2px solid ${CONFLICT_COLOR}` : undefined,
+    outlineOffset: hasConflict ? "-1px" : undefined,
   };
 
   const handleTopResizeStart = (e: React.MouseEvent) => {
@@ -121,7 +165,17 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
       style={style}
       onClick={onClick}
       onContextMenu={onContextMenu}
-      title={isSelected ? "Drag center to move, drag edges to resize" : text}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        onDoubleClick?.();
+      }}
+      title={
+        data.virtual
+          ? `${text} (recurring - click to add to the daily page)`
+          : isSelected
+          ? "Drag center to move, drag edges to resize, double-click to edit"
+          : text
+      }
     >
       {/* Top resize handle - outside the drag area */}
       {isSelected && (
@@ -133,10 +187,35 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
         />
       )}
 
+      {/* Tracked time along the left edge */}
+      {actualBars.map(({ start, end, live }, i) => (
+        <div
+          key={i}
+          className={`tb-absolute tb-rounded-sm tb-pointer-events-none ${live ? "tb-animate-pulse" : ""}`}
+          style={{
+            top: ((start - startMinutes) / 60) * pixelsPerHour,
+            height: Math.max(((end - start) / 60) * pixelsPerHour, 2),
+            left: -(ACTUAL_BAR_WIDTH + ACTUAL_BAR_GAP),
+            width: ACTUAL_BAR_WIDTH,
+            backgroundColor: borderColor,
+          }}
+        />
+      ))}
+
+      {/* Secondary tag colors along the right edge */}
+      {secondaryColors.length > 0 && (
+        <div className="tb-absolute tb-top-0 tb-bottom-0 tb-right-0 tb-flex tb-rounded-r tb-overflow-hidden tb-pointer-events-none">
+          {secondaryColors.map((color) => (
+            <div key={color} style={{ width: STRIPE_WIDTH, backgroundColor: color }} />
+          ))}
+        </div>
+      )}
+
       {/* Main drag area - only this area triggers @dnd-kit drag */}
       <div
-        className="tb-absolute tb-left-0 tb-right-0 tb-px-1 tb-overflow-hidden"
+        className="tb-absolute tb-left-0 tb-px-1 tb-overflow-hidden"
         style={{
+          right: secondaryColors.length * STRIPE_WIDTH,
           top: isSelected ? resizeHandleHeight : 0,
           bottom: isSelected ? resizeHandleHeight : 0,
           cursor: isDragging ? "grabbing" : isSelected ? "grab" : "pointer",
@@ -145,11 +224,29 @@ export const TimeBlock: React.FC<TimeBlockProps> = ({
         {...(isSelected && !isResizing ? { ...listeners, ...attributes } : {})}
       >
         <div className={`tb-text-[9px] tb-font-semibold tb-pt-0.5 ${isResizing ? "tb-text-blue-700" : ""}`}>
+          {data.taskStatus && (
+            <input
+              type="checkbox"
+              className="tb-m-0 tb-mr-1 tb-w-2.5 tb-h-2.5 tb-align-middle tb-cursor-pointer"
+              checked={isDone}
+              disabled={!!data.virtual || !onToggleTask}
+              onChange={() => onToggleTask?.()}
+              onClick={(e) => e.stopPropagation()} // Don't select the block
+              onDoubleClick={(e) => e.stopPropagation()}
+              onPointerDown={(e) => e.stopPropagation()} // Prevent @dnd-kit from capturing
+              title={isDone ? "Mark as not done" : "Mark as done"}
+            />
+          )}
+          {hasConflict && <span title="Overlaps another block">⚠ </span>}
           {timeDisplay}
         </div>
         {height > 30 && (
-          <div className="tb-text-[10px] tb-whitespace-nowrap tb-overflow-hidden tb-text-ellipsis tb-mt-px tb-opacity-90">
-            {displayText || (tag?.tag ? `#${tag.tag}` : "")}
+          <div
+            className={`tb-text-[10px] tb-whitespace-nowrap tb-overflow-hidden tb-text-ellipsis tb-mt-px tb-opacity-90 ${
+              isDone ? "tb-line-through" : ""
+            }`}
+          >
+            {displayText || data.tags.map((blockTag) => `#${blockTag.tag}`).join(" ")}
           </div>
         )}
       </div>
@@ -6,7 +6,6 @@ import {
   DndContext,
   DragOverlay,
   PointerSensor,
-  KeyboardSensor,
   useSensor,
   useSensors,
   DragStartEvent,
@@ -16,12 +15,21 @@ import {
 } from "@dnd-kit/core";
 import { restrictToVerticalAxis, restrictToParentElement } from "@dnd-kit/modifiers";
 
-import type { TimeBlockData } from "../types";
+import type {
+  TimeBlockData,
+  BlockTimeChange,
+  ScheduleProposal,
+  TrackedInterval,
+  KeyBindings,
+  KeyCommand,
+} from "../types";
 import { TimeBlock } from "./TimeBlock";
 import { DragSelection, DragSelectionData } from "./DragSelection";
 import { snapToGrid, formatTime } from "../core/timeParser";
 import { calculateBlockLayouts } from "../core/layoutCalculator";
+import { DEFAULT_KEY_BINDINGS, findKeyCommand, getTagKeyIndex } from "../core/keyBindings";
 import { isLightColor } from "../core/utils";
+import { stripTaskMarker } from "../api/roamQueries";
 
 interface TimeGridProps {
   startHour: number;
@@ -29,16 +37,27 @@ interface TimeGridProps {
   timeBlocks: TimeBlockData[];
   onBlockClick: (uid: string, event: React.MouseEvent) => void;
   onBlockContextMenu: (uid: string, event: React.MouseEvent) => void;
+  onBlockDoubleClick?: (uid: string) => void; // open the edit popover
+  onToggleTask?: (uid: string) => void; // checkbox clicked: TODO <-> DONE
   onBlockDrag: (uid: string, newStartHour: number, newStartMinute: number, newEndHour: number, newEndMinute: number) => void;
+  onBlocksDrag: (changes: BlockTimeChange[]) => void; // several blocks at once (one undo step)
   onCreateBlock: (startHour: number, startMinute: number, endHour: number, endMinute: number) => void;
   selectedTagColor?: string;
   dayBoundaryHour?: number;
   pixelsPerHour?: number;
   selectedBlockUids: Set<string>;
   timeGranularity?: number;
+  conflictUids?: Set<string>; // blocks that overlap another block
+  schedulePreview?: ScheduleProposal[]; // auto-scheduler slots shown before they are written
+  liveActual?: { blockUid: string; interval: TrackedInterval }; // running timer session
+  keyBindings?: KeyBindings;
+  onKeyCommand?: (command: KeyCommand) => void; // key commands other than moving and resizing
+  onTagKey?: (index: number) => void; // 1-9 pressed: apply the tag of that colour (0-based)
 }
 
 const DEFAULT_PIXELS_PER_HOUR = 48;
+const NO_CONFLICTS = new Set<string>();
+const NO_PROPOSALS: ScheduleProposal[] = [];
 const DEFAULT_GRANULARITY = 15; // 15-minute granularity
 
 function formatHourLabel(hour: number): { displayTime: string; actualTime: string | null } {
@@ -62,13 +81,22 @@ export const TimeGrid: React.FC<TimeGridProps> = ({
   timeBlocks,
   onBlockClick,
   onBlockContextMenu,
+  onBlockDoubleClick,
+  onToggleTask,
   onBlockDrag,
+  onBlocksDrag,
   onCreateBlock,
   selectedTagColor,
   dayBoundaryHour = 5,
   pixelsPerHour = DEFAULT_PIXELS_PER_HOUR,
   selectedBlockUids,
   timeGranularity = DEFAULT_GRANULARITY,
+  conflictUids = NO_CONFLICTS,
+  schedulePreview = NO_PROPOSALS,
+  liveActual,
+  keyBindings = DEFAULT_KEY_BINDINGS,
+  onKeyCommand,
+  onTagKey,
 }) => {
   const PIXELS_PER_HOUR = pixelsPerHour;
   const GRANULARITY = timeGranularity;
@@ -94,14 +122,13 @@ export const TimeGrid: React.FC<TimeGridProps> = ({
   const [resizeOriginalEnd, setResizeOriginalEnd] = useState<number | null>(null);
   const [resizeCurrentMinutes, setResizeCurrentMinutes] = useState<{ start: number; end: number } | null>(null);
 
-  // @dnd-kit sensors
+  // @dnd-kit sensors (pointer only - the keyboard is handled by handleKeyDown)
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
         distance: 5, // 5px movement before drag starts
       },
-    }),
-    useSensor(KeyboardSensor)
+    })
   );
 
   // Custom snap-to-15-minutes modifier
@@ -400,40 +427,73 @@ export const TimeGrid: React.FC<TimeGridProps> = ({
   }, [resizingUid]);
 
   // Keyboard support: Arrow keys to move selected blocks
+  // Keyboard commands: moving and resizing happen here, the rest goes to the sidebar
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
-      if (selectedBlockUids.size === 0) return;
-      if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+      const tagIndex = getTagKeyIndex(e);
+      if (tagIndex !== null) {
+        if (!onTagKey) return;
+        e.preventDefault();
+        onTagKey(tagIndex);
+        return;
+      }
+
+      const command = findKeyCommand(keyBindings, e);
+      if (!command) return;
+
+      // How each command shifts a block's [start, end]
+      const shifts: Partial<Record<KeyCommand, [number, number]>> = {
+        moveEarlier: [-GRANULARITY, -GRANULARITY],
+        moveLater: [GRANULARITY, GRANULARITY],
+        endEarlier: [0, -GRANULARITY],
+        endLater: [0, GRANULARITY],
+        startEarlier: [-GRANULARITY, 0],
+        startLater: [GRANULARITY, 0],
+      };
+      const shift = shifts[command];
+      if (!shift) {
+        if (!onKeyCommand) return;
+        e.preventDefault();
+        onKeyCommand(command);
+        return;
+      }
 
+      if (selectedBlockUids.size === 0) return;
       e.preventDefault();
-      const direction = e.key === "ArrowUp" ? -1 : 1;
-      const deltaMinutes = direction * GRANULARITY;
 
-      // Move all selected blocks
+      // Move or resize all selected blocks
+      const changes: BlockTimeChange[] = [];
       for (const uid of selectedBlockUids) {
         const block = timeBlocks.find((b) => b.uid === uid);
         if (!block) continue;
 
         const startMinutes = block.timeRange.startHour * 60 + block.timeRange.startMinute;
         const endMinutes = block.timeRange.endHour * 60 + block.timeRange.endMinute;
-        const newStartMinutes = startMinutes + deltaMinutes;
-        const newEndMinutes = endMinutes + deltaMinutes;
+        const newStartMinutes = startMinutes + shift[0];
+        const newEndMinutes = endMinutes + shift[1];
 
-        // Bounds check
+        // Bounds check, and keep at least one granularity step
         if (newStartMinutes < startHour * 60 || newEndMinutes > effectiveEndHour * 60) {
           continue;
         }
+        if (newEndMinutes - newStartMinutes < GRANULARITY) {
+          continue;
+        }
 
-        onBlockDrag(
+        changes.push({
           uid,
-          Math.floor(newStartMinutes / 60),
-          newStartMinutes % 60,
-          Math.floor(newEndMinutes / 60),
-          newEndMinutes % 60
-        );
+          startHour: Math.floor(newStartMinutes / 60),
+          startMinute: newStartMinutes % 60,
+          endHour: Math.floor(newEndMinutes / 60),
+          endMinute: newEndMinutes % 60,
+        });
+      }
+
+      if (changes.length > 0) {
+        onBlocksDrag(changes);
       }
     },
-    [selectedBlockUids, timeBlocks, startHour, effectiveEndHour, onBlockDrag]
+    [selectedBlockUids, timeBlocks, startHour, effectiveEndHour, onBlocksDrag, keyBindings, onKeyCommand, onTagKey, GRANULARITY]
   );
 
   // Calculate drag selection for create
@@ -532,6 +592,8 @@ export const TimeGrid: React.FC<TimeGridProps> = ({
               pixelsPerHour={PIXELS_PER_HOUR}
               onClick={(e) => onBlockClick(block.uid, e)}
               onContextMenu={(e) => onBlockContextMenu(block.uid, e)}
+              onDoubleClick={onBlockDoubleClick && (() => onBlockDoubleClick(block.uid))}
+              onToggleTask={onToggleTask && (() => onToggleTask(block.uid))}
               onResizeStart={handleResizeStart}
               column={column}
               totalColumns={totalColumns}
@@ -539,9 +601,34 @@ export const TimeGrid: React.FC<TimeGridProps> = ({
               isDragging={activeId === block.uid}
               isResizing={resizingUid === block.uid}
               resizePreview={getResizePreview(block.uid)}
+              clipEndMinutes={effectiveEndHour * 60}
+              hasConflict={conflictUids.has(block.uid)}
+              liveActual={liveActual?.blockUid === block.uid ? liveActual.interval : undefined}
             />
           ))}
 
+          {/* Auto-schedule preview */}
+          {schedulePreview.map((proposal) => {
+            const start = proposal.startHour * 60 + proposal.startMinute;
+            const end = proposal.endHour * 60 + proposal.endMinute;
+            return (
+              <div
+                key={proposal.uid}
+                className="tb-absolute tb-left-1 tb-right-1 tb-border-2 tb-border-dashed tb-border-[#4285f4] tb-rounded tb-px-1 tb-overflow-hidden tb-pointer-events-none tb-z-10"
+                style={{
+                  top: ((start - startHour * 60) / 60) * PIXELS_PER_HOUR,
+                  height: Math.max(((end - start) / 60) * PIXELS_PER_HOUR, 15),
+                  backgroundColor: "rgba(66, 133, 244, 0.15)",
+                }}
+              >
+                <span className="tb-text-[9px] tb-font-semibold tb-text-[#4285f4]">
+                  {formatTime(proposal.startHour, proposal.startMinute)}-{formatTime(proposal.endHour, proposal.endMinute)}
+                </span>{" "}
+                <span className="tb-text-[10px] tb-text-[var(--text-color,#333)]">{proposal.title}</span>
+              </div>
+            );
+          })}
+
           {/* Drag selection overlay for create */}
           {dragSelection && <DragSelection selection={dragSelection} color={selectedTagColor} />}
         </div>
@@ -575,7 +662,7 @@ export const TimeGrid: React.FC<TimeGridProps> = ({
                   : `${formatTime(activeBlock.timeRange.startHour, activeBlock.timeRange.startMinute)}-${formatTime(activeBlock.timeRange.endHour, activeBlock.timeRange.endMinute)}`}
               </div>
               <div className="tb-text-[10px] tb-opacity-80 tb-mt-px tb-truncate">
-                {activeBlock.text.replace(activeBlock.timeRange.originalText, "").trim() ||
+                {stripTaskMarker(activeBlock.text.replace(activeBlock.timeRange.originalText, "")).trim() ||
                   (activeBlock.tag?.tag ? `#${activeBlock.tag.tag}` : "")}
               </div>
             </div>
@@ -0,0 +1,37 @@
+/**
+ * TimerBar - the running start/stop timer: which block it is tracking, for how long, and a Stop button
+ */
+import React from "react";
+import type { ActiveTimer } from "../types";
+
+interface TimerBarProps {
+  timer: ActiveTimer;
+  now: number; // epoch milliseconds, ticking while the timer runs
+  onStop: () => void;
+}
+
+// 3725000 -> "1:02:05"
+function formatElapsed(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return `${hours}:${pad(minutes)}:${pad(totalSeconds % 60)}`;
+}
+
+export const TimerBar: React.FC<TimerBarProps> = ({ timer, now, onStop }) => (
+  <div className="tb-flex tb-items-center tb-gap-1.5 tb-px-2 tb-py-1 tb-border-b tb-border-[var(--border-color,#e0e0e0)] tb-shrink-0 tb-text-[11px]">
+    <span className="tb-inline-block tb-w-2 tb-h-2 tb-rounded-full tb-bg-[#e53935] tb-shrink-0 tb-animate-pulse" />
+    <span className="tb-flex-1 tb-truncate tb-text-[var(--text-color,#333)]" title={timer.title}>
+      {timer.title || "Untitled block"}
+    </span>
+    <span className="tb-font-semibold tb-tabular-nums">{formatElapsed(now - timer.startedAt)}</span>
+    <button
+      className="tb-px-1.5 tb-py-0.5 tb-rounded tb-text-[10px] tb-font-medium tb-border-none tb-cursor-pointer tb-bg-[#e53935] tb-text-white hover:tb-bg-[#c62828]"
+      onClick={onStop}
+      title="Stop the timer and record the time on the block"
+    >
+      ■ Stop
+    </button>
+  </div>
+);
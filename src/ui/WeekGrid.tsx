@@ -1,11 +1,29 @@
 /**
- * WeekGrid - 7-day week view
+ * WeekGrid - 7-day week view with @dnd-kit drag interactions
+ * Supports drag-to-create, drag-to-move (also across day columns) and resize per day column
  */
-import React, { useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useRef } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  pointerWithin,
+  DragStartEvent,
+  DragEndEvent,
+  DragMoveEvent,
+  Modifier,
+} from "@dnd-kit/core";
+
 import type { TimeBlockData } from "../types";
-import { formatTime } from "../core/timeParser";
-import { calculateBlockLayouts, BlockLayout } from "../core/layoutCalculator";
-import { isLightColor, isToday } from "../core/utils";
+import { DragSelection, DragSelectionData } from "./DragSelection";
+import { formatTime, snapToGrid } from "../core/timeParser";
+import { calculateBlockLayouts, splitOvernightBlocks, BlockLayout } from "../core/layoutCalculator";
+import { isLightColor, isToday, showToast } from "../core/utils";
+import { stripTaskMarker } from "../api/roamQueries";
 
 interface WeekGridProps {
   startHour: number;
@@ -15,12 +33,31 @@ interface WeekGridProps {
   pageTitles: string[]; // 7 page titles matching the dates
   onBlockClick: (uid: string, event: React.MouseEvent) => void;
   onBlockContextMenu: (uid: string, event: React.MouseEvent) => void;
+  onBlockDoubleClick?: (uid: string) => void; // open the edit popover
+  onToggleTask?: (uid: string) => void; // checkbox clicked: TODO <-> DONE
+  onBlockDrag: (
+    uid: string,
+    newStartHour: number,
+    newStartMinute: number,
+    newEndHour: number,
+    newEndMinute: number,
+    date: Date
+  ) => void;
+  onCreateBlock: (startHour: number, startMinute: number, endHour: number, endMinute: number, date: Date) => void;
+  selectedTagColor?: string;
   pixelsPerHour?: number;
   selectedBlockUids: Set<string>;
   weekStartDay: 0 | 1;
+  timeGranularity?: number;
+  conflictUids?: Set<string>; // blocks that overlap another block on the same day
 }
 
 const DEFAULT_PIXELS_PER_HOUR = 48;
+const NO_CONFLICTS = new Set<string>();
+const DEFAULT_GRANULARITY = 15;
+const MIN_DRAG_DISTANCE = 8; // pixels before a drag on empty grid creates a block
+const RESIZE_HANDLE_HEIGHT = 4; // pixels
+const DONE_OPACITY = 0.55;
 const DAY_NAMES_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const DAY_NAMES_MON_START = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
 
@@ -36,6 +73,213 @@ function formatDayHeader(date: Date, weekStartDay: 0 | 1): { dayName: string; da
   return { dayName, dayNum };
 }
 
+function getBlockMinutes(block: TimeBlockData): { start: number; end: number } {
+  return {
+    start: block.timeRange.startHour * 60 + block.timeRange.startMinute,
+    end: block.timeRange.endHour * 60 + block.timeRange.endMinute,
+  };
+}
+
+function getDisplayText(block: TimeBlockData): string {
+  const text = stripTaskMarker(block.text.replace(block.timeRange.originalText, "")).trim();
+  return text || (block.tag?.tag ? `#${block.tag.tag}` : "");
+}
+
+interface CreateState {
+  dayIndex: number;
+  startMinutes: number;
+  currentMinutes: number;
+  startClientY: number;
+}
+
+interface ResizeState {
+  uid: string;
+  edge: "top" | "bottom";
+  startClientY: number;
+  originalStart: number;
+  originalEnd: number;
+  current: { start: number; end: number };
+}
+
+interface WeekBlockProps {
+  layout: BlockLayout;
+  dayIndex: number;
+  startHour: number;
+  pixelsPerHour: number;
+  isSelected: boolean;
+  isDragging: boolean;
+  isContinuation: boolean; // after-midnight part of an overnight block from the previous column
+  hasConflict: boolean;
+  resizePreview: { start: number; end: number } | null;
+  onClick: (uid: string, event: React.MouseEvent) => void;
+  onContextMenu: (uid: string, event: React.MouseEvent) => void;
+  onDoubleClick?: (uid: string) => void;
+  onToggleTask?: (uid: string) => void;
+  onResizeStart: (uid: string, edge: "top" | "bottom", e: React.MouseEvent) => void;
+}
+
+// Compact draggable block rendered inside a day column
+const WeekBlock: React.FC<WeekBlockProps> = ({
+  layout,
+  dayIndex,
+  startHour,
+  pixelsPerHour,
+  isSelected,
+  isDragging,
+  isContinuation,
+  hasConflict,
+  resizePreview,
+  onClick,
+  onContextMenu,
+  onDoubleClick,
+  onToggleTask,
+  onResizeStart,
+}) => {
+  const { block, column, totalColumns } = layout;
+  const isResizing = resizePreview !== null;
+  // Continuations only mirror the block - it is moved and resized from its first part
+  const isEditable = isSelected && !isContinuation;
+
+  const { attributes, listeners, setNodeRef } = useDraggable({
+    id: isContinuation ? `${block.uid}:continued` : block.uid,
+    data: { dayIndex },
+    disabled: !isEditable || isResizing,
+  });
+
+  const original = getBlockMinutes(block);
+  const startMinutes = resizePreview ? resizePreview.start : original.start;
+  const endMinutes = resizePreview ? resizePreview.end : original.end;
+  const top = ((startMinutes - startHour * 60) / 60) * pixelsPerHour;
+  const height = Math.max(((endMinutes - startMinutes) / 60) * pixelsPerHour, 16);
+  const width = `${100 / totalColumns}%`;
+  const left = `${(column / totalColumns) * 100}%`;
+  const bgColor = block.tag?.color || "#cccccc";
+  const isDone = block.taskStatus === "done";
+
+  const handleResizeMouseDown = (edge: "top" | "bottom") => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onResizeStart(block.uid, edge, e);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      data-timeblock={block.uid}
+      className={`tb-absolute tb-overflow-hidden tb-rounded-sm tb-text-[8px] tb-leading-tight tb-transition-shadow hover:tb-shadow-md ${
+        isSelected ? "tb-ring-2 tb-ring-blue-500 tb-ring-offset-1 tb-shadow-lg tb-z-[3]" : "tb-z-[1]"
+      } ${isResizing ? "tb-z-[10]" : ""}`}
+      style={{
+        top,
+        height,
+        width,
+        left,
+        backgroundColor: bgColor,
+        borderLeft: block.virtual ? "2px dashed rgba(0,0,0,0.35)" : "2px solid rgba(0,0,0,0.15)",
+        color: isLightColor(bgColor) ? "#333" : "#fff",
+        // Recurring occurrences are faded until materialized, done tasks stay faded
+        opacity: isDragging ? 0.3 : block.virtual ? 0.5 : isDone ? DONE_OPACITY : 1,
+        // Conflict marker (outline, so it doesn't clash with the selection ring)
+        outline: hasConflict ? "2px solid #e53935" : undefined,
+        outlineOffset: hasConflict ? "-1px" : undefined,
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick(block.uid, e);
+      }}
+      onContextMenu={(e) => {
+        e.stopPropagation();
+        onContextMenu(block.uid, e);
+      }}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        onDoubleClick?.(block.uid);
+      }}
+      title={
+        block.virtual
+          ? `${block.text} (recurring - click to add to the daily page)`
+          : isEditable
+          ? "Drag to move (also to another day), drag edges to resize, double-click to edit"
+          : block.text
+      }
+    >
+      {isEditable && (
+        <div
+          className="tb-absolute tb-left-0 tb-right-0 tb-top-0 tb-cursor-ns-resize hover:tb-bg-blue-500/40 tb-z-10"
+          style={{ height: RESIZE_HANDLE_HEIGHT }}
+          onMouseDown={handleResizeMouseDown("top")}
+          onPointerDown={(e) => e.stopPropagation()} // Prevent @dnd-kit from capturing
+        />
+      )}
+
+      <div
+        className="tb-absolute tb-inset-0"
+        style={{ cursor: isDragging ? "grabbing" : isEditable ? "grab" : "pointer" }}
+        {...(isEditable && !isResizing ? { ...listeners, ...attributes } : {})}
+      >
+        <div className="tb-px-0.5 tb-py-px tb-truncate">
+          {block.taskStatus && !isContinuation && (
+            <input
+              type="checkbox"
+              className="tb-m-0 tb-mr-0.5 tb-w-2 tb-h-2 tb-align-middle tb-cursor-pointer"
+              checked={isDone}
+              disabled={!!block.virtual || !onToggleTask}
+              onChange={() => onToggleTask?.(block.uid)}
+              onClick={(e) => e.stopPropagation()} // Don't select the block
+              onDoubleClick={(e) => e.stopPropagation()}
+              onPointerDown={(e) => e.stopPropagation()} // Prevent @dnd-kit from capturing
+              title={isDone ? "Mark as not done" : "Mark as done"}
+            />
+          )}
+          {hasConflict && "⚠ "}
+          {formatTime(Math.floor(startMinutes / 60), startMinutes % 60)}
+        </div>
+        {height > 24 && (
+          <div className={`tb-px-0.5 tb-truncate tb-opacity-90 ${isDone ? "tb-line-through" : ""}`}>{getDisplayText(block)}</div>
+        )}
+      </div>
+
+      {isEditable && (
+        <div
+          className="tb-absolute tb-left-0 tb-right-0 tb-bottom-0 tb-cursor-ns-resize hover:tb-bg-blue-500/40 tb-z-10"
+          style={{ height: RESIZE_HANDLE_HEIGHT }}
+          onMouseDown={handleResizeMouseDown("bottom")}
+          onPointerDown={(e) => e.stopPropagation()} // Prevent @dnd-kit from capturing
+        />
+      )}
+    </div>
+  );
+};
+
+interface WeekDayColumnProps {
+  dayIndex: number;
+  isToday: boolean;
+  height: number;
+  onMouseDown: (dayIndex: number, e: React.MouseEvent<HTMLDivElement>) => void;
+  children: React.ReactNode;
+}
+
+// Droppable day column - blocks dragged into it move to that day's page
+const WeekDayColumn: React.FC<WeekDayColumnProps> = ({ dayIndex, isToday: today, height, onMouseDown, children }) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `week-day-${dayIndex}`,
+    data: { dayIndex },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`tb-flex-1 tb-min-w-0 tb-relative tb-border-l tb-border-[var(--border-color,#e0e0e0)] tb-cursor-crosshair ${
+        isOver ? "tb-bg-blue-100/40" : today ? "tb-bg-blue-50/30" : ""
+      }`}
+      style={{ height }}
+      onMouseDown={(e) => onMouseDown(dayIndex, e)}
+    >
+      {children}
+    </div>
+  );
+};
+
 export const WeekGrid: React.FC<WeekGridProps> = ({
   startHour,
   endHour,
@@ -44,154 +288,414 @@ export const WeekGrid: React.FC<WeekGridProps> = ({
   pageTitles,
   onBlockClick,
   onBlockContextMenu,
+  onBlockDoubleClick,
+  onToggleTask,
+  onBlockDrag,
+  onCreateBlock,
+  selectedTagColor,
   pixelsPerHour = DEFAULT_PIXELS_PER_HOUR,
   selectedBlockUids,
   weekStartDay,
+  timeGranularity = DEFAULT_GRANULARITY,
+  conflictUids = NO_CONFLICTS,
 }) => {
   const PIXELS_PER_HOUR = pixelsPerHour;
+  const GRANULARITY = timeGranularity;
   const effectiveEndHour = endHour <= startHour ? endHour + 24 : endHour;
   const hours = Array.from({ length: effectiveEndHour - startHour }, (_, i) => startHour + i);
   const gridHeight = hours.length * PIXELS_PER_HOUR;
 
-  // Memoize block layouts for each day
-  const dayLayouts = useMemo(() => {
+  // Drag (move) state
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [dragDeltaY, setDragDeltaY] = useState<number>(0);
+
+  // Drag-to-create and resize state
+  const [creating, setCreating] = useState<CreateState | null>(null);
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const columnRectRef = useRef<DOMRect | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5, // 5px movement before drag starts
+      },
+    })
+  );
+
+  // Snap vertical movement to the granularity, keep horizontal movement free for day changes
+  const snapModifier: Modifier = useCallback(
+    ({ transform }) => {
+      const gridSize = (PIXELS_PER_HOUR / 60) * GRANULARITY;
+      return {
+        ...transform,
+        y: Math.round(transform.y / gridSize) * gridSize,
+      };
+    },
+    [PIXELS_PER_HOUR, GRANULARITY]
+  );
+
+  const modifiers = useMemo(() => [snapModifier], [snapModifier]);
+
+  // Memoize block layouts for each day. Overnight blocks run on past midnight in their own
+  // column, or continue at the top of the next column when the grid starts at 0:00.
+  const { dayLayouts, continuations } = useMemo(() => {
+    const { days, continuations: continuationSet } = splitOvernightBlocks(
+      pageTitles.map((title) => weekBlocks.get(title) || []),
+      startHour,
+      endHour
+    );
+
     const layouts = new Map<string, BlockLayout[]>();
-    for (const title of pageTitles) {
-      const dayBlocks = weekBlocks.get(title) || [];
-      layouts.set(title, calculateBlockLayouts(dayBlocks));
-    }
-    return layouts;
-  }, [weekBlocks, pageTitles]);
+    pageTitles.forEach((title, dayIndex) => layouts.set(title, calculateBlockLayouts(days[dayIndex])));
+    return { dayLayouts: layouts, continuations: continuationSet };
+  }, [weekBlocks, pageTitles, startHour, endHour]);
+
+  const findBlock = useCallback(
+    (uid: string): TimeBlockData | undefined => {
+      for (const title of pageTitles) {
+        const block = weekBlocks.get(title)?.find((b) => b.uid === uid);
+        if (block) return block;
+      }
+      return undefined;
+    },
+    [weekBlocks, pageTitles]
+  );
+
+  const activeBlock = useMemo(() => (activeId ? findBlock(activeId) : undefined), [activeId, findBlock]);
+
+  // Calculate new time from drag delta - snap to absolute granularity positions
+  const calculateNewTime = useCallback(
+    (block: TimeBlockData, deltaY: number) => {
+      const deltaMinutes = (deltaY / PIXELS_PER_HOUR) * 60;
+      const { start, end } = getBlockMinutes(block);
+      const newStart = Math.round((start + deltaMinutes) / GRANULARITY) * GRANULARITY;
+      return { start: newStart, end: newStart + (end - start) };
+    },
+    [PIXELS_PER_HOUR, GRANULARITY]
+  );
+
+  const getMinutesFromY = useCallback(
+    (clientY: number): number => {
+      const rect = columnRectRef.current;
+      if (!rect) return startHour * 60;
+      const minutes = ((clientY - rect.top) / PIXELS_PER_HOUR) * 60 + startHour * 60;
+      return snapToGrid(Math.max(startHour * 60, Math.min(effectiveEndHour * 60, minutes)), GRANULARITY);
+    },
+    [startHour, effectiveEndHour, PIXELS_PER_HOUR, GRANULARITY]
+  );
+
+  // DnD event handlers
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    setActiveId(event.active.id as string);
+    setDragDeltaY(0);
+  }, []);
+
+  const handleDragMove = useCallback((event: DragMoveEvent) => {
+    setDragDeltaY(event.delta.y);
+  }, []);
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over, delta } = event;
+      const block = findBlock(active.id as string);
+      const sourceDay = active.data.current?.dayIndex as number | undefined;
+      const targetDay = (over?.data.current?.dayIndex as number | undefined) ?? sourceDay;
+
+      if (block && sourceDay !== undefined && targetDay !== undefined) {
+        const newTime = calculateNewTime(block, delta.y);
+        const original = getBlockMinutes(block);
+        const changed = targetDay !== sourceDay || newTime.start !== original.start;
+
+        // Bounds check on the start only - overnight blocks end past midnight (continued in the next column)
+        const inBounds = newTime.start >= startHour * 60 && newTime.start < effectiveEndHour * 60;
+        if (changed && !inBounds) {
+          showToast(`Blocks must start between ${formatHourLabel(startHour)} and ${formatHourLabel(effectiveEndHour)}`, "info");
+        } else if (changed) {
+          onBlockDrag(
+            block.uid,
+            Math.floor(newTime.start / 60),
+            newTime.start % 60,
+            Math.floor(newTime.end / 60),
+            newTime.end % 60,
+            weekDates[targetDay]
+          );
+        }
+      }
+
+      setActiveId(null);
+      setDragDeltaY(0);
+    },
+    [findBlock, calculateNewTime, startHour, effectiveEndHour, onBlockDrag, weekDates]
+  );
+
+  const handleDragCancel = useCallback(() => {
+    setActiveId(null);
+    setDragDeltaY(0);
+  }, []);
+
+  // Resize handlers
+  const handleResizeStart = useCallback(
+    (uid: string, edge: "top" | "bottom", e: React.MouseEvent) => {
+      const block = findBlock(uid);
+      if (!block) return;
+
+      const { start, end } = getBlockMinutes(block);
+      setResizing({
+        uid,
+        edge,
+        startClientY: e.clientY,
+        originalStart: start,
+        originalEnd: end,
+        current: { start, end },
+      });
+    },
+    [findBlock]
+  );
+
+  const handleColumnMouseDown = useCallback(
+    (dayIndex: number, e: React.MouseEvent<HTMLDivElement>) => {
+      // Only on empty grid area
+      if ((e.target as HTMLElement).closest("[data-timeblock]")) return;
+
+      columnRectRef.current = e.currentTarget.getBoundingClientRect();
+      const minutes = getMinutesFromY(e.clientY);
+      setCreating({ dayIndex, startMinutes: minutes, currentMinutes: minutes, startClientY: e.clientY });
+    },
+    [getMinutesFromY]
+  );
+
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent) => {
+      if (resizing) {
+        const deltaMinutes = ((e.clientY - resizing.startClientY) / PIXELS_PER_HOUR) * 60;
+        let { originalStart: newStart, originalEnd: newEnd } = resizing;
+
+        if (resizing.edge === "top") {
+          newStart = Math.round((resizing.originalStart + deltaMinutes) / GRANULARITY) * GRANULARITY;
+          newStart = Math.max(Math.min(newStart, resizing.originalEnd - GRANULARITY), startHour * 60);
+        } else {
+          newEnd = Math.round((resizing.originalEnd + deltaMinutes) / GRANULARITY) * GRANULARITY;
+          newEnd = Math.min(Math.max(newEnd, resizing.originalStart + GRANULARITY), effectiveEndHour * 60);
+        }
+
+        setResizing({ ...resizing, current: { start: newStart, end: newEnd } });
+        return;
+      }
+
+      if (creating) {
+        setCreating({ ...creating, currentMinutes: getMinutesFromY(e.clientY) });
+      }
+    },
+    [resizing, creating, getMinutesFromY, PIXELS_PER_HOUR, GRANULARITY, startHour, effectiveEndHour]
+  );
+
+  const handleMouseUp = useCallback(
+    (e: React.MouseEvent) => {
+      if (resizing) {
+        const { start, end } = resizing.current;
+        const block = findBlock(resizing.uid);
+        const dayIndex = block ? pageTitles.findIndex((title) => weekBlocks.get(title)?.includes(block)) : -1;
+
+        // Only update if changed
+        if (dayIndex !== -1 && (start !== resizing.originalStart || end !== resizing.originalEnd)) {
+          onBlockDrag(resizing.uid, Math.floor(start / 60), start % 60, Math.floor(end / 60), end % 60, weekDates[dayIndex]);
+        }
+        setResizing(null);
+        return;
+      }
+
+      if (!creating) return;
+
+      // Check minimum drag distance to prevent accidental creation on click
+      if (Math.abs(e.clientY - creating.startClientY) >= MIN_DRAG_DISTANCE) {
+        const startMinutes = Math.min(creating.startMinutes, creating.currentMinutes);
+        const endMinutes = Math.max(creating.startMinutes, creating.currentMinutes, startMinutes + GRANULARITY);
+
+        onCreateBlock(
+          Math.floor(startMinutes / 60),
+          startMinutes % 60,
+          Math.floor(endMinutes / 60),
+          endMinutes % 60,
+          weekDates[creating.dayIndex]
+        );
+      }
+      setCreating(null);
+    },
+    [resizing, creating, findBlock, pageTitles, weekBlocks, weekDates, onBlockDrag, onCreateBlock, GRANULARITY]
+  );
+
+  const handleMouseLeave = useCallback(() => {
+    setResizing(null);
+    setCreating(null);
+  }, []);
+
+  // Calculate drag selection for create
+  const dragSelection: DragSelectionData | null = useMemo(() => {
+    if (!creating) return null;
+
+    const startMinutes = Math.min(creating.startMinutes, creating.currentMinutes);
+    const endMinutes = Math.max(creating.startMinutes, creating.currentMinutes, startMinutes + GRANULARITY);
+
+    return {
+      top: ((startMinutes - startHour * 60) / 60) * PIXELS_PER_HOUR,
+      height: ((endMinutes - startMinutes) / 60) * PIXELS_PER_HOUR,
+      startTime: formatTime(Math.floor(startMinutes / 60), startMinutes % 60),
+      endTime: formatTime(Math.floor(endMinutes / 60), endMinutes % 60),
+    };
+  }, [creating, startHour, PIXELS_PER_HOUR, GRANULARITY]);
+
+  // Calculate preview time for active drag
+  const previewTime = useMemo(() => {
+    if (!activeBlock) return null;
+    return calculateNewTime(activeBlock, dragDeltaY);
+  }, [activeBlock, dragDeltaY, calculateNewTime]);
 
   return (
-    <div className="tb-flex tb-flex-col tb-flex-1 tb-overflow-hidden">
-      {/* Day headers */}
-      <div className="tb-flex tb-shrink-0 tb-border-b tb-border-[var(--border-color,#e0e0e0)]">
-        {/* Empty space for hour labels */}
-        <div className="tb-w-[35px] tb-shrink-0" />
-
-        {weekDates.map((date, i) => {
-          const { dayName, dayNum } = formatDayHeader(date, weekStartDay);
-          const today = isToday(date);
-          return (
-            <div
-              key={i}
-              className={`tb-flex-1 tb-min-w-0 tb-text-center tb-py-1 tb-border-l tb-border-[var(--border-color,#e0e0e0)] ${
-                today ? "tb-bg-blue-50" : ""
-              }`}
-            >
-              <div className="tb-text-[10px] tb-text-[var(--text-secondary,#888)]">{dayName}</div>
+    <DndContext
+      sensors={sensors}
+      modifiers={modifiers}
+      collisionDetection={pointerWithin}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <div className="tb-flex tb-flex-col tb-flex-1 tb-overflow-hidden">
+        {/* Day headers */}
+        <div className="tb-flex tb-shrink-0 tb-border-b tb-border-[var(--border-color,#e0e0e0)]">
+          {/* Empty space for hour labels */}
+          <div className="tb-w-[35px] tb-shrink-0" />
+
+          {weekDates.map((date, i) => {
+            const { dayName, dayNum } = formatDayHeader(date, weekStartDay);
+            const today = isToday(date);
+            return (
               <div
-                className={`tb-text-[12px] tb-font-semibold ${
-                  today ? "tb-text-blue-600" : "tb-text-[var(--text-color,#333)]"
+                key={i}
+                className={`tb-flex-1 tb-min-w-0 tb-text-center tb-py-1 tb-border-l tb-border-[var(--border-color,#e0e0e0)] ${
+                  today ? "tb-bg-blue-50" : ""
                 }`}
               >
-                {dayNum}
+                <div className="tb-text-[10px] tb-text-[var(--text-secondary,#888)]">{dayName}</div>
+                <div
+                  className={`tb-text-[12px] tb-font-semibold ${
+                    today ? "tb-text-blue-600" : "tb-text-[var(--text-color,#333)]"
+                  }`}
+                >
+                  {dayNum}
+                </div>
               </div>
-            </div>
-          );
-        })}
-      </div>
-
-      {/* Scrollable content */}
-      <div className="tb-flex tb-flex-1 tb-overflow-y-auto">
-        {/* Hour labels */}
-        <div className="tb-w-[35px] tb-shrink-0 tb-border-r tb-border-[var(--border-color,#e0e0e0)] tb-bg-[var(--background-color,#fff)]">
-          {hours.map((hour) => (
-            <div
-              key={hour}
-              className="tb-flex tb-items-start tb-justify-end tb-pr-1 tb-pt-0.5 tb-text-[9px] tb-text-[var(--text-secondary,#888)]"
-              style={{ height: PIXELS_PER_HOUR }}
-            >
-              {formatHourLabel(hour)}
-            </div>
-          ))}
+            );
+          })}
         </div>
 
-        {/* Day columns */}
-        {weekDates.map((date, dayIndex) => {
-          const pageTitle = pageTitles[dayIndex];
-          const layouts = dayLayouts.get(pageTitle) || [];
-          const today = isToday(date);
+        {/* Scrollable content */}
+        <div
+          className="tb-flex tb-flex-1 tb-overflow-y-auto tb-select-none"
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
+        >
+          {/* Hour labels */}
+          <div className="tb-w-[35px] tb-shrink-0 tb-border-r tb-border-[var(--border-color,#e0e0e0)] tb-bg-[var(--background-color,#fff)]">
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                className="tb-flex tb-items-start tb-justify-end tb-pr-1 tb-pt-0.5 tb-text-[9px] tb-text-[var(--text-secondary,#888)]"
+                style={{ height: PIXELS_PER_HOUR }}
+              >
+                {formatHourLabel(hour)}
+              </div>
+            ))}
+          </div>
+
+          {/* Day columns */}
+          {weekDates.map((date, dayIndex) => {
+            const pageTitle = pageTitles[dayIndex];
+            const layouts = dayLayouts.get(pageTitle) || [];
+
+            return (
+              <WeekDayColumn
+                key={dayIndex}
+                dayIndex={dayIndex}
+                isToday={isToday(date)}
+                height={gridHeight}
+                onMouseDown={handleColumnMouseDown}
+              >
+                {/* Hour grid lines */}
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    className="tb-absolute tb-left-0 tb-right-0 tb-h-px tb-bg-[var(--border-color,#e0e0e0)] tb-pointer-events-none"
+                    style={{ top: (hour - startHour) * PIXELS_PER_HOUR }}
+                  />
+                ))}
+
+                {/* Half-hour grid lines */}
+                {hours.map((hour) => (
+                  <div
+                    key={`${hour}-half`}
+                    className="tb-absolute tb-left-0 tb-right-0 tb-h-0 tb-border-t tb-border-dashed tb-border-[var(--border-light,#e8e8e8)] tb-opacity-40 tb-pointer-events-none"
+                    style={{ top: (hour - startHour) * PIXELS_PER_HOUR + PIXELS_PER_HOUR / 2 }}
+                  />
+                ))}
+
+                {/* Time blocks for this day */}
+                {layouts.map((layout) => (
+                  <WeekBlock
+                    key={layout.block.uid}
+                    layout={layout}
+                    dayIndex={dayIndex}
+                    startHour={startHour}
+                    pixelsPerHour={PIXELS_PER_HOUR}
+                    isSelected={selectedBlockUids.has(layout.block.uid)}
+                    isDragging={activeId === layout.block.uid}
+                    isContinuation={continuations.has(layout.block)}
+                    hasConflict={conflictUids.has(layout.block.uid)}
+                    resizePreview={
+                      resizing?.uid === layout.block.uid && !continuations.has(layout.block) ? resizing.current : null
+                    }
+                    onClick={onBlockClick}
+                    onContextMenu={onBlockContextMenu}
+                    onDoubleClick={onBlockDoubleClick}
+                    onToggleTask={onToggleTask}
+                    onResizeStart={handleResizeStart}
+                  />
+                ))}
+
+                {/* Drag selection overlay for create */}
+                {creating?.dayIndex === dayIndex && dragSelection && (
+                  <DragSelection selection={dragSelection} color={selectedTagColor} />
+                )}
+              </WeekDayColumn>
+            );
+          })}
+        </div>
+      </div>
 
+      {/* Drag Overlay - renders outside the scrollable container */}
+      <DragOverlay>
+        {activeBlock && previewTime && (() => {
+          const bgColor = activeBlock.tag?.color || "#cccccc";
           return (
             <div
-              key={dayIndex}
-              className={`tb-flex-1 tb-min-w-0 tb-relative tb-border-l tb-border-[var(--border-color,#e0e0e0)] ${
-                today ? "tb-bg-blue-50/30" : ""
-              }`}
-              style={{ height: gridHeight }}
+              className="tb-rounded-sm tb-shadow-xl tb-opacity-90 tb-text-[8px] tb-leading-tight tb-overflow-hidden"
+              style={{
+                width: "100%",
+                height: "100%",
+                backgroundColor: bgColor,
+                borderLeft: "2px solid rgba(0,0,0,0.2)",
+                color: isLightColor(bgColor) ? "#333" : "#fff",
+              }}
             >
-              {/* Hour grid lines */}
-              {hours.map((hour) => (
-                <div
-                  key={hour}
-                  className="tb-absolute tb-left-0 tb-right-0 tb-h-px tb-bg-[var(--border-color,#e0e0e0)] tb-pointer-events-none"
-                  style={{ top: (hour - startHour) * PIXELS_PER_HOUR }}
-                />
-              ))}
-
-              {/* Half-hour grid lines */}
-              {hours.map((hour) => (
-                <div
-                  key={`${hour}-half`}
-                  className="tb-absolute tb-left-0 tb-right-0 tb-h-0 tb-border-t tb-border-dashed tb-border-[var(--border-light,#e8e8e8)] tb-opacity-40 tb-pointer-events-none"
-                  style={{ top: (hour - startHour) * PIXELS_PER_HOUR + PIXELS_PER_HOUR / 2 }}
-                />
-              ))}
-
-              {/* Time blocks for this day */}
-              {layouts.map(({ block, column, totalColumns }) => {
-                const startMinutes = block.timeRange.startHour * 60 + block.timeRange.startMinute;
-                const endMinutes = block.timeRange.endHour * 60 + block.timeRange.endMinute;
-                const top = ((startMinutes - startHour * 60) / 60) * PIXELS_PER_HOUR;
-                const height = Math.max(((endMinutes - startMinutes) / 60) * PIXELS_PER_HOUR, 16);
-                const width = `${100 / totalColumns}%`;
-                const left = `${(column / totalColumns) * 100}%`;
-                const isSelected = selectedBlockUids.has(block.uid);
-                const bgColor = block.tag?.color || "#cccccc";
-
-                return (
-                  <div
-                    key={block.uid}
-                    data-timeblock={block.uid}
-                    className={`tb-absolute tb-overflow-hidden tb-rounded-sm tb-text-[8px] tb-leading-tight tb-cursor-pointer tb-transition-shadow hover:tb-shadow-md ${
-                      isSelected ? "tb-ring-2 tb-ring-blue-500 tb-ring-offset-1 tb-shadow-lg" : ""
-                    }`}
-                    style={{
-                      top,
-                      height,
-                      width,
-                      left,
-                      backgroundColor: bgColor,
-                      borderLeft: "2px solid rgba(0,0,0,0.15)",
-                      color: isLightColor(bgColor) ? "#333" : "#fff",
-                    }}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onBlockClick(block.uid, e);
-                    }}
-                    onContextMenu={(e) => {
-                      e.stopPropagation();
-                      onBlockContextMenu(block.uid, e);
-                    }}
-                  >
-                    <div className="tb-px-0.5 tb-py-px tb-truncate">
-                      {formatTime(block.timeRange.startHour, block.timeRange.startMinute)}
-                    </div>
-                    {height > 24 && (
-                      <div className="tb-px-0.5 tb-truncate tb-opacity-90">
-                        {block.text.replace(block.timeRange.originalText, "").trim() ||
-                          (block.tag?.tag ? `#${block.tag.tag}` : "")}
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
+              <div className="tb-px-0.5 tb-py-px tb-font-semibold tb-truncate">
+                {formatTime(Math.floor(previewTime.start / 60), previewTime.start % 60)}
+              </div>
+              <div className="tb-px-0.5 tb-truncate tb-opacity-90">{getDisplayText(activeBlock)}</div>
             </div>
           );
-        })}
-      </div>
-    </div>
+        })()}
+      </DragOverlay>
+    </DndContext>
   );
 };
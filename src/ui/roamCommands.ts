@@ -0,0 +1,150 @@
+/**
+ * Roam command palette and block context menu entries
+ * registerRoamCommands returns a function that removes everything it added.
+ */
+import type { RoamExtensionAPI, BlockTimeChange } from "../types";
+import { loadSettings } from "../settings/settingsPanel";
+import { scanDateForBusyBlocks } from "../core/blockScanner";
+import { updateBlockTime } from "../core/blockCreator";
+import { createTaskFromBlock, scheduleTasks } from "../core/autoScheduler";
+import { parseTimeRange, formatNewTimeRange } from "../core/timeParser";
+import { showToast, isToday } from "../core/utils";
+import { getBlockContent, getBlockPageTitle, getDailyPageDate } from "../api/roamQueries";
+import { isSidebarOpen, runSidebarCommand, SidebarCommand } from "./CalendarSidebar";
+
+const COMMAND_PREFIX = "TimeBlock: ";
+const CONTEXT_MENU_LABEL = "Add to timeblock at…";
+
+interface SidebarControls {
+  toggleSidebar: () => void;
+  openSidebar: () => void;
+}
+
+// Next free slot on the block's daily page for its length (time range, ~hint or default),
+// from now on for today. Null if the block isn't on a daily page or the day is full.
+function findSlotForBlock(extensionAPI: RoamExtensionAPI, blockUid: string): BlockTimeChange | null {
+  const pageTitle = getBlockPageTitle(blockUid);
+  const date = pageTitle ? getDailyPageDate(pageTitle) : null;
+  if (!date) return null;
+
+  const settings = loadSettings(extensionAPI);
+  const dayBoundaryHour = settings.dayEndHour > 24 ? settings.dayEndHour - 24 : 0;
+  const blocks = scanDateForBusyBlocks(date, dayBoundaryHour, settings).filter((block) => block.uid !== blockUid);
+  const now = new Date();
+  const earliestMinute = isToday(date) ? now.getHours() * 60 + now.getMinutes() : 0;
+
+  const task = createTaskFromBlock({ uid: blockUid, string: getBlockContent(blockUid) }, settings.defaultBlockMinutes);
+  const { proposals } = scheduleTasks(
+    [task],
+    blocks,
+    settings.dayStartHour,
+    settings.dayEndHour,
+    settings.timeGranularity,
+    earliestMinute
+  );
+  return proposals[0] || null;
+}
+
+async function scheduleFocusedBlock(extensionAPI: RoamExtensionAPI): Promise<void> {
+  const blockUid = window.roamAlphaAPI.ui.getFocusedBlock()?.["block-uid"];
+  if (!blockUid) {
+    showToast("Click into a block first", "info");
+    return;
+  }
+
+  try {
+    const pageTitle = getBlockPageTitle(blockUid);
+    if (!pageTitle || !getDailyPageDate(pageTitle)) {
+      showToast("Only blocks on daily pages can be scheduled", "info");
+      return;
+    }
+    const slot = findSlotForBlock(extensionAPI, blockUid);
+    if (!slot) {
+      showToast("No free slot left on this day", "info");
+      return;
+    }
+    const settings = loadSettings(extensionAPI);
+    await updateBlockTime(blockUid, slot.startHour, slot.startMinute, slot.endHour, slot.endMinute, settings);
+    const timeRange = formatNewTimeRange(
+      slot.startHour,
+      slot.startMinute,
+      slot.endHour,
+      slot.endMinute,
+      settings.newBlockTimeFormat
+    );
+    showToast(`Scheduled at ${timeRange}`, "success");
+  } catch (error) {
+    console.error("[TimeBlock] Error scheduling block:", error);
+    showToast("Failed to schedule block", "error");
+  }
+}
+
+// Ask for a time range (the next free slot is suggested) and write it into the block
+async function addBlockAtTime(extensionAPI: RoamExtensionAPI, blockUid: string): Promise<void> {
+  try {
+    const settings = loadSettings(extensionAPI);
+    const slot = findSlotForBlock(extensionAPI, blockUid);
+    const suggestion = slot
+      ? formatNewTimeRange(slot.startHour, slot.startMinute, slot.endHour, slot.endMinute, settings.newBlockTimeFormat)
+      : "";
+    const input = window.prompt("Time range for this block (e.g. 14:00-15:30, 2pm +45m or 14:00)", suggestion);
+    if (input === null || !input.trim()) return;
+
+    const range = parseTimeRange(input, settings.defaultBlockMinutes);
+    if (!range) {
+      showToast(`"${input.trim()}" isn't a time range`, "error");
+      return;
+    }
+    await updateBlockTime(blockUid, range.startHour, range.startMinute, range.endHour, range.endMinute, settings);
+  } catch (error) {
+    console.error("[TimeBlock] Error adding block time:", error);
+    showToast("Failed to add the time", "error");
+  }
+}
+
+export function registerRoamCommands(extensionAPI: RoamExtensionAPI, { toggleSidebar, openSidebar }: SidebarControls): () => void {
+  const { commandPalette, blockContextMenu } = window.roamAlphaAPI.ui;
+
+  // Sidebar commands open the sidebar first when it is closed
+  const sendToSidebar = (command: SidebarCommand) => () => {
+    if (!isSidebarOpen()) openSidebar();
+    runSidebarCommand(command);
+  };
+
+  const commands: Array<{ label: string; callback: () => void }> = [
+    { label: "Toggle sidebar", callback: toggleSidebar },
+    { label: "Switch day/week view", callback: sendToSidebar("toggleView") },
+    { label: "Go to today", callback: sendToSidebar("goToToday") },
+    { label: "Export current view (.ics)", callback: sendToSidebar("exportView") },
+    { label: "Schedule focused block in the next free slot", callback: () => scheduleFocusedBlock(extensionAPI) },
+  ].map(({ label, callback }) => ({ label: `${COMMAND_PREFIX}${label}`, callback }));
+
+  const registered: Array<() => void> = [];
+  try {
+    if (commandPalette) {
+      for (const command of commands) {
+        commandPalette.addCommand(command);
+        registered.push(() => commandPalette.removeCommand({ label: command.label }));
+      }
+    }
+    if (blockContextMenu) {
+      blockContextMenu.addCommand({
+        label: CONTEXT_MENU_LABEL,
+        callback: (context) => addBlockAtTime(extensionAPI, context["block-uid"]),
+      });
+      registered.push(() => blockContextMenu.removeCommand({ label: CONTEXT_MENU_LABEL }));
+    }
+  } catch (e) {
+    console.warn("[TimeBlock] Could not register Roam commands:", e);
+  }
+
+  return () => {
+    for (const unregister of registered) {
+      try {
+        unregister();
+      } catch (e) {
+        // Ignore
+      }
+    }
+  };
+}
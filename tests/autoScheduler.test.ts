@@ -0,0 +1,101 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { TimeBlockData } from "../src/types";
+import { collectUnscheduledTasks, createTaskFromBlock, scheduleTasks, suggestFreeSlots } from "../src/core/autoScheduler";
+import { parseTimeRange } from "../src/core/timeParser";
+import { scanDateForBusyBlocks } from "../src/core/blockScanner";
+import { installFakeRoam, dailyPageTitle, FakeRoam } from "./fakeRoam";
+
+function block(uid: string, time: string): TimeBlockData {
+  return { uid, text: time, timeRange: parseTimeRange(time)!, tag: null, tags: [], parentUid: "page", order: 0 };
+}
+
+describe("createTaskFromBlock", () => {
+  it("keeps a timed block's length and uses the hint or default otherwise", () => {
+    assert.deepEqual(createTaskFromBlock({ uid: "a", string: "{{[[TODO]]}} 10:00-11:30 Write" }), {
+      uid: "a",
+      title: "Write",
+      durationMinutes: 90,
+    });
+    assert.equal(createTaskFromBlock({ uid: "b", string: "{{[[TODO]]}} Call ~45m" }).durationMinutes, 45);
+    assert.equal(createTaskFromBlock({ uid: "c", string: "Read" }).durationMinutes, 30);
+  });
+
+  it("only collects TODOs without a time range", () => {
+    const tasks = collectUnscheduledTasks([
+      { uid: "a", string: "{{[[TODO]]}} 10:00-11:30 Write" },
+      { uid: "b", string: "{{[[TODO]]}} Call ~1h" },
+    ]);
+    assert.deepEqual(tasks, [{ uid: "b", title: "Call ~1h", durationMinutes: 60 }]);
+  });
+});
+
+describe("scheduleTasks", () => {
+  it("places tasks first-fit after the earliest minute, on the grid and before midnight", () => {
+    const blocks = [block("x", "09:00-10:00"), block("y", "10:30-12:00")];
+    const tasks = [
+      { uid: "a", title: "A", durationMinutes: 45 },
+      { uid: "b", title: "B", durationMinutes: 20 },
+      { uid: "c", title: "C", durationMinutes: 120 },
+    ];
+    const { proposals, unfitted } = scheduleTasks(tasks, blocks, 8, 26, 15, 9 * 60 + 50);
+    assert.deepEqual(
+      proposals.map((p) => [p.uid, p.startHour, p.startMinute, p.endHour, p.endMinute]),
+      [
+        ["a", 12, 0, 12, 45],
+        ["b", 10, 0, 10, 20],
+        ["c", 12, 45, 14, 45],
+      ]
+    );
+    assert.deepEqual(scheduleTasks(tasks.slice(2), blocks, 8, 26, 15, 23 * 60).unfitted, [tasks[2]]);
+    assert.deepEqual(unfitted, []);
+  });
+
+  describe("with the day's busy blocks", () => {
+    let roam: FakeRoam | null = null;
+    afterEach(() => roam?.uninstall());
+
+    it("keeps clear of timed blocks without a configured tag", () => {
+      const date = new Date(2026, 9, 19);
+      roam = installFakeRoam({
+        [dailyPageTitle(date)]: ["09:00-10:00 Dentist", "10:00-11:00 Review #work", "{{[[TODO]]}} Call ~30m"],
+      });
+      const tasks = [{ uid: "a", title: "Call", durationMinutes: 30 }];
+      const { proposals } = scheduleTasks(tasks, scanDateForBusyBlocks(date), 9, 18, 15);
+      assert.deepEqual(
+        proposals.map((p) => [p.startHour, p.startMinute]),
+        [[11, 0]]
+      );
+    });
+  });
+});
+
+describe("suggestFreeSlots", () => {
+  it("offers the next free slots, then the first slot of each other length, before midnight", () => {
+    const blocks = [block("x", "09:00-10:00"), block("y", "10:30-12:00")];
+    const suggestions = suggestFreeSlots(blocks, 9 * 60 + 50, 30, 8, 26, 15);
+    assert.deepEqual(
+      suggestions.map((s) => [s.start, s.end, s.kind]),
+      [
+        [600, 630, "next"],
+        [720, 750, "next"],
+        [750, 780, "next"],
+        [600, 615, "duration"],
+        [720, 765, "duration"],
+        [720, 780, "duration"],
+        [720, 810, "duration"],
+        [720, 840, "duration"],
+      ]
+    );
+    assert.deepEqual(
+      suggestFreeSlots([], 23 * 60, 30, 8, 26, 15).map((s) => [s.start, s.end]),
+      [
+        [1380, 1410],
+        [1410, 1440],
+        [1380, 1395],
+        [1380, 1425],
+        [1380, 1440],
+      ]
+    );
+  });
+});
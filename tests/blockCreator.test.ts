@@ -0,0 +1,223 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { TagConfig } from "../src/types";
+import { DEFAULT_BLOCK_TEXT_OPTIONS } from "../src/types";
+import {
+  updateBlockTag,
+  toggleBlockTag,
+  updateBlockTime,
+  moveBlockToDate,
+  removeBlockTimeAndTag,
+  createTimeBlock,
+  recordActualTime,
+  getBlockTitle,
+  updateBlockTitle,
+  setBlockTaskStatus,
+} from "../src/core/blockCreator";
+import { installFakeRoam, dailyPageTitle, FakeRoam } from "./fakeRoam";
+
+const WORK: TagConfig = { tag: "work", color: "#7CB342", isPageRef: false };
+const HOME: TagConfig = { tag: "home", color: "#E53935", isPageRef: false };
+const DEEP: TagConfig = { tag: "Deep Work", color: "#1E88E5", isPageRef: false, attribute: "Category" };
+const TAGS = [WORK, HOME];
+const TEXT_OPTIONS = DEFAULT_BLOCK_TEXT_OPTIONS;
+
+describe("blockCreator", () => {
+  let roam: FakeRoam | null = null;
+  afterEach(() => roam?.uninstall());
+
+  // Seed one block and return its text after running the write
+  async function afterWrite(text: string, write: (uid: string) => Promise<unknown>): Promise<string> {
+    roam?.uninstall();
+    roam = installFakeRoam({ Page: [{ string: text, uid: "block" }] });
+    await write("block");
+    return roam.getString("block");
+  }
+
+  describe("updateBlockTag", () => {
+    it("replaces every configured tag with the new one", async () => {
+      assert.equal(
+        await afterWrite("10:00-11:00 Gym #[[Home]] [[work]] #workshop", (uid) => updateBlockTag(uid, WORK, TAGS)),
+        "10:00-11:00 Gym #workshop #work"
+      );
+    });
+  });
+
+  describe("tag styles", () => {
+    it("writes page refs and multi-word hashtags", async () => {
+      const meeting: TagConfig = { tag: "Meeting", color: "#757575", isPageRef: true };
+      const oneOnOne: TagConfig = { tag: "1:1 sync", color: "#757575", isPageRef: false };
+      assert.equal(await afterWrite("10:00-11:00 #work", (uid) => updateBlockTag(uid, meeting, [...TAGS, meeting])), "10:00-11:00 [[Meeting]]");
+      assert.equal(await afterWrite("10:00-11:00", (uid) => toggleBlockTag(uid, oneOnOne)), "10:00-11:00 #[[1:1 sync]]");
+    });
+
+    it("writes attribute tags as a child block and replaces it", async () => {
+      roam = installFakeRoam({ Page: [{ string: "10:00-11:00 Focus #work", uid: "block" }] });
+      const created = await updateBlockTag("block", DEEP, [...TAGS, DEEP]);
+      assert.equal(roam.getString("block"), "10:00-11:00 Focus");
+      assert.deepEqual(roam.getChildStrings("block"), ["Category:: Deep Work"]);
+      assert.equal(roam.getString(created[0]), "Category:: Deep Work");
+
+      await updateBlockTag("block", HOME, [...TAGS, DEEP]);
+      assert.equal(roam.getString("block"), "10:00-11:00 Focus #home");
+      assert.deepEqual(roam.getChildStrings("block"), []);
+    });
+
+    it("toggles and removes attribute tags, leaving other attributes", async () => {
+      roam = installFakeRoam({
+        Page: [{ string: "10:00-11:00 Focus", uid: "block", children: ["Category:: [[Deep Work]]", "Owner:: Sam"] }],
+      });
+      await toggleBlockTag("block", DEEP);
+      assert.deepEqual(roam.getChildStrings("block"), ["Owner:: Sam"]);
+      await toggleBlockTag("block", DEEP);
+      assert.deepEqual(roam.getChildStrings("block"), ["Category:: Deep Work", "Owner:: Sam"]);
+      await removeBlockTimeAndTag("block", [...TAGS, DEEP]);
+      assert.equal(roam.getString("block"), "Focus");
+      assert.deepEqual(roam.getChildStrings("block"), ["Owner:: Sam"]);
+    });
+
+    it("creates blocks with an attribute tag", async () => {
+      const today = new Date(2026, 9, 19);
+      roam = installFakeRoam({ [dailyPageTitle(today)]: [] });
+      const uid = await createTimeBlock(9, 0, 10, 0, { date: today, title: "Write", tag: DEEP });
+      assert.equal(roam.getString(uid), "09:00-10:00 Write");
+      assert.deepEqual(roam.getChildStrings(uid), ["Category:: Deep Work"]);
+    });
+  });
+
+  describe("toggleBlockTag", () => {
+    it("adds a tag next to the block's other tags", async () => {
+      assert.equal(await afterWrite("10:00-11:00 Sync #work ", (uid) => toggleBlockTag(uid, HOME)), "10:00-11:00 Sync #work #home");
+    });
+
+    it("removes the tag when the block already has it", async () => {
+      assert.equal(await afterWrite("10:00-11:00 Sync #[[home]] #work", (uid) => toggleBlockTag(uid, HOME)), "10:00-11:00 Sync #work");
+    });
+  });
+
+  describe("updateBlockTime", () => {
+    it("rewrites the time where it was, in its original style", async () => {
+      assert.equal(
+        await afterWrite("Meet at 10am - 11am with Sam #work", (uid) => updateBlockTime(uid, 14, 0, 15, 30, TEXT_OPTIONS)),
+        "Meet at 2pm - 3:30pm with Sam #work"
+      );
+    });
+
+    it("prepends a time in the configured style when there is none", async () => {
+      const options = { ...TEXT_OPTIONS, newBlockTimeFormat: "12h-short" as const };
+      assert.equal(
+        await afterWrite("Plan week #work", (uid) => updateBlockTime(uid, 9, 0, 9, 45, options)),
+        "9am-9:45am Plan week #work"
+      );
+    });
+
+    it("keeps the TODO or DONE marker first", async () => {
+      assert.equal(
+        await afterWrite("{{[[TODO]]}} Write report", (uid) => updateBlockTime(uid, 13, 0, 14, 0, TEXT_OPTIONS)),
+        "{{[[TODO]]}} 13:00-14:00 Write report"
+      );
+      assert.equal(
+        await afterWrite("{{[[DONE]]}} Write report", (uid) => updateBlockTime(uid, 13, 0, 14, 0, TEXT_OPTIONS)),
+        "{{[[DONE]]}} 13:00-14:00 Write report"
+      );
+    });
+  });
+
+  describe("updateBlockTitle", () => {
+    it("reads the title without the checkbox, time and configured tags", () => {
+      assert.equal(getBlockTitle("{{[[TODO]]}} 10:00-11:00 Call [[Sam]] #work #urgent", TAGS), "Call [[Sam]] #urgent");
+    });
+
+    it("replaces the title, keeping the checkbox, time and tags as written", async () => {
+      assert.equal(
+        await afterWrite("{{[[DONE]]}} #[[work]] 2pm +30m Call Sam", (uid) => updateBlockTitle(uid, " Call Alex ", TAGS)),
+        "{{[[DONE]]}} 2pm +30m Call Alex  #[[work]]"
+      );
+    });
+  });
+
+  describe("setBlockTaskStatus", () => {
+    it("puts the checkbox first, switches it and takes it off", async () => {
+      assert.equal(await afterWrite("10:00-11:00 Write", (uid) => setBlockTaskStatus(uid, "todo")), "{{[[TODO]]}} 10:00-11:00 Write");
+      assert.equal(
+        await afterWrite("{{[[TODO]]}} 10:00-11:00 Write", (uid) => setBlockTaskStatus(uid, "done")),
+        "{{[[DONE]]}} 10:00-11:00 Write"
+      );
+      assert.equal(await afterWrite("{{[[DONE]]}} 10:00-11:00 Write", (uid) => setBlockTaskStatus(uid, null)), "10:00-11:00 Write");
+    });
+  });
+
+  describe("removeBlockTimeAndTag", () => {
+    it("removes every time and configured tag", async () => {
+      assert.equal(
+        await afterWrite("14:00 +90m Review #work, then 16:00-17:00 [[home]]", (uid) => removeBlockTimeAndTag(uid, TAGS)),
+        "Review , then"
+      );
+    });
+  });
+
+  describe("moveBlockToDate", () => {
+    const today = new Date(2026, 9, 19);
+    const tomorrow = new Date(2026, 9, 20);
+
+    it("writes an inherited tag onto the block before moving it", async () => {
+      roam = installFakeRoam({
+        [dailyPageTitle(today)]: [{ string: "#work", children: [{ string: "23:00-23:30 Deploy", uid: "block" }] }],
+      });
+      assert.deepEqual(await moveBlockToDate("block", tomorrow, TAGS, TEXT_OPTIONS), []);
+      assert.deepEqual(roam.getBlockStrings(dailyPageTitle(tomorrow)), ["23:00-23:30 Deploy #work"]);
+      assert.deepEqual(roam.getBlockStrings(dailyPageTitle(today)), ["#work"]);
+    });
+
+    it("adds an inherited attribute tag as a child block", async () => {
+      roam = installFakeRoam({
+        [dailyPageTitle(today)]: [
+          { string: "Focus", children: ["Category:: Deep Work", { string: "09:00-10:00 Write", uid: "block" }] },
+        ],
+      });
+      const created = await moveBlockToDate("block", tomorrow, [...TAGS, DEEP], TEXT_OPTIONS);
+      assert.equal(created.length, 1);
+      assert.equal(roam.getString("block"), "09:00-10:00 Write");
+      assert.deepEqual(roam.getChildStrings("block"), ["Category:: Deep Work"]);
+    });
+
+    it("leaves a block's own tag as it is", async () => {
+      roam = installFakeRoam({
+        [dailyPageTitle(today)]: [{ string: "#home", children: [{ string: "09:00-10:00 Write #work", uid: "block" }] }],
+      });
+      await moveBlockToDate("block", tomorrow, TAGS, TEXT_OPTIONS);
+      assert.equal(roam.getString("block"), "09:00-10:00 Write #work");
+    });
+  });
+
+  describe("recordActualTime", () => {
+    it("records the first session in an actual:: child and appends later ones", async () => {
+      roam = installFakeRoam({ Page: [{ string: "10:00-11:00 Build #work", uid: "block", children: ["Status:: draft"] }] });
+      const created = await recordActualTime(
+        "block",
+        new Date(2026, 9, 19, 10, 5, 30),
+        new Date(2026, 9, 19, 10, 50),
+        "24h"
+      );
+      assert.equal(created.length, 1);
+      assert.deepEqual(roam.getChildStrings("block"), ["actual:: 10:05-10:50", "Status:: draft"]);
+
+      assert.deepEqual(
+        await recordActualTime("block", new Date(2026, 9, 19, 23, 40), new Date(2026, 9, 20, 0, 10), "24h"),
+        []
+      );
+      assert.deepEqual(roam.getChildStrings("block"), ["actual:: 10:05-10:50, 23:40-00:10", "Status:: draft"]);
+    });
+  });
+
+  describe("createTimeBlock", () => {
+    it("puts extended-range times on the next day's page, creating it", async () => {
+      const today = new Date(2026, 9, 19);
+      const tomorrow = new Date(2026, 9, 20);
+      roam = installFakeRoam({ [dailyPageTitle(today)]: [] });
+      await createTimeBlock(25, 0, 26, 0, { date: today, title: "Deploy", tag: WORK });
+      assert.deepEqual(roam.getBlockStrings(dailyPageTitle(tomorrow)), ["01:00-02:00 Deploy  #work"]);
+      assert.deepEqual(roam.getBlockStrings(dailyPageTitle(today)), []);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { TagConfig } from "../src/types";
+import { scanDateForTimeBlocks, scanDateForBusyBlocks, diffWatchedPage, applyTimeBlockChanges, parseActualTimes } from "../src/core/blockScanner";
+import { PAGE_TREE_PULL_PATTERN } from "../src/api/roamQueries";
+import { installFakeRoam, dailyPageTitle, FakeRoam } from "./fakeRoam";
+
+const WORK: TagConfig = { tag: "work", color: "#7CB342", isPageRef: false };
+
+const TODAY = new Date(2026, 9, 19);
+const TOMORROW = new Date(2026, 9, 20);
+
+// [uid, startHour, endHour] of each block, in display order
+function summarize(blocks: ReturnType<typeof scanDateForTimeBlocks>): Array<[string, number, number]> {
+  return blocks.map((block) => [block.uid, block.timeRange.startHour, block.timeRange.endHour]);
+}
+
+describe("scanDateForTimeBlocks", () => {
+  let roam: FakeRoam | null = null;
+  afterEach(() => roam?.uninstall());
+
+  it("adds the next day's blocks before the day boundary at +24h", () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "22:00-23:30 Wind down #work", uid: "evening" },
+        { string: "09:00-10:00 Standup #work", uid: "morning" },
+      ],
+      [dailyPageTitle(TOMORROW)]: [
+        { string: "01:00-02:00 Late deploy #work", uid: "night" },
+        { string: "05:00-06:00 Run #work", uid: "dawn" },
+      ],
+    });
+    assert.deepEqual(summarize(scanDateForTimeBlocks(TODAY, [WORK])), [
+      ["morning", 9, 10],
+      ["evening", 22, 23],
+      ["night", 25, 26],
+    ]);
+  });
+
+  it("uses the given day boundary", () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TOMORROW)]: [
+        { string: "01:00-02:00 #work", uid: "night" },
+        { string: "05:00-06:00 #work", uid: "dawn" },
+      ],
+    });
+    assert.deepEqual(summarize(scanDateForTimeBlocks(TODAY, [WORK], 6)), [
+      ["night", 25, 26],
+      ["dawn", 29, 30],
+    ]);
+    assert.deepEqual(summarize(scanDateForTimeBlocks(TODAY, [WORK], 1)), []);
+  });
+
+  it("skips blocks without a configured tag", () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "09:00-10:00 Untagged", uid: "untagged" },
+        { string: "#work", children: [{ string: "10:00-11:00 Inherited", uid: "inherited" }] },
+      ],
+    });
+    assert.deepEqual(summarize(scanDateForTimeBlocks(TODAY, [WORK])), [["inherited", 10, 11]]);
+  });
+
+  it("keeps untagged blocks when scanning for busy time", () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "09:00-10:00 Untagged", uid: "untagged" },
+        { string: "10:00-11:00 Tagged #work", uid: "tagged" },
+      ],
+      [dailyPageTitle(TOMORROW)]: [{ string: "01:00-02:00 Late deploy", uid: "night" }],
+    });
+    assert.deepEqual(summarize(scanDateForBusyBlocks(TODAY)), [
+      ["untagged", 9, 10],
+      ["tagged", 10, 11],
+      ["night", 25, 26],
+    ]);
+  });
+
+  it("reads blocks with the given text options", () => {
+    const HOME: TagConfig = { tag: "home", color: "#E53935", isPageRef: false };
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [{ string: "#work", children: [{ string: "14:00 Call #home", uid: "call" }] }],
+    });
+    const options = { defaultBlockMinutes: 30, newBlockTimeFormat: "24h" as const, tagResolution: "ownFirst" as const };
+    const [block] = scanDateForTimeBlocks(TODAY, [WORK, HOME], 5, options);
+    assert.deepEqual(summarize([block]), [["call", 14, 14]]);
+    assert.equal(block.timeRange.endMinute, 30);
+    assert.equal(block.tag, HOME);
+  });
+
+  it("attaches tracked times to their block instead of showing them as blocks", () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "10:00-11:00 Build #work", uid: "build", children: [{ string: "actual:: 10:05-10:50, 14:00-14:20" }] },
+      ],
+      [dailyPageTitle(TOMORROW)]: [
+        { string: "01:00-02:00 Deploy #work", uid: "deploy", children: [{ string: "Actual:: 01:10-01:40" }] },
+      ],
+    });
+    const blocks = scanDateForTimeBlocks(TODAY, [WORK]);
+    assert.deepEqual(summarize(blocks), [
+      ["build", 10, 11],
+      ["deploy", 25, 26],
+    ]);
+    assert.deepEqual(blocks[0].actuals, [
+      { start: 605, end: 650 },
+      { start: 840, end: 860 },
+    ]);
+    assert.deepEqual(blocks[1].actuals, [{ start: 1510, end: 1540 }]);
+  });
+
+  it("reads the TODO/DONE checkbox", () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "{{[[TODO]]}} 09:00-10:00 Write #work", uid: "todo" },
+        { string: "{{[[DONE]]}} 10:00-11:00 Review #work", uid: "done" },
+        { string: "11:00-12:00 Lunch #work", uid: "plain" },
+      ],
+    });
+    assert.deepEqual(
+      scanDateForTimeBlocks(TODAY, [WORK]).map((block) => block.taskStatus),
+      ["todo", "done", undefined]
+    );
+  });
+});
+
+describe("parseActualTimes", () => {
+  it("reads the ranges of an actual:: attribute and ignores other blocks", () => {
+    assert.deepEqual(parseActualTimes("actual:: 23:30-00:15"), [{ start: 1410, end: 1455 }]);
+    assert.deepEqual(parseActualTimes("actual::"), []);
+    assert.equal(parseActualTimes("10:00-11:00 actual:: work"), null);
+  });
+});
+
+describe("diffWatchedPage", () => {
+  let roam: FakeRoam | null = null;
+  afterEach(() => roam?.uninstall());
+
+  // Watch today's page and collect the changes of each write
+  function watchToday(): Array<ReturnType<typeof diffWatchedPage>> {
+    const changes: Array<ReturnType<typeof diffWatchedPage>> = [];
+    window.roamAlphaAPI.data!.addPullWatch(PAGE_TREE_PULL_PATTERN, `[:node/title "${dailyPageTitle(TODAY)}"]`, (before, after) =>
+      changes.push(diffWatchedPage(before, after, [WORK]))
+    );
+    return changes;
+  }
+
+  it("reports edited, added and removed time blocks", async () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "09:00-10:00 Standup #work", uid: "standup" },
+        { string: "11:00-12:00 Review #work", uid: "review" },
+      ],
+    });
+    const changes = watchToday();
+    const pageUid = roam.getPageUid(dailyPageTitle(TODAY));
+
+    await roam.updateBlock("standup", "09:30-10:00 Standup #work");
+    await roam.createBlock(pageUid, "14:00-15:00 Focus #work", "focus");
+    await roam.updateBlock("review", "Review, no time");
+
+    assert.deepEqual(
+      changes.map(({ updated, removedUids }) => [summarize(updated), removedUids]),
+      [
+        [[["standup", 9, 10]], []],
+        [[["focus", 14, 15]], []],
+        [[], ["review"]],
+      ]
+    );
+    assert.equal(changes[0].updated[0].timeRange.startMinute, 30);
+  });
+
+  it("re-resolves children when a parent's tag changes", async () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [{ string: "Project", uid: "project", children: [{ string: "10:00-11:00 Build", uid: "build" }] }],
+    });
+    const changes = watchToday();
+
+    await roam.updateBlock("project", "Project #work");
+    assert.deepEqual(summarize(changes[0].updated), [["build", 10, 11]]);
+
+    await roam.updateBlock("project", "Project");
+    assert.deepEqual(changes[1].removedUids.sort(), ["build", "project"]);
+  });
+
+  it("re-resolves a block when its attribute tag child changes", async () => {
+    const deep: TagConfig = { tag: "Deep Work", color: "#1E88E5", isPageRef: false, attribute: "Category" };
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [{ string: "10:00-11:00 Draft", uid: "draft", children: [{ string: "Category:: Admin", uid: "attr" }] }],
+    });
+    const changes: Array<ReturnType<typeof diffWatchedPage>> = [];
+    window.roamAlphaAPI.data!.addPullWatch(PAGE_TREE_PULL_PATTERN, `[:node/title "${dailyPageTitle(TODAY)}"]`, (before, after) =>
+      changes.push(diffWatchedPage(before, after, [deep]))
+    );
+
+    await roam.updateBlock("attr", "Category:: Deep Work");
+    assert.deepEqual(summarize(changes[0].updated), [["draft", 10, 11]]);
+    assert.equal(changes[0].updated[0].tag, deep);
+  });
+
+  it("re-resolves a block when its tracked time changes", async () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [{ string: "10:00-11:00 Build #work", uid: "build", children: [{ string: "actual:: 10:00-10:30", uid: "actual" }] }],
+    });
+    const changes = watchToday();
+
+    await roam.updateBlock("actual", "actual:: 10:00-10:30, 10:40-11:00");
+    assert.deepEqual(summarize(changes[0].updated), [["build", 10, 11]]);
+    assert.equal(changes[0].updated[0].actuals?.length, 2);
+  });
+
+  it("applies the changes to a day's blocks in start order", async () => {
+    roam = installFakeRoam({
+      [dailyPageTitle(TODAY)]: [
+        { string: "09:00-10:00 Standup #work", uid: "standup" },
+        { string: "11:00-12:00 Review #work", uid: "review" },
+      ],
+    });
+    const blocks = scanDateForTimeBlocks(TODAY, [WORK]);
+    const changes = watchToday();
+
+    await roam.updateBlock("review", "08:00-08:30 Review #work");
+    assert.deepEqual(summarize(applyTimeBlockChanges(blocks, changes[0])), [
+      ["review", 8, 8],
+      ["standup", 9, 10],
+    ]);
+    assert.equal(applyTimeBlockChanges(blocks, { updated: [], removedUids: ["other"] }), blocks);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TimeBlockData } from "../src/types";
+import { detectConflicts, findNextFreeSlot, moveToNextFreeSlot, pushLaterBlocksDown } from "../src/core/conflicts";
+import { parseTimeRange } from "../src/core/timeParser";
+
+function block(uid: string, time: string): TimeBlockData {
+  return { uid, text: time, timeRange: parseTimeRange(time)!, tag: null, tags: [], parentUid: "page", order: 0 };
+}
+
+const DAY = [block("a", "09:00-10:00"), block("b", "10:00-11:10"), block("c", "12:00-13:00")];
+
+describe("detectConflicts", () => {
+  it("reports overlapping blocks but not touching ones", () => {
+    const conflicts = detectConflicts([...DAY, block("d", "12:30-14:00")]);
+    assert.deepEqual(
+      conflicts.map(({ earlier, later, overlapMinutes }) => [earlier.uid, later.uid, overlapMinutes]),
+      [["c", "d", 30]]
+    );
+  });
+});
+
+describe("pushLaterBlocksDown", () => {
+  const blocks = [...DAY, block("d", "10:30-11:30")];
+  const [conflict] = detectConflicts(blocks);
+
+  it("pushes the later block and the blocks it runs into down", () => {
+    assert.deepEqual(pushLaterBlocksDown(blocks, conflict, 18), [
+      { uid: "d", startHour: 11, startMinute: 10, endHour: 12, endMinute: 10 },
+      { uid: "c", startHour: 12, startMinute: 10, endHour: 13, endMinute: 10 },
+    ]);
+  });
+
+  it("changes nothing when a pushed block would end after the day", () => {
+    assert.deepEqual(pushLaterBlocksDown(blocks, conflict, 13), []);
+  });
+});
+
+describe("findNextFreeSlot", () => {
+  it("skips past blocks in the way, staying on the grid", () => {
+    assert.equal(findNextFreeSlot(DAY, 9 * 60, 30, 8, 18, 15), 11 * 60 + 15);
+    assert.equal(findNextFreeSlot(DAY, 9 * 60, 60, 8, 18, 15), 13 * 60);
+  });
+
+  it("starts no earlier than `from` or the start of the day", () => {
+    assert.equal(findNextFreeSlot(DAY, 7 * 60 + 50, 30, 8, 18, 15), 8 * 60);
+    assert.equal(findNextFreeSlot(DAY, 13 * 60 + 7, 30, 8, 18, 15), 13 * 60 + 15);
+  });
+
+  it("returns null when the day is full", () => {
+    assert.equal(findNextFreeSlot(DAY, 17 * 60 + 30, 60, 8, 18, 15), null);
+  });
+});
+
+describe("moveToNextFreeSlot", () => {
+  it("moves a block past the others, keeping its length", () => {
+    assert.deepEqual(moveToNextFreeSlot(DAY, block("x", "09:30-10:30"), 8, 18, 15), [
+      { uid: "x", startHour: 13, startMinute: 0, endHour: 14, endMinute: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DayTemplateBlock, TagConfig, TimeBlockData } from "../src/types";
+import { captureDayTemplate, shiftTemplateBlock, findTemplateOverlaps } from "../src/core/dayTemplates";
+import { parseTimeRange } from "../src/core/timeParser";
+
+const WORK: TagConfig = { tag: "work", color: "#7CB342", isPageRef: false };
+
+function block(uid: string, text: string, tag: TagConfig | null = null): TimeBlockData {
+  const tags = tag ? [tag] : [];
+  return { uid, text, timeRange: parseTimeRange(text)!, tag, tags, parentUid: "page", order: 0 };
+}
+
+const templateBlock = (startHour: number, endHour: number): DayTemplateBlock => ({
+  title: "Focus",
+  startHour,
+  startMinute: 0,
+  endHour,
+  endMinute: 0,
+  tag: null,
+});
+
+describe("captureDayTemplate", () => {
+  it("keeps titles and times, and records tags that aren't in the title", () => {
+    const occurrence = { ...block("tpl@2026-10-19", "12:00-13:00 Lunch"), virtual: { templateUid: "tpl", date: new Date() } };
+    const template = captureDayTemplate("Deep work", [
+      block("a", "09:00-11:30  Write  #work", WORK),
+      block("b", "14:00-15:00 Review", WORK), // tag inherited from a parent
+      occurrence,
+    ]);
+    assert.equal(template.name, "Deep work");
+    assert.deepEqual(template.blocks, [
+      { title: "Write #work", startHour: 9, startMinute: 0, endHour: 11, endMinute: 30, tag: null },
+      { title: "Review", startHour: 14, startMinute: 0, endHour: 15, endMinute: 0, tag: "work" },
+    ]);
+  });
+});
+
+describe("shiftTemplateBlock", () => {
+  it("moves the block and keeps its length", () => {
+    const shifted = shiftTemplateBlock({ ...templateBlock(9, 10), endMinute: 30 }, 45);
+    assert.deepEqual([shifted.startHour, shifted.startMinute, shifted.endHour, shifted.endMinute], [9, 45, 11, 15]);
+  });
+
+  it("clamps to the start of the day and to the end of the extended range", () => {
+    const early = shiftTemplateBlock(templateBlock(1, 2), -120);
+    assert.deepEqual([early.startHour, early.endHour], [0, 1]);
+    const late = shiftTemplateBlock(templateBlock(46, 47), 180);
+    assert.deepEqual([late.startHour, late.endHour], [47, 48]);
+  });
+});
+
+describe("findTemplateOverlaps", () => {
+  it("lists shifted template blocks that overlap existing blocks", () => {
+    const template = { name: "Day", blocks: [templateBlock(9, 10), templateBlock(13, 14)] };
+    const existing = [block("a", "10:00-11:00 Call"), block("b", "14:00-15:00 Meeting")];
+
+    assert.deepEqual(findTemplateOverlaps(template, 0, existing), []);
+
+    const overlaps = findTemplateOverlaps(template, 30, existing);
+    assert.deepEqual(
+      overlaps.map(({ block, conflicts }) => [block.startHour, block.startMinute, conflicts.map((conflict) => conflict.uid)]),
+      [
+        [9, 30, ["a"]],
+        [13, 30, ["b"]],
+      ]
+    );
+  });
+});
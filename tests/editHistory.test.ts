@@ -0,0 +1,68 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createEditHistory, recordEdit, undoEdit, redoEdit } from "../src/core/editHistory";
+import { installFakeRoam, FakeRoam } from "./fakeRoam";
+
+describe("editHistory", () => {
+  let roam: FakeRoam | null = null;
+  afterEach(() => roam?.uninstall());
+
+  it("undoes and redoes an update, a move and a created block as one step", async () => {
+    roam = installFakeRoam({
+      Today: [{ string: "09:00-10:00 Write", uid: "a" }],
+      Tomorrow: [{ string: "11:00-12:00 Call", uid: "b" }],
+    });
+    const fake = roam;
+    const api = window.roamAlphaAPI;
+    const history = createEditHistory();
+
+    await recordEdit(history, ["a"], async () => {
+      await api.updateBlock({ block: { uid: "a", string: "10:00-11:00 Write" } });
+      await api.moveBlock({ location: { "parent-uid": fake.getPageUid("Tomorrow"), order: 0 }, block: { uid: "a" } });
+      await api.createBlock({ location: { "parent-uid": "a", order: 0 }, block: { string: "Category:: work", uid: "c" } });
+      return ["c"];
+    });
+    assert.deepEqual(fake.getBlockStrings("Tomorrow"), ["10:00-11:00 Write", "Category:: work", "11:00-12:00 Call"]);
+
+    assert.equal(await undoEdit(history), true);
+    assert.deepEqual(fake.getBlockStrings("Today"), ["09:00-10:00 Write"]);
+    assert.deepEqual(fake.getBlockStrings("Tomorrow"), ["11:00-12:00 Call"]);
+
+    assert.equal(await redoEdit(history), true);
+    assert.deepEqual(fake.getBlockStrings("Today"), []);
+    assert.deepEqual(fake.getBlockStrings("Tomorrow"), ["10:00-11:00 Write", "Category:: work", "11:00-12:00 Call"]);
+
+    assert.equal(await redoEdit(history), false);
+  });
+
+  it("doesn't record edits that change nothing, and a new edit clears redo", async () => {
+    roam = installFakeRoam({ Today: [{ string: "09:00-10:00 Write", uid: "a" }] });
+    const fake = roam;
+    const history = createEditHistory();
+
+    await recordEdit(history, ["a"], async () => undefined);
+    assert.equal(history.undoStack.length, 0);
+
+    await recordEdit(history, ["a"], () => fake.updateBlock("a", "09:00-10:30 Write"));
+    await undoEdit(history);
+    await recordEdit(history, ["a"], () => fake.updateBlock("a", "09:30-10:00 Write"));
+    assert.equal(history.redoStack.length, 0);
+    assert.equal(await undoEdit(history), true);
+    assert.equal(fake.getString("a"), "09:00-10:00 Write");
+  });
+
+  it("records an edit that fails partway", async () => {
+    roam = installFakeRoam({ Today: [{ string: "09:00-10:00 Write", uid: "a" }] });
+    const fake = roam;
+    const history = createEditHistory();
+
+    await assert.rejects(
+      recordEdit(history, ["a"], async () => {
+        await fake.updateBlock("a", "10:00-11:00 Write");
+        throw new Error("network");
+      })
+    );
+    await undoEdit(history);
+    assert.equal(fake.getString("a"), "09:00-10:00 Write");
+  });
+});
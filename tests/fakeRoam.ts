@@ -0,0 +1,295 @@
+/**
+ * In-memory stand-in for window.roamAlphaAPI, seeded with a small outline per page
+ * Answers the pulls and queries made in src/api/roamQueries.ts; any other query throws,
+ * so a new query shows up as a failing test instead of an empty result.
+ */
+
+// A block: its text, or text plus a fixed uid and children
+export type OutlineNode = string | { string: string; uid?: string; children?: OutlineNode[] };
+
+interface FakeEntity {
+  uid: string;
+  string: string;
+  title: string | null; // pages only
+  parentUid: string | null; // null for pages
+  children: string[];
+}
+
+interface PullWatch {
+  title: string;
+  callback: (before: unknown, after: unknown) => void;
+}
+
+export interface FakeRoam {
+  getString: (uid: string) => string;
+  getChildStrings: (uid: string) => string[];
+  getPageUid: (title: string) => string;
+  getBlockStrings: (title: string) => string[]; // every block on the page, in outline order
+  createBlock: (parentUid: string, string: string, uid?: string) => Promise<void>;
+  updateBlock: (uid: string, string: string) => Promise<void>;
+  uninstall: () => void;
+}
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// Roam's daily page title, e.g. "October 19th, 2026"
+export function dailyPageTitle(date: Date): string {
+  const day = date.getDate();
+  const suffix = day % 10 === 1 && day !== 11 ? "st" : day % 10 === 2 && day !== 12 ? "nd" : day % 10 === 3 && day !== 13 ? "rd" : "th";
+  return `${MONTHS[date.getMonth()]} ${day}${suffix}, ${date.getFullYear()}`;
+}
+
+function dailyPageUid(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${date.getFullYear()}`;
+}
+
+export function installFakeRoam(seed: Record<string, OutlineNode[]> = {}): FakeRoam {
+  const entities = new Map<string, FakeEntity>();
+  const pageUidsByTitle = new Map<string, string>();
+  const watches = new Map<number, PullWatch>();
+  let nextUid = 1;
+  let nextWatchId = 1;
+
+  const generateUid = () => `uid${(nextUid++).toString().padStart(6, "0")}`;
+
+  const getEntity = (uid: string): FakeEntity => {
+    const entity = entities.get(uid);
+    if (!entity) throw new Error(`[fakeRoam] Unknown uid: ${uid}`);
+    return entity;
+  };
+
+  const getPage = (uid: string): FakeEntity => {
+    let entity = getEntity(uid);
+    while (entity.parentUid) entity = getEntity(entity.parentUid);
+    return entity;
+  };
+
+  const getDescendants = (uid: string): FakeEntity[] => {
+    const result: FakeEntity[] = [];
+    for (const childUid of getEntity(uid).children) {
+      result.push(getEntity(childUid), ...getDescendants(childUid));
+    }
+    return result;
+  };
+
+  const addPage = (title: string, uid: string = generateUid()) => {
+    entities.set(uid, { uid, string: "", title, parentUid: null, children: [] });
+    pageUidsByTitle.set(title, uid);
+    return uid;
+  };
+
+  const addBlock = (parentUid: string, string: string, order: number | "last", uid: string = generateUid()) => {
+    const parent = getEntity(parentUid);
+    entities.set(uid, { uid, string, title: null, parentUid, children: [] });
+    const index = order === "last" ? parent.children.length : Math.min(order, parent.children.length);
+    parent.children.splice(index, 0, uid);
+    return uid;
+  };
+
+  const addOutline = (parentUid: string, nodes: OutlineNode[]) => {
+    for (const node of nodes) {
+      const { string, uid, children } = typeof node === "string" ? { string: node, uid: undefined, children: [] } : node;
+      const blockUid = addBlock(parentUid, string, "last", uid);
+      addOutline(blockUid, children || []);
+    }
+  };
+
+  for (const [title, nodes] of Object.entries(seed)) {
+    addOutline(addPage(title), nodes);
+  }
+
+  // One pull result that carries every attribute the extension asks for
+  const pullEntity = (uid: string): Record<string, unknown> => {
+    const entity = getEntity(uid);
+    const result: Record<string, unknown> = { ":block/uid": uid };
+    if (entity.title !== null) {
+      result[":node/title"] = entity.title;
+    } else {
+      const parent = getEntity(entity.parentUid!);
+      result[":block/string"] = entity.string;
+      result[":block/order"] = parent.children.indexOf(uid);
+      result[":block/_children"] = [{ ":block/uid": parent.uid }];
+      result[":block/page"] = { ":node/title": getPage(uid).title };
+    }
+    if (entity.children.length > 0) {
+      result[":block/children"] = entity.children.map(pullEntity);
+    }
+    return result;
+  };
+
+  const pullPageTree = (title: string) => {
+    const pageUid = pageUidsByTitle.get(title);
+    return pageUid ? pullEntity(pageUid) : null;
+  };
+
+  // Run a write and notify the watches of pages whose tree changed
+  const mutate = async (write: () => void): Promise<void> => {
+    const before = [...watches.values()].map((watch) => pullPageTree(watch.title));
+    write();
+    [...watches.values()].forEach((watch, i) => {
+      const after = pullPageTree(watch.title);
+      if (JSON.stringify(before[i]) !== JSON.stringify(after)) {
+        watch.callback(before[i], after);
+      }
+    });
+  };
+
+  const blockRow = (entity: FakeEntity) => [entity.uid, entity.string, getEntity(entity.parentUid!).children.indexOf(entity.uid)];
+
+  const q = (query: string, ...args: unknown[]): unknown[][] => {
+    // getPagesHierarchyData: blocks of several pages
+    if (query.includes("[?title ...]")) {
+      const rows: unknown[][] = [];
+      for (const title of args[0] as string[]) {
+        const pageUid = pageUidsByTitle.get(title);
+        if (!pageUid) continue;
+        for (const block of getDescendants(pageUid)) {
+          const [uid, string, order] = blockRow(block);
+          rows.push([title, pageUid, uid, string, order, block.parentUid]);
+        }
+      }
+      return rows;
+    }
+
+    // getPagesHierarchyData: every ancestor block of the given blocks
+    if (query.includes(":block/parents")) {
+      const rows = new Map<string, unknown[]>();
+      for (const childUid of args[0] as string[]) {
+        let ancestor = getEntity(childUid).parentUid ? getEntity(getEntity(childUid).parentUid!) : null;
+        while (ancestor && ancestor.parentUid) {
+          rows.set(ancestor.uid, [ancestor.uid, ancestor.string, ancestor.parentUid]);
+          ancestor = getEntity(ancestor.parentUid);
+        }
+      }
+      return [...rows.values()];
+    }
+
+    // getImportedEventKeys: blocks referencing a page (attributes count as references)
+    if (query.includes(":block/refs")) {
+      const title = args[0] as string;
+      return [...entities.values()]
+        .filter(
+          (entity) =>
+            entity.title === null &&
+            (entity.string.startsWith(`${title}::`) || entity.string.includes(`[[${title}]]`) || entity.string.includes(`#${title}`))
+        )
+        .map((entity) => [entity.string]);
+    }
+
+    if (query.includes(":in $ ?title")) {
+      const pageUid = pageUidsByTitle.get(args[0] as string);
+      if (!pageUid) return [];
+      // getBlockWithParent
+      if (query.includes("?parent-uid")) {
+        return getDescendants(pageUid).map((block) => [...blockRow(block), block.parentUid]);
+      }
+      // getBlocksOnPage
+      if (query.includes("?string")) {
+        return getDescendants(pageUid).map(blockRow);
+      }
+      // getPageUidByTitle
+      return [[pageUid]];
+    }
+
+    throw new Error(`[fakeRoam] Unsupported query: ${query}`);
+  };
+
+  const pull = (_pattern: string, [attribute, value]: [string, string]) => {
+    const uid = attribute === ":node/title" ? pageUidsByTitle.get(value) : value;
+    return uid && entities.has(uid) ? pullEntity(uid) : null;
+  };
+
+  const api: Window["roamAlphaAPI"] = {
+    q,
+    pull,
+    createBlock: ({ location, block }) =>
+      mutate(() => {
+        addBlock(location["parent-uid"], block.string, location.order, block.uid);
+      }),
+    updateBlock: ({ block }) =>
+      mutate(() => {
+        getEntity(block.uid).string = block.string;
+      }),
+    moveBlock: ({ location, block }) =>
+      mutate(() => {
+        const entity = getEntity(block.uid);
+        const oldParent = getEntity(entity.parentUid!);
+        oldParent.children.splice(oldParent.children.indexOf(block.uid), 1);
+        const newParent = getEntity(location["parent-uid"]);
+        const index = location.order === "last" ? newParent.children.length : Math.min(location.order, newParent.children.length);
+        newParent.children.splice(index, 0, block.uid);
+        entity.parentUid = newParent.uid;
+      }),
+    deleteBlock: ({ block }) =>
+      mutate(() => {
+        const entity = getEntity(block.uid);
+        for (const descendant of getDescendants(block.uid)) entities.delete(descendant.uid);
+        const parent = getEntity(entity.parentUid!);
+        parent.children.splice(parent.children.indexOf(block.uid), 1);
+        entities.delete(block.uid);
+      }),
+    createPage: ({ page }) =>
+      mutate(() => {
+        addPage(page.title, page.uid);
+      }),
+    data: {
+      addPullWatch: (_pattern, lookupRef, callback) => {
+        const title = lookupRef.match(/^\[:node\/title "(.*)"\]$/)?.[1];
+        if (title === undefined) throw new Error(`[fakeRoam] Unsupported watch: ${lookupRef}`);
+        const watchId = nextWatchId++;
+        watches.set(watchId, { title, callback });
+        return watchId;
+      },
+      removePullWatch: (watchId) => {
+        watches.delete(watchId);
+      },
+    },
+    ui: {
+      mainWindow: { openBlock: () => undefined },
+      rightSidebar: { open: () => undefined, addWindow: () => undefined },
+      getFocusedBlock: () => null,
+    },
+    util: {
+      dateToPageTitle: dailyPageTitle,
+      dateToPageUid: dailyPageUid,
+    },
+  };
+
+  const global = globalThis as unknown as { window?: { roamAlphaAPI: Window["roamAlphaAPI"] } };
+  const previousWindow = global.window;
+  global.window = { roamAlphaAPI: api };
+
+  return {
+    getString: (uid) => getEntity(uid).string,
+    getChildStrings: (uid) => getEntity(uid).children.map((childUid) => getEntity(childUid).string),
+    getPageUid: (title) => {
+      const pageUid = pageUidsByTitle.get(title);
+      if (!pageUid) throw new Error(`[fakeRoam] Unknown page: ${title}`);
+      return pageUid;
+    },
+    getBlockStrings: (title) => {
+      const pageUid = pageUidsByTitle.get(title);
+      return pageUid ? getDescendants(pageUid).map((block) => block.string) : [];
+    },
+    createBlock: (parentUid, string, uid) =>
+      api.createBlock({ location: { "parent-uid": parentUid, order: "last" }, block: { string, uid } }),
+    updateBlock: (uid, string) => api.updateBlock({ block: { uid, string } }),
+    uninstall: () => {
+      global.window = previousWindow;
+    },
+  };
+}
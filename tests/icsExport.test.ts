@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TimeBlockData } from "../src/types";
+import { getEventSummary, generateIcs } from "../src/core/icsExport";
+import { parseIcs } from "../src/core/icsImport";
+import { parseTimeRange } from "../src/core/timeParser";
+
+const WORK = { tag: "work", color: "#4285f4", isPageRef: false };
+
+function block(text: string, tag: TimeBlockData["tag"] = null): TimeBlockData {
+  return { uid: "a", text, timeRange: parseTimeRange(text)!, tag, tags: tag ? [tag] : [], parentUid: "page", order: 0 };
+}
+
+describe("getEventSummary", () => {
+  it("leaves out the time range and the block's tag", () => {
+    assert.equal(getEventSummary(block("09:00-10:00 Planning #work", WORK)), "Planning");
+    assert.equal(getEventSummary(block("09:00-10:00 #[[work]]", WORK)), "work");
+  });
+
+  it("leaves out the TODO and DONE checkboxes", () => {
+    assert.equal(getEventSummary(block("{{[[TODO]]}} 09:00-10:00 Write report")), "Write report");
+    assert.equal(getEventSummary(block("{{[[DONE]]}} 09:00-10:00 Write report #work", WORK)), "Write report");
+  });
+});
+
+describe("generateIcs", () => {
+  it("writes floating local times, spilling past midnight into the next day", () => {
+    const ics = generateIcs(
+      [{ date: new Date(2026, 9, 19), block: block("23:00-01:30 Night shift; on call #work", WORK) }],
+      new Date(Date.UTC(2026, 9, 19, 8, 0, 0))
+    );
+    assert.match(ics, /\r\nDTSTAMP:20261019T080000Z\r\n/);
+    assert.match(ics, /\r\nDTSTART:20261019T230000\r\nDTEND:20261020T013000\r\n/);
+    assert.match(ics, /\r\nSUMMARY:Night shift\\; on call\r\nCATEGORIES:work\r\n/);
+  });
+
+  it("folds long lines so the calendar reads back unchanged", () => {
+    const title = "Quarterly planning with the whole team, including the budget review and hiring plan";
+    const ics = generateIcs([{ date: new Date(2026, 9, 19), block: block(`09:00-10:00 ${title}`) }]);
+    assert.ok(ics.split("\r\n").every((line) => new TextEncoder().encode(line).length <= 75));
+
+    const [event] = parseIcs(ics);
+    assert.equal(event.uid, "a@roam-timeblock");
+    assert.equal(event.summary, title);
+    assert.deepEqual(event.start, new Date(2026, 9, 19, 9, 0));
+    assert.deepEqual(event.end, new Date(2026, 9, 19, 10, 0));
+  });
+});
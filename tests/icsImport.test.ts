@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseIcs, expandIcsEvents, mapCategoriesToTag } from "../src/core/icsImport";
+import type { TagConfig } from "../src/types";
+
+// One VEVENT with floating (local) times, so the tests don't depend on the machine's time zone
+function calendar(...eventLines: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...eventLines.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+// "M/D HH:MM" of each occurrence
+function summarize(content: string, rangeStart: Date, rangeEnd: Date): string[] {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return expandIcsEvents(parseIcs(content), rangeStart, rangeEnd).occurrences.map(
+    ({ date, startHour, startMinute }) => `${date.getMonth() + 1}/${date.getDate()} ${pad(startHour)}:${pad(startMinute)}`
+  );
+}
+
+describe("parseIcs", () => {
+  it("reads folded lines, escaped text, categories and a duration", () => {
+    const [event] = parseIcs(
+      calendar([
+        "UID:a@example.com",
+        "SUMMARY:Review\\, then",
+        "  plan",
+        "CATEGORIES:Work,Deep Work",
+        "DTSTART:20261019T093000",
+        "DURATION:PT1H30M",
+      ])
+    );
+    assert.equal(event.uid, "a@example.com");
+    assert.equal(event.summary, "Review, then plan");
+    assert.deepEqual(event.categories, ["Work", "Deep Work"]);
+    assert.equal(event.end.getTime() - event.start.getTime(), 90 * 60000);
+  });
+
+  it("ignores nested components and events without a UID or start", () => {
+    const events = parseIcs(
+      calendar(
+        ["UID:a", "DTSTART:20261019T090000", "BEGIN:VALARM", "SUMMARY:Alarm", "END:VALARM", "SUMMARY:Standup"],
+        ["SUMMARY:No uid", "DTSTART:20261019T100000"]
+      )
+    );
+    assert.deepEqual(
+      events.map((event) => event.summary),
+      ["Standup"]
+    );
+  });
+});
+
+describe("expandIcsEvents", () => {
+  const event = (rrule: string, ...extra: string[]) =>
+    calendar(["UID:r", "SUMMARY:Run", "DTSTART:19970805T090000", "DTEND:19970805T100000", rrule, ...extra]);
+
+  it("starts weeks on WKST, Monday by default", () => {
+    const range: [Date, Date] = [new Date(1997, 7, 1), new Date(1997, 8, 30)];
+    assert.deepEqual(summarize(event("RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU"), ...range), [
+      "8/5 09:00",
+      "8/10 09:00",
+      "8/19 09:00",
+      "8/24 09:00",
+    ]);
+    assert.deepEqual(summarize(event("RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU"), ...range), [
+      "8/5 09:00",
+      "8/17 09:00",
+      "8/19 09:00",
+      "8/31 09:00",
+    ]);
+  });
+
+  it("expands monthly rules by weekday and skips excluded dates", () => {
+    const content = event("RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=19971231", "EXDATE:19971031T090000");
+    assert.deepEqual(summarize(content, new Date(1997, 7, 1), new Date(1998, 0, 31)), [
+      "8/29 09:00",
+      "9/26 09:00",
+      "11/28 09:00",
+      "12/26 09:00",
+    ]);
+  });
+
+  it("uses an override for a moved occurrence", () => {
+    const content = calendar(
+      ["UID:r", "SUMMARY:Run", "DTSTART:19970805T090000", "DTEND:19970805T100000", "RRULE:FREQ=DAILY;COUNT=3"],
+      ["UID:r", "SUMMARY:Late run", "RECURRENCE-ID:19970806T090000", "DTSTART:19970806T180000", "DTEND:19970806T190000"]
+    );
+    const { occurrences } = expandIcsEvents(parseIcs(content), new Date(1997, 7, 1), new Date(1997, 7, 31));
+    assert.deepEqual(
+      occurrences.map(({ key, summary, startHour }) => [key, summary, startHour]),
+      [
+        ["r/19970805", "Run", 9],
+        ["r/19970806", "Late run", 18],
+        ["r/19970807", "Run", 9],
+      ]
+    );
+  });
+
+  it("reports events whose repetitions are cut off at the expansion limit", () => {
+    const content = calendar(["UID:old", "SUMMARY:Since 1950", "DTSTART:19500101T090000", "DTEND:19500101T093000", "RRULE:FREQ=DAILY"]);
+    const { occurrences, truncatedEvents } = expandIcsEvents(parseIcs(content), new Date(2026, 9, 19), new Date(2026, 9, 19));
+    assert.deepEqual(occurrences, []);
+    assert.deepEqual(truncatedEvents, ["Since 1950"]);
+
+    const recent = expandIcsEvents(parseIcs(event("RRULE:FREQ=DAILY")), new Date(1997, 7, 5), new Date(1997, 7, 6));
+    assert.equal(recent.occurrences.length, 2);
+    assert.deepEqual(recent.truncatedEvents, []);
+  });
+
+  it("skips all-day events", () => {
+    const content = calendar(["UID:d", "SUMMARY:Holiday", "DTSTART;VALUE=DATE:19970805"]);
+    assert.deepEqual(summarize(content, new Date(1997, 7, 1), new Date(1997, 7, 31)), []);
+  });
+});
+
+describe("mapCategoriesToTag", () => {
+  it("matches a configured tag ignoring case and a leading #", () => {
+    const work: TagConfig = { tag: "work", color: "#7CB342", isPageRef: false };
+    assert.equal(mapCategoriesToTag(["Personal", "#Work"], [work]), work);
+    assert.equal(mapCategoriesToTag(["Personal"], [work]), null);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_KEY_BINDINGS,
+  normalizeKeyBinding,
+  findKeyCommand,
+  getTagKeyIndex,
+  bindingFromKeyPress,
+  formatKeyBinding,
+  KeyPress,
+} from "../src/core/keyBindings";
+
+function press(key: string, modifiers: Partial<Omit<KeyPress, "key">> = {}): KeyPress {
+  return { key, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers };
+}
+
+describe("normalizeKeyBinding", () => {
+  it("writes modifiers and keys one way", () => {
+    assert.equal(normalizeKeyBinding("shift+up"), "Shift+ArrowUp");
+    assert.equal(normalizeKeyBinding(" Cmd + Alt + N "), "Alt+Meta+n");
+    assert.equal(normalizeKeyBinding("Ctrl++"), "Ctrl++");
+    assert.equal(normalizeKeyBinding("del"), "Delete");
+  });
+
+  it("rejects unknown modifiers and keys", () => {
+    assert.equal(normalizeKeyBinding("Hyper+n"), null);
+    assert.equal(normalizeKeyBinding("F13"), null);
+    assert.equal(normalizeKeyBinding(""), null);
+  });
+});
+
+describe("findKeyCommand", () => {
+  it("tells moves, end resizes and start resizes apart by their modifiers", () => {
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("ArrowUp")), "moveEarlier");
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("ArrowDown", { shiftKey: true })), "endLater");
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("ArrowUp", { altKey: true })), "startEarlier");
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("ArrowUp", { ctrlKey: true })), null);
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("Tab", { shiftKey: true })), "selectPrevious");
+  });
+
+  it("matches letters with Shift only when bound with Shift, and symbols either way", () => {
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("n")), "newBlock");
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("N", { shiftKey: true })), null);
+    assert.equal(findKeyCommand(DEFAULT_KEY_BINDINGS, press("?", { shiftKey: true })), "showHelp");
+  });
+
+  it("uses custom bindings", () => {
+    const bindings = { ...DEFAULT_KEY_BINDINGS, removeBlock: "Backspace", newBlock: "Shift+N" };
+    assert.equal(findKeyCommand(bindings, press("Backspace")), "removeBlock");
+    assert.equal(findKeyCommand(bindings, press("Delete")), null);
+    assert.equal(findKeyCommand(bindings, press("N", { shiftKey: true })), "newBlock");
+  });
+});
+
+describe("getTagKeyIndex", () => {
+  it("maps plain 1-9 to colour indexes", () => {
+    assert.equal(getTagKeyIndex(press("1")), 0);
+    assert.equal(getTagKeyIndex(press("9")), 8);
+    assert.equal(getTagKeyIndex(press("0")), null);
+    assert.equal(getTagKeyIndex(press("2", { ctrlKey: true })), null);
+  });
+});
+
+describe("bindingFromKeyPress", () => {
+  it("records the key with its modifiers, waiting for a non-modifier key", () => {
+    assert.equal(bindingFromKeyPress(press("Shift", { shiftKey: true })), null);
+    assert.equal(bindingFromKeyPress(press("ArrowLeft", { altKey: true })), "Alt+ArrowLeft");
+    assert.equal(bindingFromKeyPress(press("?", { shiftKey: true })), "?");
+    assert.equal(bindingFromKeyPress(press(" ")), "Space");
+  });
+});
+
+describe("formatKeyBinding", () => {
+  it("shows arrows as symbols", () => {
+    assert.equal(formatKeyBinding("Shift+ArrowUp"), "Shift+↑");
+    assert.equal(formatKeyBinding("n"), "n");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TimeBlockData } from "../src/types";
+import { calculateBlockLayouts, calculateBlockShares, splitOvernightBlocks } from "../src/core/layoutCalculator";
+import { parseTimeRange } from "../src/core/timeParser";
+
+function block(uid: string, time: string): TimeBlockData {
+  return { uid, text: time, timeRange: parseTimeRange(time)!, tag: null, tags: [], parentUid: "page", order: 0 };
+}
+
+// uid -> [column, totalColumns]
+function layout(blocks: TimeBlockData[]): Record<string, [number, number]> {
+  const result: Record<string, [number, number]> = {};
+  for (const { block, column, totalColumns } of calculateBlockLayouts(blocks)) {
+    result[block.uid] = [column, totalColumns];
+  }
+  return result;
+}
+
+describe("calculateBlockLayouts", () => {
+  it("gives separate and touching blocks the full width", () => {
+    assert.deepEqual(layout([block("a", "09:00-10:00"), block("b", "10:00-11:00"), block("c", "13:00-14:00")]), {
+      a: [0, 1],
+      b: [0, 1],
+      c: [0, 1],
+    });
+  });
+
+  it("puts overlapping blocks side by side", () => {
+    assert.deepEqual(layout([block("a", "09:00-11:00"), block("b", "10:00-12:00"), block("c", "10:30-11:30")]), {
+      a: [0, 3],
+      b: [1, 3],
+      c: [2, 3],
+    });
+  });
+
+  it("reuses a column once its block has ended", () => {
+    assert.deepEqual(layout([block("a", "09:00-12:00"), block("b", "09:00-10:00"), block("c", "10:00-11:00")]), {
+      a: [0, 2],
+      b: [1, 2],
+      c: [1, 2],
+    });
+  });
+
+  it("places the longer of two blocks starting together first", () => {
+    assert.deepEqual(layout([block("short", "09:00-09:30"), block("long", "09:00-11:00")]), {
+      long: [0, 2],
+      short: [1, 2],
+    });
+  });
+});
+
+describe("calculateBlockShares", () => {
+  it("splits overlapping time between the blocks that overlap", () => {
+    const shares = calculateBlockShares([block("a", "09:00-11:00"), block("b", "10:00-12:00")]);
+    assert.equal(shares.get("a"), 90);
+    assert.equal(shares.get("b"), 90);
+  });
+
+  it("only counts time inside the clip window", () => {
+    const shares = calculateBlockShares([block("late", "23:00-01:00"), block("early", "08:00-09:00")], 9 * 60, 24 * 60);
+    assert.equal(shares.get("late"), 60);
+    assert.equal(shares.get("early"), 0);
+  });
+});
+
+describe("splitOvernightBlocks", () => {
+  // Each column's blocks as [uid, start, end] in minutes, with continuations marked
+  function columns(blocksByDay: TimeBlockData[][], startHour: number, endHour: number): Array<Array<[string, number, number]>> {
+    const { days, continuations } = splitOvernightBlocks(blocksByDay, startHour, endHour);
+    return days.map((blocks) =>
+      blocks.map((b): [string, number, number] => [
+        continuations.has(b) ? `${b.uid}+` : b.uid,
+        b.timeRange.startHour * 60 + b.timeRange.startMinute,
+        b.timeRange.endHour * 60 + b.timeRange.endMinute,
+      ])
+    );
+  }
+
+  it("keeps an overnight block whole in its own column with the default 8-26 grid", () => {
+    assert.deepEqual(columns([[block("late", "23:00-01:00"), block("day", "09:00-10:00")], []], 8, 26), [
+      [
+        ["late", 1380, 1500],
+        ["day", 540, 600],
+      ],
+      [],
+    ]);
+  });
+
+  it("cuts a block at the end of the grid when the next column doesn't show 0:00", () => {
+    assert.deepEqual(columns([[block("late", "23:00-03:00")], []], 8, 26), [[["late", 1380, 1560]], []]);
+    assert.deepEqual(columns([[block("late", "23:00-01:00")], []], 8, 24), [[["late", 1380, 1440]], []]);
+  });
+
+  it("continues the rest at the top of the next column when the grid starts at 0:00", () => {
+    assert.deepEqual(columns([[block("late", "23:00-01:00")], []], 0, 24), [[["late", 1380, 1440]], [["late+", 0, 60]]]);
+    assert.deepEqual(columns([[block("late", "23:00-03:00")], []], 0, 26), [[["late", 1380, 1560]], [["late+", 120, 180]]]);
+    assert.deepEqual(columns([[block("late", "23:00-01:00")]], 0, 24), [[["late", 1380, 1440]]]);
+  });
+});
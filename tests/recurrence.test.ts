@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TimeBlockData } from "../src/types";
+import { parseRecurrence, occursOn, stripRecurrence, createOccurrence } from "../src/core/recurrence";
+import { parseTimeRange } from "../src/core/timeParser";
+
+const weekdays = (text: string) => {
+  const rule = parseRecurrence(text);
+  return rule ? [...rule.weekdays].sort() : null;
+};
+
+describe("parseRecurrence", () => {
+  it("reads the {{recur}} component and the every ... phrase", () => {
+    assert.deepEqual(weekdays("09:00-10:00 Standup {{recur: weekdays}}"), [1, 2, 3, 4, 5]);
+    assert.deepEqual(weekdays("Review {{[[recur]]: Mon, Wed}}"), [1, 3]);
+    assert.deepEqual(weekdays("Gym every Tuesday,Thursday"), [2, 4]);
+    assert.deepEqual(weekdays("Walk every day"), [0, 1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(weekdays("Brunch every weekend"), [0, 6]);
+  });
+
+  it("returns null for unknown days and ordinary text", () => {
+    assert.equal(parseRecurrence("Standup {{recur: someday}}"), null);
+    assert.equal(parseRecurrence("every-day chores"), null);
+    assert.equal(parseRecurrence("09:00-10:00 Standup"), null);
+  });
+});
+
+describe("occurrences", () => {
+  const rule = parseRecurrence("09:00-10:00 Standup every Mon,Wed #work")!;
+
+  it("occurs on the rule's weekdays only", () => {
+    assert.equal(occursOn(rule, new Date(2026, 9, 19)), true); // Monday
+    assert.equal(occursOn(rule, new Date(2026, 9, 20)), false);
+  });
+
+  it("drops the recurrence text from occurrences", () => {
+    const text = "09:00-10:00 Standup every Mon,Wed #work";
+    assert.equal(stripRecurrence(text, rule), "09:00-10:00 Standup #work");
+
+    const template: TimeBlockData = {
+      uid: "tpl",
+      text,
+      timeRange: parseTimeRange(text)!,
+      tag: null,
+      tags: [],
+      parentUid: "templates",
+      order: 0,
+      actuals: [{ start: 540, end: 600 }],
+    };
+    const date = new Date(2026, 9, 21);
+    const occurrence = createOccurrence(template, rule, date);
+    assert.equal(occurrence.uid, "tpl@2026-10-21");
+    assert.equal(occurrence.text, "09:00-10:00 Standup #work");
+    assert.deepEqual(occurrence.virtual, { templateUid: "tpl", date });
+    assert.equal(occurrence.actuals, undefined);
+  });
+});
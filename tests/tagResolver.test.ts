@@ -0,0 +1,117 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { TagConfig } from "../src/types";
+import { createBatchTagResolver, findAssociatedTag, findTagInText } from "../src/core/tagResolver";
+import { getBlockHierarchyData } from "../src/api/roamQueries";
+import { installFakeRoam, FakeRoam, OutlineNode } from "./fakeRoam";
+
+const WORK: TagConfig = { tag: "work", color: "#7CB342", isPageRef: false };
+const HOME: TagConfig = { tag: "home", color: "#E53935", isPageRef: false };
+const MEETING: TagConfig = { tag: "meeting", color: "#757575", isPageRef: false };
+const DEEP: TagConfig = { tag: "Deep Work", color: "#1E88E5", isPageRef: false, attribute: "Category" };
+const TAGS = [WORK, HOME];
+
+// A chain of nested blocks: the first holds the text, the last has the given uid
+function nestedChain(depth: number, topText: string, leafUid: string): OutlineNode {
+  let node: OutlineNode = { string: "10:00-11:00 leaf", uid: leafUid };
+  for (let level = depth - 1; level > 0; level--) {
+    node = { string: level === 1 ? topText : `level ${level}`, children: [node] };
+  }
+  return node;
+}
+
+describe("findTagInText", () => {
+  it("matches #tag, #[[tag]] and [[tag]] case-insensitively", () => {
+    assert.equal(findTagInText("10:00-11:00 #work", TAGS), WORK);
+    assert.equal(findTagInText("10:00-11:00 #[[Work]]", TAGS), WORK);
+    assert.equal(findTagInText("10:00-11:00 [[home]]", TAGS), HOME);
+  });
+
+  it("doesn't match longer tags that start with a configured one", () => {
+    assert.equal(findTagInText("#workshop #work-life", TAGS), null);
+  });
+});
+
+describe("tag inheritance", () => {
+  let roam: FakeRoam | null = null;
+  afterEach(() => roam?.uninstall());
+
+  it("prefers the block's own tag over an ancestor's", () => {
+    roam = installFakeRoam({
+      Page: [{ string: "#home", children: [{ string: "10:00-11:00 #work", uid: "child" }] }],
+    });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    assert.deepEqual(createBatchTagResolver(TAGS, contentMap, parentMap)("child"), [WORK, HOME]);
+  });
+
+  it("inherits from the nearest tagged ancestor however deep", () => {
+    roam = installFakeRoam({ Page: [nestedChain(12, "#home", "leaf")] });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    assert.deepEqual(createBatchTagResolver(TAGS, contentMap, parentMap)("leaf"), [HOME]);
+    assert.equal(findAssociatedTag("leaf", TAGS), HOME);
+  });
+
+  it("stops looking after 50 levels", () => {
+    roam = installFakeRoam({ Page: [nestedChain(50, "#home", "within"), nestedChain(51, "#home", "beyond")] });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    const resolveTag = createBatchTagResolver(TAGS, contentMap, parentMap);
+    assert.deepEqual(resolveTag("within"), [HOME]);
+    assert.deepEqual(resolveTag("beyond"), []);
+  });
+
+  it("returns null when nothing up the chain is tagged", () => {
+    roam = installFakeRoam({ Page: [{ string: "Project", children: [{ string: "10:00-11:00 untagged", uid: "child" }] }] });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    assert.deepEqual(createBatchTagResolver(TAGS, contentMap, parentMap)("child"), []);
+  });
+
+  it("orders several tags by priority, wherever they are in the chain", () => {
+    roam = installFakeRoam({
+      Page: [{ string: "#work", children: [{ string: "10:00-11:00 #meeting #home", uid: "child" }] }],
+    });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    assert.deepEqual(createBatchTagResolver([...TAGS, MEETING], contentMap, parentMap)("child"), [WORK, HOME, MEETING]);
+    assert.equal(findAssociatedTag("child", [...TAGS, MEETING]), WORK);
+  });
+
+  it("puts the block's own tags first in ownFirst mode", () => {
+    roam = installFakeRoam({
+      Page: [{ string: "#work", children: [{ string: "10:00-11:00 #meeting #home", uid: "child" }] }],
+    });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    assert.deepEqual(createBatchTagResolver([...TAGS, MEETING], contentMap, parentMap, "ownFirst")("child"), [
+      HOME,
+      MEETING,
+      WORK,
+    ]);
+    assert.equal(findAssociatedTag("child", [...TAGS, MEETING], "ownFirst"), HOME);
+  });
+
+  it("reads attribute-style tags from child blocks, for the block and its children", () => {
+    roam = installFakeRoam({
+      Page: [
+        {
+          string: "Project",
+          children: [
+            "Category:: Focus, [[Deep Work]]",
+            { string: "10:00-11:00 Draft", uid: "inherits", children: ["Status:: draft"] },
+          ],
+        },
+        { string: "12:00-13:00 Review", uid: "own", children: ["category:: #[[deep work]]"] },
+        { string: "14:00-15:00 Other", uid: "other", children: ["Category:: Deep Workshop", "Type:: Deep Work"] },
+      ],
+    });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    const resolveTag = createBatchTagResolver([...TAGS, DEEP], contentMap, parentMap);
+    assert.deepEqual(resolveTag("inherits"), [DEEP]);
+    assert.deepEqual(resolveTag("own"), [DEEP]);
+    assert.deepEqual(resolveTag("other"), []);
+    assert.equal(findAssociatedTag("inherits", [...TAGS, DEEP]), DEEP);
+  });
+
+  it("lists a tag found on several levels once", () => {
+    roam = installFakeRoam({ Page: [{ string: "#[[Work]]", children: [{ string: "10:00-11:00 #work", uid: "child" }] }] });
+    const { contentMap, parentMap } = getBlockHierarchyData("Page");
+    assert.deepEqual(createBatchTagResolver(TAGS, contentMap, parentMap)("child"), [WORK]);
+  });
+});
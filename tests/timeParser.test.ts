@@ -0,0 +1,135 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseTimeRange,
+  formatTimeRangeLike,
+  formatNewTimeRange,
+  replaceTimeRange,
+  crossesMidnight,
+} from "../src/core/timeParser";
+
+// [startHour, startMinute, endHour, endMinute] of the parsed range, or null
+function parse(text: string, defaultBlockMinutes?: number): [number, number, number, number] | null {
+  const range = parseTimeRange(text, defaultBlockMinutes);
+  return range ? [range.startHour, range.startMinute, range.endHour, range.endMinute] : null;
+}
+
+// Parse, then write new times back into the text the way updateBlockTime does
+function rewrite(text: string, startHour: number, startMinute: number, endHour: number, endMinute: number): string {
+  const range = parseTimeRange(text);
+  assert.ok(range, `no time range in "${text}"`);
+  return replaceTimeRange(text, range, formatTimeRangeLike(range.format, startHour, startMinute, endHour, endMinute));
+}
+
+describe("parseTimeRange", () => {
+  it("parses 24-hour ranges with or without spaces and dashes", () => {
+    assert.deepEqual(parse("10:00-12:00 Deep work"), [10, 0, 12, 0]);
+    assert.deepEqual(parse("10:00 - 12:30"), [10, 0, 12, 30]);
+    assert.deepEqual(parse("9:15–10:45"), [9, 15, 10, 45]);
+    assert.deepEqual(parse("09:00 — 10:00"), [9, 0, 10, 0]);
+  });
+
+  it("parses 12-hour ranges, including a start that shares the end's period", () => {
+    assert.deepEqual(parse("10:00am-12:00pm"), [10, 0, 12, 0]);
+    assert.deepEqual(parse("10am-12pm"), [10, 0, 12, 0]);
+    assert.deepEqual(parse("10 AM - 11:30 AM"), [10, 0, 11, 30]);
+    assert.deepEqual(parse("10-11:30am"), [10, 0, 11, 30]);
+    assert.deepEqual(parse("1:00-2:00pm"), [13, 0, 14, 0]);
+    assert.deepEqual(parse("11-1pm"), [11, 0, 13, 0]);
+    assert.deepEqual(parse("12am-1am"), [0, 0, 1, 0]);
+  });
+
+  it("parses h-style times", () => {
+    assert.deepEqual(parse("14h-16h30"), [14, 0, 16, 30]);
+    assert.deepEqual(parse("9-17h"), [9, 0, 17, 0]);
+  });
+
+  it("moves the end of overnight ranges past 24:00", () => {
+    const range = parseTimeRange("23:00-01:30 Sleep");
+    assert.deepEqual(parse("23:00-01:30 Sleep"), [23, 0, 25, 30]);
+    assert.ok(range && crossesMidnight(range));
+    assert.equal(crossesMidnight(parseTimeRange("10:00-12:00")!), false);
+  });
+
+  it("parses a start plus a length", () => {
+    assert.deepEqual(parse("14:00 +90m"), [14, 0, 15, 30]);
+    assert.deepEqual(parse("14:00 for 1h30"), [14, 0, 15, 30]);
+    assert.deepEqual(parse("9:30am +1.5h"), [9, 30, 11, 0]);
+    assert.deepEqual(parse("21:30 for 45 min"), [21, 30, 22, 15]);
+    assert.deepEqual(parse("23:30 +1h"), [23, 30, 24, 30]);
+  });
+
+  it("gives a bare start time the default length", () => {
+    assert.deepEqual(parse("Call at 9am"), [9, 0, 10, 0]);
+    assert.deepEqual(parse("14:00 standup", 30), [14, 0, 14, 30]);
+    assert.deepEqual(parse("14h30 lunch", 30), [14, 30, 15, 0]);
+  });
+
+  it("prefers an explicit range over other times in the text", () => {
+    assert.deepEqual(parse("at 9am: 14:00-15:00 review"), [14, 0, 15, 0]);
+    assert.deepEqual(parse("pages 10-12, then 13:00-14:00"), [13, 0, 14, 0]);
+  });
+
+  it("ignores numbers that aren't times", () => {
+    assert.equal(parse("pages 10-12"), null);
+    assert.equal(parse("sleep 8h"), null);
+    assert.equal(parse("write ~1h30"), null);
+    assert.equal(parse("2026-10-19 notes"), null);
+    assert.equal(parse("25:00-26:00"), null);
+    assert.equal(parse("10:75 notes"), null);
+    assert.equal(parse("13pm-14pm"), null);
+    assert.equal(parse("v1.10:00"), null);
+  });
+
+  it("records where the range is in the text", () => {
+    const range = parseTimeRange("{{[[TODO]]}} 10am - 11am call");
+    assert.equal(range?.originalText, "10am - 11am");
+    assert.equal(range?.index, 13);
+  });
+});
+
+describe("formatTimeRangeLike", () => {
+  it("keeps 24-hour ranges, their separator and padding", () => {
+    assert.equal(rewrite("10:00 - 12:00 Work", 11, 30, 13, 0), "11:30 - 13:00 Work");
+    assert.equal(rewrite("9:00–10:00", 8, 0, 9, 0), "8:00–9:00");
+    assert.equal(rewrite("09:00-10:00", 8, 0, 9, 0), "08:00-09:00");
+  });
+
+  it("keeps 12-hour style, spacing and casing", () => {
+    assert.equal(rewrite("10am-12pm gym", 13, 0, 14, 30), "1pm-2:30pm gym");
+    assert.equal(rewrite("Meet 10 AM - 11:30 AM ok", 12, 0, 13, 30), "Meet 12 PM - 1:30 PM ok");
+    assert.equal(rewrite("10:00am-11:00am", 14, 0, 15, 0), "2:00pm-3:00pm");
+  });
+
+  it("keeps a shared period only while both times are in it", () => {
+    assert.equal(rewrite("10-11:30am", 8, 0, 9, 0), "8-9am");
+    assert.equal(rewrite("10-11:30am", 11, 0, 13, 0), "11am-1pm");
+  });
+
+  it("keeps h-style times", () => {
+    assert.equal(rewrite("14h-16h30", 9, 0, 10, 15), "9h-10h15");
+    assert.equal(rewrite("9-17h", 8, 0, 16, 0), "8-16h");
+  });
+
+  it("keeps a start plus a length in the same unit", () => {
+    assert.equal(rewrite("14:00 +90m", 15, 0, 17, 0), "15:00 +120m");
+    assert.equal(rewrite("14:00 for 1h30", 9, 0, 9, 45), "09:00 for 45m");
+    assert.equal(rewrite("14:00 for 1h30", 9, 0, 10, 15), "09:00 for 1h15");
+    assert.equal(rewrite("9:30am +1.5h", 10, 0, 12, 0), "10:00am +2h");
+  });
+
+  it("writes a start-only time as a range once its length differs from the default", () => {
+    assert.equal(rewrite("14:00 standup", 15, 0, 16, 0), "15:00 standup");
+    assert.equal(rewrite("14:00 standup", 15, 0, 15, 30), "15:00-15:30 standup");
+  });
+
+  it("writes extended-range hours as clock time", () => {
+    assert.equal(rewrite("23:00-01:00", 24, 30, 26, 0), "00:30-02:00");
+  });
+
+  it("writes new blocks in the configured style", () => {
+    assert.equal(formatNewTimeRange(9, 0, 10, 30, "24h"), "09:00-10:30");
+    assert.equal(formatNewTimeRange(9, 0, 10, 30, "12h"), "9:00am-10:30am");
+    assert.equal(formatNewTimeRange(9, 0, 13, 30, "12h-short"), "9am-1:30pm");
+  });
+});
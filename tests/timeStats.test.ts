@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ColorConfig, TagConfig, TimeBlockData, TrackedInterval } from "../src/types";
+import { calculateTimeStats, formatDrift } from "../src/core/timeStats";
+import { parseTimeRange } from "../src/core/timeParser";
+
+const WORK: TagConfig = { tag: "work", color: "#7CB342", isPageRef: false };
+const HOME: TagConfig = { tag: "home", color: "#E53935", isPageRef: false };
+const COLORS: ColorConfig[] = [
+  { color: WORK.color, tags: ["work"] },
+  { color: HOME.color, tags: ["home"] },
+];
+
+function block(uid: string, time: string, tag: TagConfig | null, actuals?: TrackedInterval[]): TimeBlockData {
+  const tags = tag ? [tag] : [];
+  return { uid, text: time, timeRange: parseTimeRange(time)!, tag, tags, parentUid: "page", order: 0, actuals };
+}
+
+describe("calculateTimeStats", () => {
+  it("sums planned time per tag and shares overlapping time", () => {
+    const stats = calculateTimeStats(
+      [[block("a", "09:00-11:00", WORK), block("b", "10:00-11:00", HOME), block("c", "13:00-13:30", null)]],
+      COLORS,
+      8,
+      18
+    );
+    assert.equal(stats.plannedMinutes, 150);
+    assert.equal(stats.unplannedMinutes, 600 - 150);
+    assert.deepEqual(
+      stats.groups.map((group) => group.minutes),
+      [90, 30]
+    );
+    assert.equal(stats.untaggedMinutes, 30);
+  });
+
+  it("reports completed vs. planned task time per tag", () => {
+    const todo = { ...block("a", "09:00-10:00", WORK), taskStatus: "todo" as const };
+    const done = { ...block("b", "10:00-11:30", WORK), taskStatus: "done" as const };
+    const doneHome = { ...block("c", "12:00-12:30", HOME), taskStatus: "done" as const };
+    const stats = calculateTimeStats([[todo, done, block("d", "13:00-14:00", WORK)], [doneHome]], COLORS, 8, 18);
+    assert.deepEqual(stats.groups[0].tags[0].tasks, { plannedMinutes: 150, completedMinutes: 90, taskCount: 2, doneCount: 1 });
+    assert.deepEqual(stats.tasks, { plannedMinutes: 180, completedMinutes: 120, taskCount: 3, doneCount: 2 });
+  });
+
+  it("compares tracked time with the full planned length of tracked blocks", () => {
+    const stats = calculateTimeStats(
+      [
+        [
+          block("a", "09:00-10:00", WORK, [{ start: 9 * 60 + 5, end: 10 * 60 + 20 }]),
+          block("b", "10:00-11:00", WORK, [
+            { start: 10 * 60 + 30, end: 10 * 60 + 45 },
+            { start: 13 * 60, end: 13 * 60 + 15 },
+          ]),
+          block("c", "11:00-12:00", WORK),
+        ],
+        [block("d", "07:00-09:00", HOME, [{ start: 7 * 60, end: 8 * 60 }])],
+      ],
+      COLORS,
+      8,
+      18
+    );
+    assert.deepEqual(stats.groups[0].tags[0].drift, { plannedMinutes: 120, actualMinutes: 105, blockCount: 2 });
+    // Drift ignores the visible range, planned hours don't
+    assert.deepEqual(stats.groups[1].tags[0].drift, { plannedMinutes: 120, actualMinutes: 60, blockCount: 1 });
+    assert.equal(stats.groups[1].minutes, 60);
+    assert.deepEqual(stats.drift, { plannedMinutes: 240, actualMinutes: 165, blockCount: 3 });
+  });
+
+  it("counts next-day blocks of the extended range once", () => {
+    const night = { ...block("n", "01:00-02:00", WORK, [{ start: 60, end: 120 }]), taskStatus: "todo" as const };
+    const shown = { ...night, timeRange: { ...night.timeRange, startHour: 25, endHour: 26 }, actuals: [{ start: 1500, end: 1560 }] };
+    // Day 1 shows the block at 25:00 (before its dayEndHour 26), day 2 has it at 01:00 (before dayStartHour)
+    const stats = calculateTimeStats([[shown], [night]], COLORS, 8, 26);
+    assert.equal(stats.plannedMinutes, 60);
+    assert.equal(stats.groups[0].tags[0].blockCount, 1);
+    assert.deepEqual(stats.drift, { plannedMinutes: 60, actualMinutes: 60, blockCount: 1 });
+    assert.equal(stats.tasks.taskCount, 1);
+  });
+});
+
+describe("formatDrift", () => {
+  it("signs the difference", () => {
+    assert.equal(formatDrift(15), "+15m");
+    assert.equal(formatDrift(-90), "−1h 30m");
+    assert.equal(formatDrift(0.2), "±0m");
+  });
+});